@@ -4,39 +4,211 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import {Video} from '@google/genai';
-import React, {useCallback, useEffect, useState} from 'react';
+import React, {useCallback, useEffect, useRef, useState} from 'react';
 import ApiKeyDialog from './components/ApiKeyDialog';
+import CompareDialog from './components/CompareDialog';
+import CompareView from './components/CompareView';
+import ExtensionChainDialog from './components/ExtensionChainDialog';
+import ExtensionChainPanel from './components/ExtensionChainPanel';
+import JobQueuePanel from './components/JobQueuePanel';
+import LineageView from './components/LineageView';
 import LoadingIndicator from './components/LoadingIndicator';
+import PresetEditor from './components/PresetEditor';
 import PresetGallery from './components/PresetGallery';
+import ProjectControls from './components/ProjectControls';
 import PromptForm from './components/PromptForm';
+import StoryboardEditor from './components/StoryboardEditor';
+import TimelineEditor from './components/TimelineEditor';
 import VideoResult from './components/VideoResult';
-import {generateVideo} from './services/geminiService';
+import {generateVideo, resumeVideoGeneration} from './services/geminiService';
+import {createProjectFile, readProjectFile} from './services/projectFile';
+import {getVideoProvider} from './services/providerSelection';
+import {getEffectiveModel} from './services/videoPayload';
+import {
+  toVideoGenerationError,
+  VideoErrorCode,
+  VideoGenerationError,
+} from './services/errors';
+import {
+  clampConcurrency,
+  createJobQueue,
+  DEFAULT_CONCURRENCY,
+  isJobFinished,
+  JobQueue,
+  toPendingOperation,
+} from './services/jobQueue';
+import {
+  deleteChain,
+  deleteCharacter,
+  deleteChipSet,
+  deletePendingOperation,
+  deletePreset,
+  deleteScene,
+  deleteSequence,
+  deleteStoryboard,
+  loadChains,
+  loadCharacters,
+  loadChipSets,
+  loadPendingOperations,
+  loadPresets,
+  loadScenes,
+  loadSequences,
+  loadStoryboards,
+  renameCharacter,
+  renameScene,
+  saveChain,
+  saveCharacter,
+  saveChipSet,
+  savePendingOperation,
+  savePreset,
+  saveScene,
+  saveSequence,
+  saveStoryboard,
+} from './services/storageService';
 import {
   AppState,
+  ChainStatus,
   Character,
+  ChipSet,
+  Comparison,
+  ExtensionChain,
   GenerateVideoParams,
+  GenerationJob,
   GenerationMode,
+  JobStatus,
+  Preset,
   Resolution,
   Scene,
-  VideoFile,
+  SceneOrigin,
+  Sequence,
+  Storyboard,
+  StoryboardShot,
+  VeoModel,
 } from './types';
+import {
+  estimateGenerationDuration,
+  recordGenerationDuration,
+} from './utils/durationHistory';
+import {applyCast} from './utils/characters';
+import {
+  buildVariations,
+  ComparisonOptions,
+  createComparison,
+} from './utils/comparison';
+import {
+  buildExtensionParams,
+  createChain,
+  endChain,
+  getNextPrompt,
+  recordHop,
+  restoreChains,
+} from './utils/extensionChain';
+import {downloadBlob} from './utils/fileUtils';
+import {deriveParams} from './utils/lineage';
+import {createPreset, getPresetCategories} from './utils/presets';
+import {
+  completeShot,
+  failShot,
+  findShotByJob,
+  planStoryboardRun,
+  updateShot,
+} from './utils/storyboard';
+import {removeSceneClips} from './utils/timeline';
+import {validateVideoParams} from './utils/validation';
+
+const CONCURRENCY_STORAGE_KEY = 'veo-studio:concurrency';
+
+// Kept within the choices the queue panel offers
+const loadConcurrency = () => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+  return Number.isFinite(stored) && stored > 0
+    ? clampConcurrency(stored)
+    : DEFAULT_CONCURRENCY;
+};
+
+enum RecoveryAction {
+  SELECT_KEY,
+  RETRY,
+  RESUME,
+  EDIT_PROMPT,
+}
+
+// What the error view offers for each kind of failure
+const ERROR_RECOVERY: Record<
+  VideoErrorCode,
+  {title: string; action: RecoveryAction; label: string}
+> = {
+  [VideoErrorCode.AUTH]: {
+    title: 'API Key Problem',
+    action: RecoveryAction.SELECT_KEY,
+    label: 'Select API Key',
+  },
+  [VideoErrorCode.QUOTA]: {
+    title: 'Rate Limit Reached',
+    action: RecoveryAction.RETRY,
+    label: 'Retry',
+  },
+  [VideoErrorCode.SAFETY_BLOCKED]: {
+    title: 'Blocked by Safety Filters',
+    action: RecoveryAction.EDIT_PROMPT,
+    label: 'Edit Prompt',
+  },
+  [VideoErrorCode.TIMEOUT]: {
+    title: 'Still Rendering',
+    action: RecoveryAction.RESUME,
+    label: 'Keep Waiting',
+  },
+  [VideoErrorCode.DOWNLOAD_FAILED]: {
+    title: 'Download Failed',
+    action: RecoveryAction.RESUME,
+    label: 'Retry Download',
+  },
+  [VideoErrorCode.INVALID_INPUT]: {
+    title: 'Invalid Settings',
+    action: RecoveryAction.EDIT_PROMPT,
+    label: 'Fix Settings',
+  },
+  [VideoErrorCode.NO_VIDEOS]: {
+    title: 'No Video Returned',
+    action: RecoveryAction.RETRY,
+    label: 'Generate Again',
+  },
+  [VideoErrorCode.CANCELLED]: {
+    title: 'Generation Cancelled',
+    action: RecoveryAction.EDIT_PROMPT,
+    label: 'Edit Prompt',
+  },
+  [VideoErrorCode.UNKNOWN]: {
+    title: 'Error',
+    action: RecoveryAction.EDIT_PROMPT,
+    label: 'Try Again',
+  },
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusError, setStatusError] = useState<VideoGenerationError | null>(
+    null,
+  );
   const [lastConfig, setLastConfig] = useState<GenerateVideoParams | null>(
     null,
   );
   const [lastVideoObject, setLastVideoObject] = useState<Video | null>(null);
   const [lastVideoBlob, setLastVideoBlob] = useState<Blob | null>(null);
+  const [lastSceneId, setLastSceneId] = useState<string | null>(null);
   const [showApiKeyDialog, setShowApiKeyDialog] = useState(false);
   
-  // Store generated scenes
+  // Store generated scenes (persisted to IndexedDB)
   const [scenes, setScenes] = useState<Scene[]>([]);
   
-  // Store user-defined characters
+  // Store user-defined characters (persisted to IndexedDB). Mirrored in a
+  // ref so queued jobs expand the characters as they are when they run.
   const [characters, setCharacters] = useState<Character[]>([]);
+  const charactersRef = useRef<Character[]>([]);
+
+  // Timeline edits of scenes (persisted to IndexedDB)
+  const [sequences, setSequences] = useState<Sequence[]>([]);
 
   // A single state to hold the initial values for the prompt form
   const [initialFormValues, setInitialFormValues] =
@@ -45,10 +217,48 @@ const App: React.FC = () => {
   // Form key to force remounting of PromptForm only when needed
   const [formKey, setFormKey] = useState(0);
 
+  // Background generation jobs
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [concurrency, setConcurrency] = useState(loadConcurrency);
+  const queueRef = useRef<JobQueue | null>(null);
+  // The job followed by the loading/result/error view, if any
+  const activeJobIdRef = useRef<string | null>(null);
+
+  // Extension chains (persisted to IndexedDB). The queue callbacks read the
+  // ref, since they are created once and never see later renders.
+  const [chains, setChains] = useState<ExtensionChain[]>([]);
+  const chainsRef = useRef<ExtensionChain[]>([]);
+  const [showChainDialog, setShowChainDialog] = useState(false);
+
+  // Takes of one generation being compared side by side
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [showCompareDialog, setShowCompareDialog] = useState(false);
+
+  // Scripts split into shots (persisted to IndexedDB). Mirrored in a ref
+  // for the queue callbacks, like the chains.
+  const [storyboards, setStoryboards] = useState<Storyboard[]>([]);
+  const storyboardsRef = useRef<Storyboard[]>([]);
+
+  // The preset library (persisted to IndexedDB) and the preset being named
+  // or edited, if any
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [editingPreset, setEditingPreset] = useState<{
+    preset: Preset;
+    isNew: boolean;
+  } | null>(null);
+  // Category of the preset the editor was last filled from, which picks
+  // extra suggestion chips; cleared when the editor is filled otherwise
+  const [activePresetCategory, setActivePresetCategory] = useState<
+    string | null
+  >(null);
+
+  // Suggestion chip sets (persisted to IndexedDB)
+  const [chipSets, setChipSets] = useState<ChipSet[]>([]);
+
   // Check for API key on initial load
   useEffect(() => {
     const checkApiKey = async () => {
-      if (window.aistudio) {
+      if (window.aistudio && getVideoProvider().requiresApiKey) {
         try {
           if (!(await window.aistudio.hasSelectedApiKey())) {
             setShowApiKeyDialog(true);
@@ -65,26 +275,344 @@ const App: React.FC = () => {
     checkApiKey();
   }, []);
 
-  // Clean up main video URL to prevent memory leaks
+  // Rehydrate the project library saved by previous sessions
   useEffect(() => {
-    return () => {
-      if (videoUrl) {
-        URL.revokeObjectURL(videoUrl);
+    const loadLibrary = async () => {
+      try {
+        const [
+          storedScenes,
+          storedCharacters,
+          storedSequences,
+          storedStoryboards,
+          storedPresets,
+          storedChipSets,
+        ] = await Promise.all([
+          loadScenes(),
+          loadCharacters(),
+          loadSequences(),
+          loadStoryboards(),
+          loadPresets(),
+          loadChipSets(),
+        ]);
+        // Anything created while the library was loading stays on top.
+        setScenes((prev) => [
+          ...prev,
+          ...storedScenes.filter((s) => !prev.some((p) => p.id === s.id)),
+        ]);
+        updateCharacters((prev) => [
+          ...storedCharacters.filter((c) => !prev.some((p) => p.id === c.id)),
+          ...prev,
+        ]);
+        setSequences((prev) => [
+          ...storedSequences.filter((q) => !prev.some((p) => p.id === q.id)),
+          ...prev,
+        ]);
+        updateStoryboards((prev) => [
+          ...storedStoryboards.filter((b) => !prev.some((p) => p.id === b.id)),
+          ...prev,
+        ]);
+        setPresets((prev) => [
+          ...storedPresets.filter((r) => !prev.some((p) => p.id === r.id)),
+          ...prev,
+        ]);
+        setChipSets((prev) => [
+          ...storedChipSets.filter((c) => !prev.some((p) => p.id === c.id)),
+          ...prev,
+        ]);
+      } catch (error) {
+        console.error('Failed to load saved scenes and characters:', error);
       }
     };
-  }, [videoUrl]);
+    loadLibrary();
+  }, []);
+
+  // Resume generations that were still running or waiting in the queue when
+  // the page was closed. Chains are restored first so a resumed hop can start
+  // the next one. Without an API key the generations stay saved until the
+  // user selects one.
+  const resumePendingOperations = async () => {
+    try {
+      const [pending, storedChains] = await Promise.all([
+        loadPendingOperations(),
+        loadChains(),
+      ]);
+      const restored = restoreChains(
+        storedChains,
+        new Set(pending.map((operation) => operation.jobId)),
+      );
+      restored
+        .filter((chain, index) => chain !== storedChains[index])
+        .forEach(persistChain);
+      updateChains((prev) => [
+        ...restored.filter((c) => !prev.some((p) => p.id === c.id)),
+        ...prev,
+      ]);
+      const waiting = pending.filter(
+        ({jobId}) => !queueRef.current?.getJob(jobId),
+      );
+      if (waiting.length === 0 || !(await ensureApiKey())) return;
+      for (const {jobId, operationName, params, submittedAt} of waiting) {
+        console.log('Resuming generation from previous session:', jobId);
+        queueRef.current?.enqueue(params, {
+          id: jobId,
+          operationName,
+          createdAt: submittedAt,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to resume pending generations:', error);
+    }
+  };
+
+  useEffect(() => {
+    resumePendingOperations();
+  }, []);
 
-  const showStatusError = (message: string) => {
-    setErrorMessage(message);
+  const showStatusError = (error: VideoGenerationError | string) => {
+    setStatusError(
+      typeof error === 'string'
+        ? new VideoGenerationError(VideoErrorCode.UNKNOWN, error)
+        : error,
+    );
     setAppState(AppState.ERROR);
   };
 
-  const handleGenerate = useCallback(async (params: GenerateVideoParams) => {
-    if (window.aistudio) {
+  const showScene = (scene: Scene) => {
+    setLastSceneId(scene.id);
+    setLastConfig(scene.params);
+    setVideoUrl(scene.url);
+    setLastVideoBlob(scene.blob);
+    setLastVideoObject(scene.videoObject);
+    setStatusError(null);
+    setAppState(AppState.SUCCESS);
+  };
+
+  // Once a job reaches a final state there is nothing left to resume.
+  const forgetPendingOperation = (jobId: string) => {
+    deletePendingOperation(jobId).catch((error) =>
+      console.error('Failed to clear pending operation:', error),
+    );
+  };
+
+  const updateChains = (
+    update: (prev: ExtensionChain[]) => ExtensionChain[],
+  ) => {
+    chainsRef.current = update(chainsRef.current);
+    setChains(chainsRef.current);
+  };
+
+  const persistChain = (chain: ExtensionChain) => {
+    saveChain(chain).catch((error) =>
+      console.error('Failed to save extension chain:', error),
+    );
+  };
+
+  const replaceChain = (chain: ExtensionChain) => {
+    updateChains((prev) => prev.map((c) => (c.id === chain.id ? chain : c)));
+    persistChain(chain);
+  };
+
+  const findChainByJob = (jobId: string) =>
+    chainsRef.current.find((chain) => chain.jobId === jobId);
+
+  const updateCharacters = (update: (prev: Character[]) => Character[]) => {
+    charactersRef.current = update(charactersRef.current);
+    setCharacters(charactersRef.current);
+  };
+
+  const updateStoryboards = (
+    update: (prev: Storyboard[]) => Storyboard[],
+  ) => {
+    storyboardsRef.current = update(storyboardsRef.current);
+    setStoryboards(storyboardsRef.current);
+  };
+
+  const handleSaveStoryboard = (storyboard: Storyboard) => {
+    updateStoryboards((prev) =>
+      prev.some((s) => s.id === storyboard.id)
+        ? prev.map((s) => (s.id === storyboard.id ? storyboard : s))
+        : [...prev, storyboard],
+    );
+    saveStoryboard(storyboard).catch((error) =>
+      console.error('Failed to save storyboard:', error),
+    );
+  };
+
+  // Queues one shot. Extension shots continue `previousScene`.
+  const startShot = (
+    storyboard: Storyboard,
+    shot: StoryboardShot,
+    previousScene?: Scene,
+  ): Storyboard => {
+    const params = previousScene
+      ? {
+          ...buildExtensionParams(
+            previousScene,
+            shot.params.prompt,
+            previousScene.id,
+          ),
+          model: shot.params.model,
+        }
+      : shot.params;
+    const job = queueRef.current!.enqueue(params);
+    return updateShot(storyboard, shot.id, {
+      jobId: job.id,
+      awaitingPrevious: false,
+      error: undefined,
+    });
+  };
+
+  // Stores what became of a storyboard shot's job, and starts the shot
+  // waiting for it.
+  const settleShot = (jobId: string, scene: Scene | null, error?: string) => {
+    const found = findShotByJob(storyboardsRef.current, jobId);
+    if (!found) return;
+    let storyboard: Storyboard;
+    if (scene) {
+      const completed = completeShot(found.storyboard, found.shot.id, scene.id);
+      storyboard = completed.next
+        ? startShot(completed.storyboard, completed.next, scene)
+        : completed.storyboard;
+    } else {
+      storyboard = failShot(
+        found.storyboard,
+        found.shot.id,
+        error ?? 'Generation cancelled.',
+      );
+    }
+    handleSaveStoryboard(storyboard);
+  };
+
+  if (!queueRef.current) {
+    queueRef.current = createJobQueue({
+      concurrency,
+      run: (job, {signal, onProgress}) => {
+        if (job.operationName) {
+          return resumeVideoGeneration(job.operationName, {
+            signal,
+            onProgress,
+            startedAt: job.createdAt,
+          });
+        }
+        return generateVideo(applyCast(job.params, charactersRef.current), {
+          signal,
+          onProgress,
+          onOperationStarted: (operationName) => {
+            savePendingOperation({
+              jobId: job.id,
+              operationName,
+              params: job.params,
+              submittedAt: Date.now(),
+            }).catch((error) =>
+              console.error('Failed to save pending operation:', error),
+            );
+          },
+        });
+      },
+      onChange: setJobs,
+      // Saved while waiting too, so a reload drops neither the queue nor an
+      // operation picked back up after a timeout, whose record was cleared
+      // when it failed.
+      onQueued: (job) => {
+        savePendingOperation(toPendingOperation(job)).catch((error) =>
+          console.error('Failed to save queued generation:', error),
+        );
+      },
+      onSuccess: (job, {objectUrl, blob, video}) => {
+        forgetPendingOperation(job.id);
+        // Resumed jobs spent an unknown time with the page closed, so they
+        // would skew the ETA history.
+        if (!job.operationName && job.startedAt && job.finishedAt) {
+          recordGenerationDuration(
+            getEffectiveModel(job.params),
+            job.params.resolution,
+            job.finishedAt - job.startedAt,
+          );
+        }
+        // Save to recent scenes. The job id doubles as the scene id so a
+        // finished job can always be traced back to its scene.
+        const chain = findChainByJob(job.id);
+        const newScene: Scene = {
+          id: job.id,
+          url: objectUrl,
+          blob,
+          videoObject: video,
+          prompt: job.params.prompt,
+          timestamp: job.finishedAt ?? Date.now(),
+          params: job.params,
+          lineage: job.params.lineage,
+          chainId: chain?.id,
+        };
+        setScenes((prev) => [newScene, ...prev]);
+        saveScene(newScene).catch((error) =>
+          console.error('Failed to save scene:', error),
+        );
+
+        settleShot(job.id, newScene);
+
+        if (chain) {
+          // Each hop extends the video the previous hop returned
+          const advanced = recordHop(chain, newScene.id);
+          const nextPrompt = getNextPrompt(advanced);
+          const nextJob =
+            nextPrompt === undefined
+              ? null
+              : queueRef.current!.enqueue(
+                  buildExtensionParams(newScene, nextPrompt, newScene.id),
+                );
+          replaceChain({...advanced, jobId: nextJob?.id ?? null});
+          // Whoever follows the chain keeps following it to the last hop
+          if (nextJob && activeJobIdRef.current === job.id) {
+            activeJobIdRef.current = nextJob.id;
+            return;
+          }
+        }
+
+        if (activeJobIdRef.current === job.id) {
+          showScene(newScene);
+        }
+      },
+      onCancel: (job) => {
+        forgetPendingOperation(job.id);
+        const chain = findChainByJob(job.id);
+        if (chain) {
+          replaceChain(endChain(chain, ChainStatus.CANCELLED));
+        }
+        settleShot(job.id, null);
+        if (activeJobIdRef.current === job.id) {
+          setStatusError(null);
+          setAppState(AppState.CANCELLED);
+        }
+      },
+      onError: (job, error) => {
+        forgetPendingOperation(job.id);
+        console.error('Video generation failed:', error);
+        const classified = toVideoGenerationError(error);
+        const chain = findChainByJob(job.id);
+        if (chain) {
+          replaceChain(
+            endChain(chain, ChainStatus.FAILED, classified.message),
+          );
+        }
+        settleShot(job.id, null, classified.message);
+
+        if (activeJobIdRef.current === job.id) {
+          showStatusError(classified);
+        }
+        if (classified.code === VideoErrorCode.AUTH) {
+          setShowApiKeyDialog(true);
+        }
+      },
+    });
+  }
+
+  // Resolves false, and asks for a key, if the user has to select one first
+  const ensureApiKey = async (): Promise<boolean> => {
+    if (window.aistudio && getVideoProvider().requiresApiKey) {
       try {
         if (!(await window.aistudio.hasSelectedApiKey())) {
           setShowApiKeyDialog(true);
-          return;
+          return false;
         }
       } catch (error) {
         console.warn(
@@ -92,99 +620,184 @@ const App: React.FC = () => {
           error,
         );
         setShowApiKeyDialog(true);
-        return;
+        return false;
       }
     }
+    return true;
+  };
 
-    setAppState(AppState.LOADING);
-    setErrorMessage(null);
-    setLastConfig(params);
-    // Reset initial form values for the next fresh start
-    setInitialFormValues(null);
+  // Checks the API key and queues the generation. Returns the new job, or
+  // null if the user first has to select a key.
+  const submitGeneration = useCallback(
+    async (params: GenerateVideoParams): Promise<GenerationJob | null> => {
+      if (!(await ensureApiKey())) return null;
+      return queueRef.current!.enqueue(params);
+    },
+    [],
+  );
 
-    try {
-      const {objectUrl, blob, video} = await generateVideo(params);
-      setVideoUrl(objectUrl);
-      setLastVideoBlob(blob);
-      setLastVideoObject(video);
-      setAppState(AppState.SUCCESS);
-
-      // Save to recent scenes
-      const newScene: Scene = {
-        id: Date.now().toString(),
-        url: objectUrl,
-        blob,
-        videoObject: video,
-        prompt: params.prompt,
-        timestamp: Date.now(),
-      };
-      setScenes((prev) => [newScene, ...prev]);
+  // Generations from the form run in the background so the user can keep
+  // composing the next prompt.
+  const handleGenerate = useCallback(
+    async (params: GenerateVideoParams) => {
+      setStatusError(null);
+      await submitGeneration(params);
+    },
+    [submitGeneration],
+  );
 
-    } catch (error) {
-      console.error('Video generation failed:', error);
-      const errorMessage =
-        error instanceof Error ? error.message : 'An unknown error occurred.';
-
-      let userFriendlyMessage = `Video generation failed: ${errorMessage}`;
-      let shouldOpenDialog = false;
-
-      if (typeof errorMessage === 'string') {
-        if (errorMessage.includes('Requested entity was not found.')) {
-          userFriendlyMessage =
-            'Model not found. This can be caused by an invalid API key or permission issues. Please check your API key.';
-          shouldOpenDialog = true;
-        } else if (
-          errorMessage.includes('API_KEY_INVALID') ||
-          errorMessage.includes('API key not valid') ||
-          errorMessage.toLowerCase().includes('permission denied')
-        ) {
-          userFriendlyMessage =
-            'Your API key is invalid or lacks permissions. Please select a valid, billing-enabled API key.';
-          shouldOpenDialog = true;
-        }
-      }
+  // Expansions of a prompt template, queued together in order
+  const handleGenerateBatch = useCallback(
+    async (batch: GenerateVideoParams[]) => {
+      setStatusError(null);
+      if (!(await ensureApiKey())) return;
+      batch.forEach((params) => queueRef.current!.enqueue(params));
+    },
+    [],
+  );
 
-      setErrorMessage(userFriendlyMessage);
-      setAppState(AppState.ERROR);
+  const handleViewJob = (jobId: string) => {
+    const job = queueRef.current?.getJob(jobId);
+    if (!job) return;
 
-      if (shouldOpenDialog) {
-        setShowApiKeyDialog(true);
+    activeJobIdRef.current = job.id;
+    setLastSceneId(null);
+    setLastConfig(job.params);
+
+    if (job.status === JobStatus.SUCCEEDED) {
+      const scene = scenes.find((s) => s.id === job.id);
+      if (scene) {
+        showScene(scene);
+      } else {
+        showStatusError('This video has been deleted from your scenes.');
       }
+    } else if (job.status === JobStatus.FAILED) {
+      showStatusError(toVideoGenerationError(job.error));
+    } else if (job.status === JobStatus.CANCELLED) {
+      setStatusError(null);
+      setAppState(AppState.CANCELLED);
+    } else {
+      setStatusError(null);
+      setAppState(AppState.LOADING);
     }
-  }, []);
+  };
+
+  const handleCancelJob = (jobId: string) => {
+    queueRef.current?.cancel(jobId);
+  };
 
-  const handleRetry = useCallback(() => {
+  const handleCancelActiveJob = () => {
+    if (activeJobIdRef.current) {
+      handleCancelJob(activeJobIdRef.current);
+    }
+  };
+
+  const handleDismissJob = (jobId: string) => {
+    queueRef.current?.dismiss(jobId);
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queueRef.current?.setConcurrency(value);
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+  };
+
+  const handleBackToEditor = () => {
+    activeJobIdRef.current = null;
+    setAppState(AppState.IDLE);
+  };
+
+  const handleRetry = useCallback(async () => {
     if (lastConfig) {
-      handleGenerate(lastConfig);
+      // Retrying a finished scene branches off it; retrying a failure just
+      // tries the same request again.
+      const job = await submitGeneration(
+        lastSceneId
+          ? deriveParams(lastConfig, SceneOrigin.RETRY, lastSceneId)
+          : lastConfig,
+      );
+      if (job) {
+        // A retry is explicit, so follow it in the loading view
+        activeJobIdRef.current = job.id;
+        setStatusError(null);
+        setAppState(AppState.LOADING);
+      }
     }
-  }, [lastConfig, handleGenerate]);
+  }, [lastConfig, lastSceneId, submitGeneration]);
+
+  // Queues variations of the result on screen and shows them side by side,
+  // with the result itself as the first take.
+  const handleStartComparison = async (options: ComparisonOptions) => {
+    setShowCompareDialog(false);
+    if (!lastConfig || !(await ensureApiKey())) return;
+    const sourceSceneId = scenes.some((s) => s.id === lastSceneId)
+      ? lastSceneId!
+      : undefined;
+    const variations = buildVariations(
+      sourceSceneId
+        ? deriveParams(lastConfig, SceneOrigin.RETRY, sourceSceneId)
+        : lastConfig,
+      options,
+    );
+    const jobIds = variations.map(
+      (variation) => queueRef.current!.enqueue(variation.params).id,
+    );
+    setComparison(createComparison(jobIds, variations, sourceSceneId));
+    activeJobIdRef.current = null;
+    setAppState(AppState.COMPARE);
+  };
+
+  const handlePickWinner = (sceneId: string) => {
+    const scene = scenes.find((s) => s.id === sceneId);
+    if (!scene) return;
+    setComparison((prev) => prev && {...prev, winnerId: sceneId});
+    showScene(scene);
+  };
+
+  // Picks a timed-out or undownloaded operation back up without paying for
+  // a new generation
+  const handleResume = useCallback(
+    (operationName: string) => {
+      if (!lastConfig || !queueRef.current) return;
+      const job = queueRef.current.enqueue(lastConfig, {operationName});
+      activeJobIdRef.current = job.id;
+      setStatusError(null);
+      setAppState(AppState.LOADING);
+    },
+    [lastConfig],
+  );
 
   const handleApiKeyDialogContinue = async () => {
     setShowApiKeyDialog(false);
     if (window.aistudio) {
       await window.aistudio.openSelectKey();
     }
+    resumePendingOperations();
     if (appState === AppState.ERROR && lastConfig) {
       handleRetry();
     }
   };
 
   const handleNewVideo = useCallback(() => {
+    activeJobIdRef.current = null;
     setAppState(AppState.IDLE);
     setVideoUrl(null);
-    setErrorMessage(null);
+    setStatusError(null);
     setLastConfig(null);
     setLastVideoObject(null);
     setLastVideoBlob(null);
+    setLastSceneId(null);
     setInitialFormValues(null); // Clear the form state
+    setActivePresetCategory(null);
     setFormKey(prev => prev + 1); // Reset form
   }, []);
 
   const handleTryAgainFromError = useCallback(() => {
+    activeJobIdRef.current = null;
     if (lastConfig) {
       setInitialFormValues(lastConfig);
       setAppState(AppState.IDLE);
-      setErrorMessage(null);
+      setStatusError(null);
       setFormKey(prev => prev + 1); // Reset form with last config
     } else {
       // Fallback to a fresh start if there's no last config
@@ -192,15 +805,26 @@ const App: React.FC = () => {
     }
   }, [lastConfig, handleNewVideo]);
 
+  // Opens the editor prefilled with `params`, to start a new branch
+  const openInEditor = (params: GenerateVideoParams) => {
+    activeJobIdRef.current = null;
+    setInitialFormValues(params);
+    setActivePresetCategory(null);
+    setAppState(AppState.IDLE);
+    setVideoUrl(null);
+    setStatusError(null);
+    setFormKey(prev => prev + 1); // Reset form with the new config
+  };
+
   const handleIterate = useCallback(() => {
     if (lastConfig) {
-      setInitialFormValues(lastConfig);
-      setAppState(AppState.IDLE);
-      setVideoUrl(null);
-      setErrorMessage(null);
-      setFormKey(prev => prev + 1); // Reset form with last config
+      openInEditor(
+        lastSceneId
+          ? deriveParams(lastConfig, SceneOrigin.ITERATION, lastSceneId)
+          : lastConfig,
+      );
     }
-  }, [lastConfig]);
+  }, [lastConfig, lastSceneId]);
 
   const handleExtend = useCallback(async () => {
     console.log('=== EXTEND VIDEO INITIATED ===');
@@ -217,32 +841,24 @@ const App: React.FC = () => {
            throw new Error("Invalid video object reference.");
         }
 
-        const file = new File([lastVideoBlob], 'last_video.mp4', {
-          type: lastVideoBlob.type || 'video/mp4',
-        });
-        const videoFile: VideoFile = {file, base64: ''};
-
-        const newInitialValues = {
-          ...lastConfig, // Carry over model, aspect ratio
-          mode: GenerationMode.EXTEND_VIDEO,
-          prompt: '', // Start with a blank prompt
-          inputVideo: videoFile, // for preview in the form
-          inputVideoObject: lastVideoObject, // for the API call
-          resolution: Resolution.P720, // Extend requires 720p
-          // Reset other media types
-          startFrame: null,
-          endFrame: null,
-          referenceImages: [],
-          styleImage: null,
-          isLooping: false,
-        };
+        // Start with a blank prompt
+        const newInitialValues = buildExtensionParams(
+          {
+            params: lastConfig,
+            blob: lastVideoBlob,
+            videoObject: lastVideoObject,
+          },
+          '',
+          lastSceneId ?? undefined,
+        );
         
         console.log('Setting initialFormValues with inputVideoObject:', newInitialValues.inputVideoObject);
         setInitialFormValues(newInitialValues);
+        activeJobIdRef.current = null;
 
         setAppState(AppState.IDLE);
         setVideoUrl(null);
-        setErrorMessage(null);
+        setStatusError(null);
         setFormKey(prev => prev + 1); // Reset form with new extend config
         console.log('Form key incremented, should remount with video object');
       } catch (error) {
@@ -255,82 +871,591 @@ const App: React.FC = () => {
       console.warn('Cannot extend: missing video data', {lastConfig, hasBlob: !!lastVideoBlob, hasObject: !!lastVideoObject});
       showStatusError('Cannot extend video. The original video data is missing.');
     }
-  }, [lastConfig, lastVideoBlob, lastVideoObject]);
+  }, [lastConfig, lastVideoBlob, lastVideoObject, lastSceneId]);
 
-  const handlePresetSelect = (params: GenerateVideoParams) => {
-    setInitialFormValues(params);
+  // Runs one extension per prompt, starting from the scene on screen, and
+  // follows the chain in the loading view.
+  const handleStartChain = async (prompts: string[]) => {
+    setShowChainDialog(false);
+    const source = scenes.find((s) => s.id === lastSceneId);
+    if (!source) {
+      showStatusError('Cannot extend video. The original video data is missing.');
+      return;
+    }
+    const chain = createChain(source.id, prompts);
+    const firstPrompt = getNextPrompt(chain);
+    if (firstPrompt === undefined) return;
+
+    const job = await submitGeneration(
+      buildExtensionParams(source, firstPrompt, source.id),
+    );
+    if (!job) return;
+    const started = {...chain, jobId: job.id};
+    updateChains((prev) => [...prev, started]);
+    persistChain(started);
+    activeJobIdRef.current = job.id;
+    setStatusError(null);
+    setAppState(AppState.LOADING);
+  };
+
+  // Cancelling the running hop ends the chain through the queue's onCancel
+  const handleStopChain = (chainId: string) => {
+    const chain = chainsRef.current.find((c) => c.id === chainId);
+    if (chain?.jobId) {
+      handleCancelJob(chain.jobId);
+    }
+  };
+
+  const handleDismissChain = (chainId: string) => {
+    updateChains((prev) => prev.filter((c) => c.id !== chainId));
+    deleteChain(chainId).catch((error) =>
+      console.error('Failed to delete extension chain:', error),
+    );
+  };
+
+  const handleDeleteStoryboard = (id: string) => {
+    updateStoryboards((prev) => prev.filter((s) => s.id !== id));
+    deleteStoryboard(id).catch((error) =>
+      console.error('Failed to delete storyboard:', error),
+    );
+  };
+
+  const findScene = (sceneId?: string) =>
+    sceneId ? scenes.find((s) => s.id === sceneId) : undefined;
+
+  const isShotRunning = (shot: StoryboardShot) => {
+    const job = shot.jobId ? queueRef.current?.getJob(shot.jobId) : undefined;
+    return Boolean(shot.awaitingPrevious || (job && !isJobFinished(job)));
+  };
+
+  // Queues every shot without a scene. Extension shots start once the shot
+  // before them has a scene to extend.
+  const handleQueueStoryboard = async (storyboardId: string) => {
+    if (!(await ensureApiKey())) return;
+    const storyboard = storyboardsRef.current.find((s) => s.id === storyboardId);
+    if (!storyboard) return;
+
+    const plan = planStoryboardRun(
+      storyboard.shots,
+      (shot) => Boolean(findScene(shot.sceneId)),
+      isShotRunning,
+    );
+    const updated = storyboard.shots.reduce((current, shot, index) => {
+      if (plan.ready.includes(shot.id)) {
+        const previousScene =
+          shot.params.mode === GenerationMode.EXTEND_VIDEO
+            ? findScene(storyboard.shots[index - 1]?.sceneId)
+            : undefined;
+        return startShot(current, shot, previousScene);
+      }
+      if (plan.waiting.includes(shot.id)) {
+        return updateShot(current, shot.id, {
+          awaitingPrevious: true,
+          error: undefined,
+        });
+      }
+      if (plan.blocked.includes(shot.id)) {
+        return updateShot(current, shot.id, {
+          error: 'There is no shot before this one to extend.',
+        });
+      }
+      return current;
+    }, storyboard);
+    handleSaveStoryboard(updated);
+  };
+
+  const handleGenerateShot = async (storyboardId: string, shotId: string) => {
+    if (!(await ensureApiKey())) return;
+    const storyboard = storyboardsRef.current.find((s) => s.id === storyboardId);
+    const index = storyboard?.shots.findIndex((s) => s.id === shotId) ?? -1;
+    if (!storyboard || index < 0) return;
+
+    const shot = storyboard.shots[index];
+    const previousScene =
+      shot.params.mode === GenerationMode.EXTEND_VIDEO
+        ? findScene(storyboard.shots[index - 1]?.sceneId)
+        : undefined;
+    if (shot.params.mode === GenerationMode.EXTEND_VIDEO && !previousScene) {
+      return;
+    }
+    handleSaveStoryboard(startShot(storyboard, shot, previousScene));
+  };
+
+  const handleViewScene = (sceneId: string) => {
+    const scene = scenes.find((s) => s.id === sceneId);
+    if (!scene) return;
+    activeJobIdRef.current = null;
+    showScene(scene);
+  };
+
+  // Forking and extending from the lineage view may start from any scene,
+  // not just the one last on screen.
+  const handleForkScene = (sceneId: string) => {
+    const scene = scenes.find((s) => s.id === sceneId);
+    if (scene) {
+      openInEditor(deriveParams(scene.params, SceneOrigin.ITERATION, scene.id));
+    }
+  };
+
+  const handleExtendScene = (sceneId: string) => {
+    const scene = scenes.find((s) => s.id === sceneId);
+    if (scene) {
+      openInEditor(buildExtensionParams(scene, '', scene.id));
+    }
+  };
+
+  const handlePresetSelect = (preset: Preset) => {
+    setInitialFormValues(preset.params);
+    setActivePresetCategory(preset.category);
     setFormKey(prev => prev + 1); // Reset form with preset
   };
 
-  const handleAddCharacter = (char: Character) => {
-    setCharacters((prev) => [...prev, char]);
+  const handleSaveAsPreset = (params: GenerateVideoParams) => {
+    setEditingPreset({preset: createPreset(params), isNew: true});
+  };
+
+  const handleSavePreset = (preset: Preset) => {
+    setPresets((prev) =>
+      prev.some((p) => p.id === preset.id)
+        ? prev.map((p) => (p.id === preset.id ? preset : p))
+        : [...prev, preset],
+    );
+    savePreset(preset).catch((error) =>
+      console.error('Failed to save preset:', error),
+    );
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setPresets((prev) => prev.filter((p) => p.id !== id));
+    deletePreset(id).catch((error) =>
+      console.error('Failed to delete preset:', error),
+    );
+  };
+
+  const handleSaveChipSet = (chipSet: ChipSet) => {
+    setChipSets((prev) =>
+      prev.some((c) => c.id === chipSet.id)
+        ? prev.map((c) => (c.id === chipSet.id ? chipSet : c))
+        : [...prev, chipSet],
+    );
+    saveChipSet(chipSet).catch((error) =>
+      console.error('Failed to save chip set:', error),
+    );
+  };
+
+  const handleDeleteChipSet = (id: string) => {
+    setChipSets((prev) => prev.filter((c) => c.id !== id));
+    deleteChipSet(id).catch((error) =>
+      console.error('Failed to delete chip set:', error),
+    );
+  };
+
+  const handleDeleteScene = (id: string) => {
+    setScenes((prev) => {
+      const scene = prev.find((s) => s.id === id);
+      // The result view may still be showing this scene's video
+      if (scene && scene.url !== videoUrl) {
+        URL.revokeObjectURL(scene.url);
+      }
+      return prev.filter((s) => s.id !== id);
+    });
+    deleteScene(id).catch((error) =>
+      console.error('Failed to delete scene:', error),
+    );
+    // Sequences must not keep pointing at the deleted scene
+    sequences
+      .filter((sequence) => sequence.clips.some((clip) => clip.sceneId === id))
+      .forEach((sequence) =>
+        handleSaveSequence({
+          ...sequence,
+          clips: removeSceneClips(sequence.clips, id),
+          updatedAt: Date.now(),
+        }),
+      );
+  };
+
+  const handleRenameScene = (id: string, title: string) => {
+    setScenes((prev) => prev.map((s) => (s.id === id ? {...s, title} : s)));
+    renameScene(id, title).catch((error) =>
+      console.error('Failed to rename scene:', error),
+    );
+  };
+
+  const handleSaveSequence = (sequence: Sequence) => {
+    setSequences((prev) =>
+      prev.some((s) => s.id === sequence.id)
+        ? prev.map((s) => (s.id === sequence.id ? sequence : s))
+        : [...prev, sequence],
+    );
+    saveSequence(sequence).catch((error) =>
+      console.error('Failed to save sequence:', error),
+    );
+  };
+
+  const handleDeleteSequence = (id: string) => {
+    setSequences((prev) => prev.filter((s) => s.id !== id));
+    deleteSequence(id).catch((error) =>
+      console.error('Failed to delete sequence:', error),
+    );
+  };
+
+  const handleSaveCharacter = (char: Character) => {
+    updateCharacters((prev) =>
+      prev.some((c) => c.id === char.id)
+        ? prev.map((c) => (c.id === char.id ? char : c))
+        : [...prev, char],
+    );
+    saveCharacter(char).catch((error) =>
+      console.error('Failed to save character:', error),
+    );
+  };
+
+  const handleSaveProject = async () => {
+    const project = await createProjectFile({
+      scenes,
+      characters,
+      sequences,
+      storyboards,
+      presets,
+      chipSets,
+      lastConfig,
+    });
+    const blob = new Blob([JSON.stringify(project)], {
+      type: 'application/json',
+    });
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(blob, `veo-project-${date}.json`);
+  };
+
+  // Opening merges the project into the library; items already in it with
+  // the same id are replaced by the project's copy.
+  const handleOpenProject = async (file: File) => {
+    const project = readProjectFile(JSON.parse(await file.text()));
+    const openedIds = new Set(project.scenes.map((scene) => scene.id));
+    setScenes((prev) => {
+      prev
+        .filter((s) => openedIds.has(s.id) && s.url !== videoUrl)
+        .forEach((s) => URL.revokeObjectURL(s.url));
+      return [...project.scenes, ...prev.filter((s) => !openedIds.has(s.id))]
+        .sort((a, b) => b.timestamp - a.timestamp);
+    });
+    project.scenes.forEach((scene) =>
+      saveScene(scene).catch((error) =>
+        console.error('Failed to save scene:', error),
+      ),
+    );
+    project.characters.forEach(handleSaveCharacter);
+    project.sequences.forEach(handleSaveSequence);
+    project.storyboards.forEach(handleSaveStoryboard);
+    project.presets.forEach(handleSavePreset);
+    project.chipSets.forEach(handleSaveChipSet);
+    if (project.lastConfig) openInEditor(project.lastConfig);
   };
 
   const handleDeleteCharacter = (id: string) => {
-    setCharacters((prev) => prev.filter((c) => c.id !== id));
-  };
-
-  const renderError = (message: string) => (
-    <div className="text-center bg-red-900/20 border border-red-500 p-8 rounded-lg">
-      <h2 className="text-2xl font-bold text-red-400 mb-4">Error</h2>
-      <p className="text-red-300">{message}</p>
-      <button
-        onClick={handleTryAgainFromError}
-        className="mt-6 px-6 py-2 bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
-        Try Again
-      </button>
+    updateCharacters((prev) => prev.filter((c) => c.id !== id));
+    deleteCharacter(id).catch((error) =>
+      console.error('Failed to delete character:', error),
+    );
+  };
+
+  const handleRenameCharacter = (id: string, name: string) => {
+    updateCharacters((prev) => prev.map((c) => (c.id === id ? {...c, name} : c)));
+    renameCharacter(id, name).catch((error) =>
+      console.error('Failed to rename character:', error),
+    );
+  };
+
+  const runRecoveryAction = (error: VideoGenerationError) => {
+    const {action} = ERROR_RECOVERY[error.code];
+    switch (action) {
+      case RecoveryAction.SELECT_KEY:
+        setShowApiKeyDialog(true);
+        break;
+      case RecoveryAction.RETRY:
+        handleRetry();
+        break;
+      case RecoveryAction.RESUME:
+        if (error.operationName) {
+          handleResume(error.operationName);
+        } else {
+          handleRetry();
+        }
+        break;
+      case RecoveryAction.EDIT_PROMPT:
+        handleTryAgainFromError();
+        break;
+    }
+  };
+
+  const renderError = (error: VideoGenerationError) => {
+    const {title, action, label} = ERROR_RECOVERY[error.code];
+    return (
+      <div className="text-center bg-red-900/20 border border-red-500 p-8 rounded-lg max-w-xl">
+        <h2 className="text-2xl font-bold text-red-400 mb-4">{title}</h2>
+        <p className="text-red-300">{error.message}</p>
+        <p className="text-gray-400 text-sm mt-3">{error.remediation}</p>
+        <div className="mt-6 flex justify-center gap-3">
+          <button
+            onClick={() => runRecoveryAction(error)}
+            className="px-6 py-2 bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+            {label}
+          </button>
+          {action !== RecoveryAction.EDIT_PROMPT && (
+            <button
+              onClick={handleTryAgainFromError}
+              className="px-6 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors">
+              Edit Prompt
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const activeJob = jobs.find((job) => job.id === activeJobIdRef.current);
+  const activeChain = chains.find(
+    (chain) => chain.jobId && chain.jobId === activeJobIdRef.current,
+  );
+
+  const renderCancelled = () => (
+    <div className="text-center bg-gray-800/50 border border-gray-700 p-8 rounded-lg">
+      <h2 className="text-2xl font-bold text-gray-200 mb-4">
+        Generation Cancelled
+      </h2>
+      <p className="text-gray-400">
+        Nothing was saved. You can adjust the prompt and generate again.
+      </p>
+      <div className="mt-6 flex justify-center gap-3">
+        <button
+          onClick={handleTryAgainFromError}
+          className="px-6 py-2 bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+          Edit Prompt
+        </button>
+        <button
+          onClick={handleBackToEditor}
+          className="px-6 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors">
+          Back to Editor
+        </button>
+      </div>
     </div>
   );
 
+  // Settings the comparison may vary: references and extensions pin the
+  // model, and some inputs only work at 720p
+  const compareBase = lastConfig ? applyCast(lastConfig, characters) : null;
+  const canCompareModels =
+    compareBase !== null &&
+    getEffectiveModel({...compareBase, model: VeoModel.VEO_FAST}) ===
+      VeoModel.VEO_FAST;
+  const canCompareResolutions =
+    compareBase !== null &&
+    !validateVideoParams({...compareBase, resolution: Resolution.P1080}).some(
+      (issue) => issue.field === 'resolution',
+    );
+
   return (
     <div className="h-screen bg-black text-gray-200 flex flex-col font-sans overflow-hidden">
       {showApiKeyDialog && (
         <ApiKeyDialog onContinue={handleApiKeyDialogContinue} />
       )}
+      {showChainDialog && (
+        <ExtensionChainDialog
+          onStart={handleStartChain}
+          onClose={() => setShowChainDialog(false)}
+        />
+      )}
+      {showCompareDialog && (
+        <CompareDialog
+          canVaryModel={canCompareModels}
+          canVaryResolution={canCompareResolutions}
+          onStart={handleStartComparison}
+          onClose={() => setShowCompareDialog(false)}
+        />
+      )}
+      {editingPreset && (
+        <PresetEditor
+          preset={editingPreset.preset}
+          isNew={editingPreset.isNew}
+          categories={getPresetCategories(presets)}
+          onSave={(preset) => {
+            handleSavePreset(preset);
+            setEditingPreset(null);
+          }}
+          onCancel={() => setEditingPreset(null)}
+        />
+      )}
       <header className="py-6 flex justify-center items-center px-8 relative z-10 flex-shrink-0">
         <h1 className="text-5xl font-semibold tracking-wide text-center bg-gradient-to-r from-indigo-400 via-purple-500 to-pink-500 bg-clip-text text-transparent">
           Veo Studio
         </h1>
+        <div className="absolute right-8 top-1/2 -translate-y-1/2">
+          <ProjectControls
+            onSave={handleSaveProject}
+            onOpen={handleOpenProject}
+          />
+        </div>
       </header>
       <main className="w-full max-w-4xl mx-auto flex-grow flex flex-col p-4 overflow-y-auto">
-        {appState === AppState.IDLE ? (
-          <>
-            <div className="flex-grow flex items-center justify-center">
-              <PresetGallery onSelect={handlePresetSelect} />
-            </div>
-            <div className="pb-4">
-              <PromptForm
-                key={formKey}
-                onGenerate={handleGenerate}
-                initialValues={initialFormValues}
-                scenes={scenes}
-                characters={characters}
-                onAddCharacter={handleAddCharacter}
-                onDeleteCharacter={handleDeleteCharacter}
-              />
-            </div>
-          </>
-        ) : (
+        {/* The editor stays mounted while a job is viewed so drafts survive */}
+        <div
+          className={
+            appState === AppState.IDLE ? 'flex-grow flex flex-col' : 'hidden'
+          }>
+          <div className="flex-grow flex items-center justify-center">
+            <PresetGallery
+              presets={presets}
+              onSelect={handlePresetSelect}
+              onSavePreset={handleSavePreset}
+              onEditPreset={(preset) =>
+                setEditingPreset({preset, isNew: false})
+              }
+              onDeletePreset={handleDeletePreset}
+            />
+          </div>
+          <div className="pb-4">
+            <ExtensionChainPanel
+              chains={chains}
+              onViewScene={handleViewScene}
+              onStop={handleStopChain}
+              onDismiss={handleDismissChain}
+            />
+            <JobQueuePanel
+              jobs={jobs}
+              concurrency={concurrency}
+              onConcurrencyChange={handleConcurrencyChange}
+              onView={handleViewJob}
+              onCancel={handleCancelJob}
+              onDismiss={handleDismissJob}
+            />
+            <PromptForm
+              key={formKey}
+              onGenerate={handleGenerate}
+              onGenerateBatch={handleGenerateBatch}
+              initialValues={initialFormValues}
+              scenes={scenes}
+              onDeleteScene={handleDeleteScene}
+              onRenameScene={handleRenameScene}
+              onOpenTimeline={() => setAppState(AppState.TIMELINE)}
+              onOpenLineage={() => setAppState(AppState.LINEAGE)}
+              onOpenStoryboard={() => setAppState(AppState.STORYBOARD)}
+              onSaveAsPreset={handleSaveAsPreset}
+              characters={characters}
+              onSaveCharacter={handleSaveCharacter}
+              onDeleteCharacter={handleDeleteCharacter}
+              onRenameCharacter={handleRenameCharacter}
+              chipSets={chipSets}
+              presetCategory={activePresetCategory}
+              presetCategories={getPresetCategories(presets)}
+              onSaveChipSet={handleSaveChipSet}
+              onDeleteChipSet={handleDeleteChipSet}
+            />
+          </div>
+        </div>
+        {appState !== AppState.IDLE && (
           <div className="flex-grow flex items-center justify-center">
-            {appState === AppState.LOADING && <LoadingIndicator />}
+            {appState === AppState.LOADING && (
+              <div className="flex flex-col items-center gap-4">
+                <LoadingIndicator
+                  progress={activeJob?.progress}
+                  startedAt={
+                    activeJob?.operationName
+                      ? activeJob.createdAt
+                      : activeJob?.startedAt
+                  }
+                  estimatedDurationMs={
+                    activeJob &&
+                    estimateGenerationDuration(
+                      getEffectiveModel(activeJob.params),
+                      activeJob.params.resolution,
+                    )
+                  }
+                  onCancel={handleCancelActiveJob}
+                />
+                {activeChain && (
+                  <p className="text-sm text-gray-400">
+                    Extension chain: step {activeChain.sceneIds.length + 1} of{' '}
+                    {activeChain.prompts.length}
+                  </p>
+                )}
+                <button
+                  onClick={handleBackToEditor}
+                  className="text-sm text-gray-400 hover:text-white transition-colors">
+                  Keep working while this renders
+                </button>
+              </div>
+            )}
             {appState === AppState.SUCCESS && videoUrl && (
               <VideoResult
                 videoUrl={videoUrl}
                 onRetry={handleRetry}
+                onCompare={() => setShowCompareDialog(true)}
+                onBackToComparison={
+                  comparison?.entries.some((e) => e.id === lastSceneId)
+                    ? () => setAppState(AppState.COMPARE)
+                    : undefined
+                }
                 onIterate={handleIterate}
                 onNewVideo={handleNewVideo}
                 onExtend={handleExtend}
+                onExtendChain={() => setShowChainDialog(true)}
                 canExtend={lastConfig?.resolution === Resolution.P720}
+                canExtendChain={scenes.some((s) => s.id === lastSceneId)}
               />
             )}
             {appState === AppState.SUCCESS &&
               !videoUrl &&
               renderError(
-                'Video generated, but URL is missing. Please try again.',
+                new VideoGenerationError(
+                  VideoErrorCode.UNKNOWN,
+                  'Video generated, but URL is missing. Please try again.',
+                ),
               )}
             {appState === AppState.ERROR &&
-              errorMessage &&
-              renderError(errorMessage)}
+              statusError &&
+              renderError(statusError)}
+            {appState === AppState.CANCELLED && renderCancelled()}
+            {appState === AppState.TIMELINE && (
+              <TimelineEditor
+                scenes={scenes}
+                sequences={sequences}
+                onSaveSequence={handleSaveSequence}
+                onDeleteSequence={handleDeleteSequence}
+                onClose={handleBackToEditor}
+              />
+            )}
+            {appState === AppState.STORYBOARD && (
+              <StoryboardEditor
+                storyboards={storyboards}
+                scenes={scenes}
+                jobs={jobs}
+                onSaveStoryboard={handleSaveStoryboard}
+                onDeleteStoryboard={handleDeleteStoryboard}
+                onQueueAll={handleQueueStoryboard}
+                onGenerateShot={handleGenerateShot}
+                onViewScene={handleViewScene}
+                onClose={handleBackToEditor}
+              />
+            )}
+            {appState === AppState.COMPARE && comparison && (
+              <CompareView
+                comparison={comparison}
+                jobs={jobs}
+                scenes={scenes}
+                onPickWinner={handlePickWinner}
+                onClose={handleBackToEditor}
+              />
+            )}
+            {appState === AppState.LINEAGE && (
+              <LineageView
+                scenes={scenes}
+                initialSceneId={lastSceneId}
+                onViewScene={handleViewScene}
+                onForkScene={handleForkScene}
+                onExtendScene={handleExtendScene}
+                onClose={handleBackToEditor}
+              />
+            )}
           </div>
         )}
       </main>
@@ -25,6 +25,7 @@ interface AdvancedSettingsProps {
   resolution: Resolution;
   setResolution: (res: Resolution) => void;
   generationMode: GenerationMode;
+  resolutionError?: string;
 }
 
 const aspectRatioDisplayNames: Record<AspectRatio, string> = {
@@ -41,6 +42,7 @@ const AdvancedSettings: React.FC<AdvancedSettingsProps> = ({
   resolution,
   setResolution,
   generationMode,
+  resolutionError,
 }) => {
   if (!isOpen) return null;
 
@@ -84,7 +86,9 @@ const AdvancedSettings: React.FC<AdvancedSettingsProps> = ({
             <option value={Resolution.P720}>720p</option>
             <option value={Resolution.P1080}>1080p</option>
           </CustomSelect>
-          {resolution === Resolution.P1080 && (
+          {resolutionError ? (
+            <p className="text-xs text-red-400 mt-2">{resolutionError}</p>
+          ) : resolution === Resolution.P1080 && (
             <p className="text-xs text-yellow-400/80 mt-2">
               1080p videos can't be extended.
             </p>
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {
+  Character,
+  CharacterReference,
+  ReferenceAngle,
+  WardrobeVariant,
+} from '../types';
+import {
+  createReference,
+  createWardrobeVariant,
+  getCharacterReferences,
+  REFERENCE_ANGLE_LABELS,
+} from '../utils/characters';
+import {createId} from '../utils/ids';
+import ImageUpload from './ImageUpload';
+import {PlusIcon, TrashIcon} from './icons';
+
+interface CharacterEditorProps {
+  // The character to edit, or null to create one
+  character: Character | null;
+  onSave: (character: Character) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full bg-[#2c2c2e] border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none';
+const selectClassName =
+  'w-28 bg-[#2c2c2e] border border-gray-600 rounded px-1 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+const CharacterEditor: React.FC<CharacterEditorProps> = ({
+  character,
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState(character?.name ?? '');
+  const [description, setDescription] = useState(character?.description ?? '');
+  const [promptFragment, setPromptFragment] = useState(
+    character?.promptFragment ?? '',
+  );
+  const [notes, setNotes] = useState(character?.notes ?? '');
+  const [references, setReferences] = useState<CharacterReference[]>(
+    character ? getCharacterReferences(character) : [],
+  );
+  const [wardrobe, setWardrobe] = useState<WardrobeVariant[]>(
+    character?.wardrobe ?? [],
+  );
+
+  const updateReference = (id: string, changes: Partial<CharacterReference>) =>
+    setReferences((prev) =>
+      prev.map((reference) =>
+        reference.id === id ? {...reference, ...changes} : reference,
+      ),
+    );
+
+  const updateVariant = (id: string, changes: Partial<WardrobeVariant>) =>
+    setWardrobe((prev) =>
+      prev.map((variant) => (variant.id === id ? {...variant, ...changes} : variant)),
+    );
+
+  const removeVariant = (id: string) => {
+    setWardrobe((prev) => prev.filter((variant) => variant.id !== id));
+    // Images of a removed outfit become untagged rather than disappearing
+    setReferences((prev) =>
+      prev.map((reference) =>
+        reference.wardrobeId === id ? {...reference, wardrobeId: undefined} : reference,
+      ),
+    );
+  };
+
+  const canSave = Boolean(name.trim() && description.trim());
+
+  const handleSave = () => {
+    if (!canSave) return;
+    // Outfits left without a name are dropped, along with their tags
+    const keptWardrobe = wardrobe
+      .map((variant) => ({
+        ...variant,
+        name: variant.name.trim(),
+        description: variant.description.trim(),
+      }))
+      .filter((variant) => variant.name);
+    onSave({
+      id: character?.id ?? createId(),
+      name: name.trim(),
+      description: description.trim(),
+      promptFragment: promptFragment.trim() || undefined,
+      notes: notes.trim() || undefined,
+      references: references.map((reference) =>
+        keptWardrobe.some((variant) => variant.id === reference.wardrobeId)
+          ? reference
+          : {...reference, wardrobeId: undefined},
+      ),
+      wardrobe: keptWardrobe,
+    });
+  };
+
+  return (
+    <div className="space-y-5 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Cyber Samurai"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Prompt Fragment
+          </label>
+          <input
+            type="text"
+            value={promptFragment}
+            onChange={(e) => setPromptFragment(e.target.value)}
+            placeholder="Exact wording used in prompts (optional)"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Description (Visuals & Behavior)
+          </label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. Wears glowing neon armor, moves with fluid stealth, carries a katana."
+            rows={3}
+            className={`${inputClassName} resize-none`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Voice & Personality
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g. Speaks in a low, calm voice. Rarely smiles."
+            rows={3}
+            className={`${inputClassName} resize-none`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-medium text-gray-400 mb-2">
+          Reference Images
+          <span className="ml-2 font-normal text-gray-500">
+            Up to 3 are picked per video to suit the shot and outfit.
+          </span>
+        </h3>
+        <div className="flex flex-wrap gap-3">
+          {references.map((reference) => (
+            <div key={reference.id} className="flex flex-col gap-1">
+              <ImageUpload
+                label=""
+                image={reference.image}
+                onSelect={(image) => updateReference(reference.id, {image})}
+                onRemove={() =>
+                  setReferences((prev) => prev.filter((r) => r.id !== reference.id))
+                }
+              />
+              <select
+                value={reference.angle}
+                onChange={(e) =>
+                  updateReference(reference.id, {
+                    angle: e.target.value as ReferenceAngle,
+                  })
+                }
+                className={selectClassName}
+                aria-label="Angle">
+                {Object.values(ReferenceAngle).map((angle) => (
+                  <option key={angle} value={angle}>
+                    {REFERENCE_ANGLE_LABELS[angle]}
+                  </option>
+                ))}
+              </select>
+              {wardrobe.length > 0 && (
+                <select
+                  value={reference.wardrobeId ?? ''}
+                  onChange={(e) =>
+                    updateReference(reference.id, {
+                      wardrobeId: e.target.value || undefined,
+                    })
+                  }
+                  className={selectClassName}
+                  aria-label="Outfit">
+                  <option value="">Any outfit</option>
+                  {wardrobe.map((variant) => (
+                    <option key={variant.id} value={variant.id}>
+                      {variant.name || 'Untitled outfit'}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ))}
+          <ImageUpload
+            label="Add Angle"
+            onSelect={(image) =>
+              setReferences((prev) => [
+                ...prev,
+                createReference(
+                  image,
+                  prev.length === 0 ? ReferenceAngle.FRONT : ReferenceAngle.THREE_QUARTER,
+                ),
+              ])
+            }
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-medium text-gray-400 mb-2">Wardrobe</h3>
+        <div className="space-y-2">
+          {wardrobe.map((variant) => (
+            <div key={variant.id} className="flex gap-2">
+              <input
+                type="text"
+                value={variant.name}
+                onChange={(e) => updateVariant(variant.id, {name: e.target.value})}
+                placeholder="Name, e.g. Flight suit"
+                className={`${inputClassName} w-40 shrink-0`}
+              />
+              <input
+                type="text"
+                value={variant.description}
+                onChange={(e) =>
+                  updateVariant(variant.id, {description: e.target.value})
+                }
+                placeholder="e.g. a scuffed orange flight suit with mission patches"
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                onClick={() => removeVariant(variant.id)}
+                className="p-2 text-gray-500 hover:text-red-400"
+                aria-label="Remove outfit">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setWardrobe((prev) => [...prev, createWardrobeVariant()])}
+            className="flex items-center gap-1.5 text-sm text-indigo-300 hover:text-indigo-200">
+            <PlusIcon className="w-4 h-4" />
+            Add Outfit
+          </button>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3 pt-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+          Save Character
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterEditor;
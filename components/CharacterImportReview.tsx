@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {Character} from '../types';
+import {CharacterConflict, ConflictResolution} from '../utils/characterBundle';
+
+interface CharacterImportReviewProps {
+  incoming: Character[];
+  conflicts: CharacterConflict[];
+  onConfirm: (resolutions: Record<string, ConflictResolution>) => void;
+  onCancel: () => void;
+}
+
+const resolutionLabels: Record<ConflictResolution, string> = {
+  [ConflictResolution.SKIP]: 'Skip',
+  [ConflictResolution.REPLACE]: 'Replace saved',
+  [ConflictResolution.KEEP_BOTH]: 'Keep both',
+};
+
+const selectClassName =
+  'bg-[#1f1f1f] border border-gray-600 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+/** Asks what to do with imported characters that clash with saved ones. */
+const CharacterImportReview: React.FC<CharacterImportReviewProps> = ({
+  incoming,
+  conflicts,
+  onConfirm,
+  onCancel,
+}) => {
+  const [resolutions, setResolutions] = useState<
+    Record<string, ConflictResolution>
+  >(() =>
+    Object.fromEntries(
+      conflicts.map(({incoming: c}) => [c.id, ConflictResolution.KEEP_BOTH]),
+    ),
+  );
+
+  const setAll = (resolution: ConflictResolution) =>
+    setResolutions(
+      Object.fromEntries(conflicts.map(({incoming: c}) => [c.id, resolution])),
+    );
+
+  const newCount = incoming.length - conflicts.length;
+
+  return (
+    <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div>
+        <h3 className="font-semibold text-gray-200">Import Characters</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          {newCount > 0 &&
+            `${newCount} new character${newCount === 1 ? '' : 's'} will be added. `}
+          {conflicts.length} share{conflicts.length === 1 ? 's' : ''} a name or
+          id with a saved character or one earlier in the bundle.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-end gap-2 text-xs text-gray-400">
+        Set all to
+        <select
+          value=""
+          onChange={(e) => setAll(e.target.value as ConflictResolution)}
+          className={selectClassName}
+          aria-label="Resolve all conflicts">
+          <option value="" disabled>
+            Choose...
+          </option>
+          {Object.values(ConflictResolution).map((resolution) => (
+            <option key={resolution} value={resolution}>
+              {resolutionLabels[resolution]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="space-y-2">
+        {conflicts.map(({incoming: character, existing, inBundle}) => (
+          <li
+            key={character.id}
+            className="flex items-center gap-3 p-3 bg-[#2c2c2e] border border-gray-700 rounded-lg">
+            <div className="flex-grow min-w-0">
+              <p className="text-sm text-gray-200 truncate">{character.name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {inBundle
+                  ? `Repeats "${existing.name}" from this bundle`
+                  : existing.id === character.id
+                    ? `Same character as saved "${existing.name}"`
+                    : `Same name as a saved character`}
+              </p>
+            </div>
+            <select
+              value={resolutions[character.id]}
+              onChange={(e) =>
+                setResolutions((prev) => ({
+                  ...prev,
+                  [character.id]: e.target.value as ConflictResolution,
+                }))
+              }
+              className={selectClassName}
+              aria-label={`What to do with ${character.name}`}>
+              {Object.values(ConflictResolution).map((resolution) => (
+                <option key={resolution} value={resolution}>
+                  {resolutionLabels[resolution]}
+                </option>
+              ))}
+            </select>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end gap-3 pt-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(resolutions)}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold rounded-lg transition-colors">
+          Import
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterImportReview;
@@ -3,88 +3,163 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useMemo, useRef, useState} from 'react';
-import {Character, ImageFile} from '../types';
-import {PlusIcon, TrashIcon, UserPlusIcon, XMarkIcon} from './icons';
+import React, {useRef, useState} from 'react';
+import {Character} from '../types';
+import {
+  CharacterConflict,
+  ConflictResolution,
+  createCharacterBundle,
+  findConflicts,
+  parseCharacterBundle,
+  resolveImport,
+} from '../utils/characterBundle';
+import {getCharacterReferences} from '../utils/characters';
+import {downloadBlob, takePickedFile} from '../utils/fileUtils';
+import CharacterEditor from './CharacterEditor';
+import CharacterImportReview from './CharacterImportReview';
+import ImagePreview from './ImagePreview';
+import {
+  DownloadIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  UploadIcon,
+  UserPlusIcon,
+  XMarkIcon,
+} from './icons';
 
 interface CharacterManagerProps {
   characters: Character[];
-  onAddCharacter: (character: Character) => void;
+  // Creates the character or replaces the one with the same id
+  onSaveCharacter: (character: Character) => void;
   onDeleteCharacter: (id: string) => void;
-  onSelectCharacter: (character: Character) => void;
+  onRenameCharacter: (id: string, name: string) => void;
+  onSelectCharacter: (character: Character, wardrobeId?: string) => void;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const fileToBase64 = (file: File): Promise<ImageFile> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      if (base64) {
-        resolve({file, base64});
-      } else {
-        reject(new Error('Failed to read file as base64.'));
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsDataURL(file);
-  });
-};
-
 const CharacterManager: React.FC<CharacterManagerProps> = ({
   characters,
-  onAddCharacter,
+  onSaveCharacter,
   onDeleteCharacter,
+  onRenameCharacter,
   onSelectCharacter,
   isOpen,
   onClose,
 }) => {
-  const [isCreating, setIsCreating] = useState(false);
-  const [newName, setNewName] = useState('');
-  const [newDescription, setNewDescription] = useState('');
-  const [newAvatar, setNewAvatar] = useState<ImageFile | null>(null);
-
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Preview logic for the avatar upload
-  const avatarPreviewUrl = useMemo(() => {
-    return newAvatar ? URL.createObjectURL(newAvatar.file) : null;
-  }, [newAvatar]);
-
-  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      try {
-        const imageFile = await fileToBase64(file);
-        setNewAvatar(imageFile);
-      } catch (error) {
-        console.error('Error processing avatar:', error);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingCharacter, setEditingCharacter] = useState<Character | null>(
+    null,
+  );
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  // Outfit picked on each card; unset means the prompt decides
+  const [outfits, setOutfits] = useState<Record<string, string>>({});
+  // Characters ticked for export; none means all
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // A bundle waiting for its conflicts to be resolved
+  const [pendingImport, setPendingImport] = useState<{
+    incoming: Character[];
+    conflicts: CharacterConflict[];
+  } | null>(null);
+  const [importMessage, setImportMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const openEditor = (char: Character | null) => {
+    setEditingCharacter(char);
+    setIsEditorOpen(true);
+  };
+
+  const handleSave = (char: Character) => {
+    onSaveCharacter(char);
+    setIsEditorOpen(false);
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id],
+    );
+
+  const selected = characters.filter((c) => selectedIds.includes(c.id));
+
+  const handleExport = () => {
+    const exported = selected.length > 0 ? selected : characters;
+    if (exported.length === 0) return;
+    const baseName =
+      exported.length === 1
+        ? exported[0].name.replace(/[^\w\- ]+/g, '').trim() || 'character'
+        : 'characters';
+    const blob = new Blob([JSON.stringify(createCharacterBundle(exported))], {
+      type: 'application/json',
+    });
+    downloadBlob(blob, `${baseName}.json`);
+  };
+
+  const saveImported = (imported: Character[]) => {
+    imported.forEach(onSaveCharacter);
+    setPendingImport(null);
+    setImportMessage({
+      text: `Imported ${imported.length} character${imported.length === 1 ? '' : 's'}.`,
+      isError: false,
+    });
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = takePickedFile(e.target);
+    if (!file) return;
+    setImportMessage(null);
+    try {
+      const incoming = parseCharacterBundle(JSON.parse(await file.text()));
+      if (incoming.length === 0) {
+        setImportMessage({text: 'The bundle has no characters.', isError: true});
+        return;
+      }
+      const conflicts = findConflicts(incoming, characters);
+      if (conflicts.length === 0) {
+        saveImported(incoming);
+      } else {
+        setIsEditorOpen(false);
+        setPendingImport({incoming, conflicts});
       }
+    } catch (error) {
+      console.error('Failed to import characters:', error);
+      setImportMessage({
+        text:
+          error instanceof SyntaxError
+            ? 'This file is not valid JSON.'
+            : error instanceof Error
+              ? error.message
+              : 'The characters could not be imported.',
+        isError: true,
+      });
     }
   };
 
-  const handleSave = () => {
-    if (!newName.trim() || !newDescription.trim()) return;
-
-    const newCharacter: Character = {
-      id: Date.now().toString(),
-      name: newName.trim(),
-      description: newDescription.trim(),
-      avatar: newAvatar,
-    };
-
-    onAddCharacter(newCharacter);
-    
-    // Reset form
-    setNewName('');
-    setNewDescription('');
-    setNewAvatar(null);
-    setIsCreating(false);
+  const handleResolveImport = (
+    resolutions: Record<string, ConflictResolution>,
+  ) => {
+    if (!pendingImport) return;
+    saveImported(resolveImport(pendingImport.incoming, characters, resolutions));
+  };
+
+  const startRenaming = (char: Character) => {
+    setRenamingId(char.id);
+    setRenameDraft(char.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameDraft.trim()) {
+      onRenameCharacter(renamingId, renameDraft.trim());
+    }
+    setRenamingId(null);
   };
 
   const handleSelect = (char: Character) => {
-    onSelectCharacter(char);
+    onSelectCharacter(char, outfits[char.id] || undefined);
     onClose();
   };
 
@@ -98,87 +173,65 @@ const CharacterManager: React.FC<CharacterManagerProps> = ({
             <UserPlusIcon className="w-5 h-5 text-indigo-400" />
             Character Control Panel
           </h2>
-          <button
-            onClick={onClose}
-            className="p-1 hover:bg-gray-600 rounded-full transition-colors text-gray-400 hover:text-white">
-            <XMarkIcon className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-600 rounded-lg transition-colors"
+              title="Import characters from a bundle file">
+              <UploadIcon className="w-4 h-4" />
+              Import
+            </button>
+            <input
+              type="file"
+              ref={importInputRef}
+              onChange={handleImportFile}
+              accept="application/json,.json"
+              className="hidden"
+            />
+            <button
+              onClick={handleExport}
+              disabled={characters.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Save characters and their images as a bundle file">
+              <DownloadIcon className="w-4 h-4" />
+              {selected.length > 0 ? `Export ${selected.length}` : 'Export All'}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 hover:bg-gray-600 rounded-full transition-colors text-gray-400 hover:text-white">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
         <div className="flex-grow overflow-y-auto p-6">
-          {isCreating ? (
-            <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
-              <div className="flex gap-4">
-                <div className="shrink-0">
-                  <button
-                    onClick={() => fileInputRef.current?.click()}
-                    className="w-24 h-24 rounded-full bg-gray-700 border-2 border-dashed border-gray-500 hover:border-indigo-500 hover:bg-gray-600 flex items-center justify-center relative overflow-hidden transition-all group">
-                    {avatarPreviewUrl ? (
-                      <img
-                        src={avatarPreviewUrl}
-                        alt="Avatar"
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <PlusIcon className="w-8 h-8 text-gray-400 group-hover:text-white" />
-                    )}
-                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center text-xs text-white font-medium transition-opacity">
-                      {avatarPreviewUrl ? 'Change' : 'Add Photo'}
-                    </div>
-                  </button>
-                  <input
-                    type="file"
-                    ref={fileInputRef}
-                    onChange={handleAvatarChange}
-                    accept="image/*"
-                    className="hidden"
-                  />
-                </div>
-                <div className="flex-grow space-y-3">
-                  <div>
-                    <label className="block text-xs font-medium text-gray-400 mb-1">
-                      Name
-                    </label>
-                    <input
-                      type="text"
-                      value={newName}
-                      onChange={(e) => setNewName(e.target.value)}
-                      placeholder="e.g. Cyber Samurai"
-                      className="w-full bg-[#2c2c2e] border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-400 mb-1">
-                      Description (Visuals & Behavior)
-                    </label>
-                    <textarea
-                      value={newDescription}
-                      onChange={(e) => setNewDescription(e.target.value)}
-                      placeholder="e.g. Wears glowing neon armor, moves with fluid stealth, carries a katana."
-                      rows={3}
-                      className="w-full bg-[#2c2c2e] border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none resize-none"
-                    />
-                  </div>
-                </div>
-              </div>
-              <div className="flex justify-end gap-3 pt-2">
-                <button
-                  onClick={() => setIsCreating(false)}
-                  className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors">
-                  Cancel
-                </button>
-                <button
-                  onClick={handleSave}
-                  disabled={!newName.trim() || !newDescription.trim()}
-                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
-                  Save Character
-                </button>
-              </div>
-            </div>
+          {importMessage && (
+            <p
+              className={`mb-4 text-sm ${
+                importMessage.isError ? 'text-red-400' : 'text-emerald-300'
+              }`}
+              role={importMessage.isError ? 'alert' : 'status'}>
+              {importMessage.text}
+            </p>
+          )}
+          {pendingImport ? (
+            <CharacterImportReview
+              incoming={pendingImport.incoming}
+              conflicts={pendingImport.conflicts}
+              onConfirm={handleResolveImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          ) : isEditorOpen ? (
+            <CharacterEditor
+              key={editingCharacter?.id ?? 'new'}
+              character={editingCharacter}
+              onSave={handleSave}
+              onCancel={() => setIsEditorOpen(false)}
+            />
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <button
-                onClick={() => setIsCreating(true)}
+                onClick={() => openEditor(null)}
                 className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-gray-700 rounded-xl hover:border-indigo-500/50 hover:bg-gray-800/50 transition-all group h-full min-h-[140px]">
                 <div className="w-12 h-12 rounded-full bg-gray-800 flex items-center justify-center mb-3 group-hover:bg-indigo-600/20 transition-colors">
                   <PlusIcon className="w-6 h-6 text-gray-400 group-hover:text-indigo-400" />
@@ -189,21 +242,27 @@ const CharacterManager: React.FC<CharacterManagerProps> = ({
               </button>
 
               {characters.map((char) => {
-                 // Create a stable preview URL for existing chars if they have files
-                 // Note: In a real app we'd use persistent URLs. Here we create objectURLs on the fly for the list.
-                 // We don't clean them up here for simplicity in this list view, relying on browser GC or component unmount.
-                 const preview = char.avatar ? URL.createObjectURL(char.avatar.file) : null;
-                 
+                 const references = getCharacterReferences(char);
+                 const [thumbnail] = references;
+                 const wardrobe = char.wardrobe ?? [];
+
                  return (
                   <div
                     key={char.id}
                     className="relative bg-[#2c2c2e] rounded-xl p-4 border border-gray-700 group hover:border-gray-500 transition-colors flex gap-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(char.id)}
+                      onChange={() => toggleSelected(char.id)}
+                      className="absolute top-2 left-2 z-10 w-4 h-4 text-indigo-600 bg-gray-700 border-gray-600 rounded focus:ring-indigo-500 cursor-pointer"
+                      aria-label={`Select ${char.name} for export`}
+                    />
                     <div className="shrink-0 w-16 h-16 rounded-full bg-gray-700 overflow-hidden">
-                      {preview ? (
-                        <img
-                          src={preview}
+                      {thumbnail ? (
+                        <ImagePreview
+                          image={thumbnail.image}
                           alt={char.name}
-                          className="w-full h-full object-cover"
+                          className="w-full h-full"
                         />
                       ) : (
                         <div className="w-full h-full flex items-center justify-center bg-indigo-900/30 text-indigo-300 text-lg font-bold">
@@ -213,9 +272,33 @@ const CharacterManager: React.FC<CharacterManagerProps> = ({
                     </div>
                     <div className="flex-grow min-w-0">
                       <div className="flex justify-between items-start">
-                        <h3 className="font-bold text-gray-200 truncate pr-6">
-                          {char.name}
-                        </h3>
+                        {renamingId === char.id ? (
+                          <input
+                            type="text"
+                            value={renameDraft}
+                            autoFocus
+                            onChange={(e) => setRenameDraft(e.target.value)}
+                            onBlur={commitRename}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitRename();
+                              if (e.key === 'Escape') setRenamingId(null);
+                            }}
+                            className="w-full mr-16 bg-[#1f1f1f] border border-gray-600 rounded px-2 py-0.5 text-sm text-white focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                          />
+                        ) : (
+                          <h3 className="font-bold text-gray-200 truncate pr-16">
+                            {char.name}
+                          </h3>
+                        )}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startRenaming(char);
+                          }}
+                          className="absolute top-3 right-10 p-1.5 text-gray-500 hover:text-indigo-300 hover:bg-indigo-400/10 rounded-lg transition-colors"
+                          title="Rename">
+                          <PencilIcon className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -229,6 +312,36 @@ const CharacterManager: React.FC<CharacterManagerProps> = ({
                       <p className="text-xs text-gray-400 mt-1 line-clamp-2">
                         {char.description}
                       </p>
+                      <p className="text-[11px] text-gray-500 mt-1">
+                        {references.length} reference
+                        {references.length === 1 ? '' : 's'}
+                        {wardrobe.length > 0 &&
+                          ` · ${wardrobe.length} outfit${wardrobe.length === 1 ? '' : 's'}`}
+                        <button
+                          onClick={() => openEditor(char)}
+                          className="ml-2 text-indigo-300 hover:text-indigo-200">
+                          Edit
+                        </button>
+                      </p>
+                      {wardrobe.length > 0 && (
+                        <select
+                          value={outfits[char.id] ?? ''}
+                          onChange={(e) =>
+                            setOutfits((prev) => ({
+                              ...prev,
+                              [char.id]: e.target.value,
+                            }))
+                          }
+                          className="mt-2 w-full bg-[#1f1f1f] border border-gray-600 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                          aria-label={`${char.name}'s outfit`}>
+                          <option value="">Outfit named in prompt</option>
+                          {wardrobe.map((variant) => (
+                            <option key={variant.id} value={variant.id}>
+                              {variant.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
                       <button
                         onClick={() => handleSelect(char)}
                         className="mt-3 text-xs bg-indigo-600/20 text-indigo-300 border border-indigo-500/30 px-3 py-1.5 rounded-full hover:bg-indigo-600 hover:text-white transition-all w-full">
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {ChipSet, GenerationMode} from '../types';
+import {createChipSet, parseKeywordList} from '../utils/chipSets';
+import {PencilIcon, PlusIcon, TrashIcon} from './icons';
+
+interface ChipLibraryEditorProps {
+  chipSets: ChipSet[];
+  // Preset categories a set can be tied to
+  categories: string[];
+  onSave: (chipSet: ChipSet) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Keyword lists are edited as text and only parsed when saving
+interface ChipSetDraft {
+  chipSet: ChipSet;
+  keywords: string;
+  negativeKeywords: string;
+}
+
+const inputClassName =
+  'w-full bg-[#2c2c2e] border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none';
+
+const toDraft = (chipSet: ChipSet): ChipSetDraft => ({
+  chipSet,
+  keywords: chipSet.keywords.join(', '),
+  negativeKeywords: chipSet.negativeKeywords.join(', '),
+});
+
+const fromDraft = ({chipSet, keywords, negativeKeywords}: ChipSetDraft): ChipSet => ({
+  ...chipSet,
+  name: chipSet.name.trim() || 'Untitled',
+  keywords: parseKeywordList(keywords),
+  negativeKeywords: parseKeywordList(negativeKeywords),
+});
+
+const isSameSet = (a: ChipSet, b: ChipSet) =>
+  JSON.stringify({...a, updatedAt: 0}) === JSON.stringify({...b, updatedAt: 0});
+
+/**
+ * Edits the chip sets offered under the prompt. Changes are kept as drafts
+ * until saved, so cancelling leaves the library as it was.
+ */
+const ChipLibraryEditor: React.FC<ChipLibraryEditorProps> = ({
+  chipSets,
+  categories,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [drafts, setDrafts] = useState<ChipSetDraft[]>(() =>
+    chipSets.map(toDraft),
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(
+    chipSets[0]?.id ?? null,
+  );
+
+  const selected = drafts.find((draft) => draft.chipSet.id === selectedId);
+
+  const updateSelected = (update: Partial<ChipSetDraft>) =>
+    setDrafts((prev) =>
+      prev.map((draft) =>
+        draft.chipSet.id === selectedId ? {...draft, ...update} : draft,
+      ),
+    );
+
+  const updateSet = (update: Partial<ChipSet>) =>
+    selected && updateSelected({chipSet: {...selected.chipSet, ...update}});
+
+  const toggleMode = (mode: GenerationMode) => {
+    if (!selected) return;
+    const {modes} = selected.chipSet;
+    updateSet({
+      modes: modes.includes(mode)
+        ? modes.filter((m) => m !== mode)
+        : [...modes, mode],
+    });
+  };
+
+  const handleAdd = () => {
+    const draft = toDraft({...createChipSet(), name: 'New chip set'});
+    setDrafts((prev) => [...prev, draft]);
+    setSelectedId(draft.chipSet.id);
+  };
+
+  const handleRemove = (id: string) => {
+    const remaining = drafts.filter((draft) => draft.chipSet.id !== id);
+    setDrafts(remaining);
+    if (id === selectedId) setSelectedId(remaining[0]?.chipSet.id ?? null);
+  };
+
+  const handleSave = () => {
+    const now = Date.now();
+    drafts.forEach((draft) => {
+      const next = fromDraft(draft);
+      const original = chipSets.find((set) => set.id === next.id);
+      if (!original || !isSameSet(original, next)) {
+        onSave({...next, updatedAt: now});
+      }
+    });
+    chipSets
+      .filter((set) => !drafts.some((draft) => draft.chipSet.id === set.id))
+      .forEach((set) => onDelete(set.id));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1c1c1e] w-full max-w-2xl rounded-2xl border border-gray-700 shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-4 border-b border-gray-700 bg-[#2c2c2e]">
+          <h2 className="text-xl font-bold text-gray-200 flex items-center gap-2">
+            <PencilIcon className="w-5 h-5 text-indigo-400" />
+            Suggestion Chips
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">
+            Each set shows its chips in the modes it is for, or only with
+            presets from its category.
+          </p>
+        </div>
+
+        <div className="flex min-h-0 flex-grow">
+          <div className="w-48 shrink-0 border-r border-gray-700 p-2 space-y-1 overflow-y-auto">
+            {drafts.map(({chipSet}) => (
+              <button
+                key={chipSet.id}
+                type="button"
+                onClick={() => setSelectedId(chipSet.id)}
+                className={`w-full px-3 py-2 text-left text-sm rounded-lg truncate transition-colors ${
+                  chipSet.id === selectedId
+                    ? 'bg-indigo-600/20 text-indigo-200'
+                    : 'text-gray-300 hover:bg-gray-700'
+                }`}>
+                {chipSet.name || 'Untitled'}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="w-full flex items-center gap-1.5 px-3 py-2 text-sm text-indigo-300 rounded-lg hover:bg-gray-700">
+              <PlusIcon className="w-4 h-4" />
+              New set
+            </button>
+          </div>
+
+          {selected ? (
+            <div className="flex-grow p-4 space-y-4 overflow-y-auto">
+              <div className="flex items-end gap-2">
+                <div className="flex-grow">
+                  <label className="block text-xs font-medium text-gray-400 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={selected.chipSet.name}
+                    onChange={(e) => updateSet({name: e.target.value})}
+                    className={inputClassName}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(selected.chipSet.id)}
+                  className="p-2.5 rounded-lg text-gray-400 hover:bg-red-900/40 hover:text-red-300"
+                  aria-label={`Delete ${selected.chipSet.name}`}>
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <fieldset>
+                <legend className="text-xs font-medium text-gray-400 mb-2">
+                  Modes (none means every mode)
+                </legend>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {Object.values(GenerationMode).map((mode) => (
+                    <label
+                      key={mode}
+                      className="flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={selected.chipSet.modes.includes(mode)}
+                        onChange={() => toggleMode(mode)}
+                        className="rounded border-gray-600 bg-[#1f1f1f] text-indigo-500 focus:ring-indigo-500"
+                      />
+                      {mode}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">
+                  Preset category
+                </label>
+                <select
+                  value={selected.chipSet.presetCategory ?? ''}
+                  onChange={(e) =>
+                    updateSet({presetCategory: e.target.value || undefined})
+                  }
+                  className={inputClassName}>
+                  <option value="">Any</option>
+                  {categories.map((category) => (
+                    <option key={category} value={category}>
+                      {category}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">
+                  Chips (comma or line separated)
+                </label>
+                <textarea
+                  value={selected.keywords}
+                  onChange={(e) => updateSelected({keywords: e.target.value})}
+                  rows={3}
+                  className={`${inputClassName} resize-none`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">
+                  Negative prompt chips
+                </label>
+                <textarea
+                  value={selected.negativeKeywords}
+                  onChange={(e) =>
+                    updateSelected({negativeKeywords: e.target.value})
+                  }
+                  rows={2}
+                  className={`${inputClassName} resize-none`}
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="flex-grow p-4 text-sm text-gray-500">
+              No chip sets. Add one to offer chips under the prompt.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold rounded-lg transition-colors">
+            Save Chips
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChipLibraryEditor;
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {Resolution, VeoModel} from '../types';
+import {
+  ComparisonOptions,
+  countVariations,
+  MAX_COMPARISON_TAKES,
+} from '../utils/comparison';
+import {MODEL_LABELS} from '../utils/formatUtils';
+import {ColumnsIcon, XMarkIcon} from './icons';
+
+interface CompareDialogProps {
+  // False when the settings pin the model or resolution, e.g. references
+  canVaryModel: boolean;
+  canVaryResolution: boolean;
+  onStart: (options: ComparisonOptions) => void;
+  onClose: () => void;
+}
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+const CompareDialog: React.FC<CompareDialogProps> = ({
+  canVaryModel,
+  canVaryResolution,
+  onStart,
+  onClose,
+}) => {
+  const [takes, setTakes] = useState(2);
+  const [models, setModels] = useState<VeoModel[]>([]);
+  const [resolutions, setResolutions] = useState<Resolution[]>([]);
+
+  const options: ComparisonOptions = {takes, models, resolutions};
+  const count = countVariations(options);
+  const isTooMany = count > MAX_COMPARISON_TAKES;
+
+  const renderCheckbox = (label: string, checked: boolean, onChange: () => void) => (
+    <label key={label} className="flex items-center gap-2 text-sm text-gray-300">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={onChange}
+        className="rounded border-gray-600 bg-[#1f1f1f] text-indigo-500 focus:ring-indigo-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-md w-full p-6 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1.5 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white"
+          aria-label="Close compare dialog">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-xl font-semibold text-white mb-1">Compare Takes</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Generates variations of this video to watch side by side. The
+          current video is kept as the first take.
+        </p>
+
+        <div className="space-y-5 mb-6">
+          <label className="flex items-center justify-between text-sm text-gray-300">
+            Takes of each setting
+            <select
+              value={takes}
+              onChange={(e) => setTakes(Number(e.target.value))}
+              className="bg-[#1f1f1f] border border-gray-600 rounded px-2 py-1 text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+              {Array.from({length: MAX_COMPARISON_TAKES}, (_, i) => i + 1).map(
+                (n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ),
+              )}
+            </select>
+          </label>
+          {canVaryModel && (
+            <fieldset>
+              <legend className="text-xs font-medium text-gray-400 mb-2">
+                Across models (none keeps the current one)
+              </legend>
+              <div className="flex gap-4">
+                {Object.values(VeoModel).map((model) =>
+                  renderCheckbox(MODEL_LABELS[model], models.includes(model), () =>
+                    setModels((prev) => toggle(prev, model)),
+                  ),
+                )}
+              </div>
+            </fieldset>
+          )}
+          {canVaryResolution && (
+            <fieldset>
+              <legend className="text-xs font-medium text-gray-400 mb-2">
+                Across resolutions (none keeps the current one)
+              </legend>
+              <div className="flex gap-4">
+                {Object.values(Resolution).map((resolution) =>
+                  renderCheckbox(
+                    resolution,
+                    resolutions.includes(resolution),
+                    () => setResolutions((prev) => toggle(prev, resolution)),
+                  ),
+                )}
+              </div>
+            </fieldset>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          {isTooMany && (
+            <p className="mr-auto text-xs text-red-400">
+              At most {MAX_COMPARISON_TAKES} takes at once.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-5 py-2 text-sm font-medium text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onStart(options)}
+            disabled={isTooMany}
+            className="flex items-center gap-2 px-5 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors">
+            <ColumnsIcon className="w-4 h-4" />
+            Generate {count} Take{count === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareDialog;
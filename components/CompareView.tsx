@@ -0,0 +1,248 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {Comparison, GenerationJob, JobStatus, Scene} from '../types';
+import {formatDuration} from '../utils/formatUtils';
+import {
+  PauseIcon,
+  PlayIcon,
+  TrophyIcon,
+  VolumeIcon,
+  VolumeOffIcon,
+  XMarkIcon,
+} from './icons';
+
+interface CompareViewProps {
+  comparison: Comparison;
+  jobs: GenerationJob[];
+  scenes: Scene[];
+  onPickWinner: (sceneId: string) => void;
+  onClose: () => void;
+}
+
+// How far a take may wander from the first one before it is pulled back
+const MAX_DRIFT = 0.15;
+
+/**
+ * Takes of the same generation side by side. Playback is shared: the first
+ * ready entry in list order leads, which is the current scene when there is
+ * one, and the others follow it.
+ */
+const CompareView: React.FC<CompareViewProps> = ({
+  comparison,
+  jobs,
+  scenes,
+  onPickWinner,
+  onClose,
+}) => {
+  const videoEls = useRef(new Map<string, HTMLVideoElement>());
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  // The take whose audio is heard; the rest stay muted
+  const [audioId, setAudioId] = useState<string | null>(null);
+
+  const readyIds = comparison.entries
+    .filter((entry) => scenes.some((s) => s.id === entry.id))
+    .map((entry) => entry.id);
+  // Restarts playback when another take finishes
+  const readyKey = readyIds.join(',');
+
+  const getVideos = () =>
+    readyIds.flatMap((id) => {
+      const video = videoEls.current.get(id);
+      return video ? [video] : [];
+    });
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const [leader, ...followers] = getVideos();
+    if (!leader) return;
+    let frameId: number;
+
+    const tick = () => {
+      const leaderTime = leader.currentTime;
+      followers.forEach((video) => {
+        if (
+          leaderTime < video.duration &&
+          Math.abs(video.currentTime - leaderTime) > MAX_DRIFT
+        ) {
+          video.currentTime = leaderTime;
+        }
+      });
+      // Tenths of a second are plenty for the readout and save renders
+      setTime(Math.round(leaderTime * 10) / 10);
+      frameId = requestAnimationFrame(tick);
+    };
+
+    [leader, ...followers].forEach((video) =>
+      video.play().catch(() => setIsPlaying(false)),
+    );
+    frameId = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      [leader, ...followers].forEach((video) => video.pause());
+    };
+  }, [isPlaying, readyKey]);
+
+  const handleSeek = (value: number) => {
+    getVideos().forEach((video) => {
+      video.currentTime = Math.min(value, video.duration || value);
+    });
+    setTime(value);
+  };
+
+  const setVideoRef = (id: string) => (video: HTMLVideoElement | null) => {
+    if (video) {
+      videoEls.current.set(id, video);
+    } else {
+      videoEls.current.delete(id);
+    }
+  };
+
+  const renderPlaceholder = (entryId: string) => {
+    const job = jobs.find((j) => j.id === entryId);
+    // A finished take that is not among the scenes was deleted
+    if (!job || job.status === JobStatus.SUCCEEDED) {
+      return <p className="text-xs text-gray-500">No longer in your scenes.</p>;
+    }
+    if (job.status === JobStatus.FAILED) {
+      return (
+        <p className="text-xs text-red-400 text-center px-3">
+          {job.error?.message ?? 'This take failed.'}
+        </p>
+      );
+    }
+    if (job.status === JobStatus.CANCELLED) {
+      return <p className="text-xs text-gray-500">Cancelled</p>;
+    }
+    return (
+      <p className="text-xs text-indigo-300 animate-pulse">
+        {job.status === JobStatus.QUEUED ? 'Queued...' : 'Generating...'}
+      </p>
+    );
+  };
+
+  const columns =
+    comparison.entries.length > 4 ? 'md:grid-cols-3' : 'md:grid-cols-2';
+
+  return (
+    <div className="w-full flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold text-gray-200">Compare Takes</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1.5 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white"
+          aria-label="Close compare view">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className={`grid grid-cols-1 ${columns} gap-3`}>
+        {comparison.entries.map((entry) => {
+          const scene = scenes.find((s) => s.id === entry.id);
+          const isWinner = comparison.winnerId === entry.id;
+          return (
+            <div
+              key={entry.id}
+              className={`flex flex-col gap-2 p-2 bg-[#1f1f1f] border rounded-xl ${
+                isWinner ? 'border-emerald-500' : 'border-gray-700'
+              }`}>
+              <div className="relative aspect-video bg-black rounded-lg overflow-hidden flex items-center justify-center">
+                {scene ? (
+                  <video
+                    ref={setVideoRef(entry.id)}
+                    src={scene.url}
+                    playsInline
+                    loop
+                    muted={audioId !== entry.id}
+                    preload="auto"
+                    onLoadedMetadata={(e) => {
+                      const loaded = e.currentTarget.duration;
+                      setDuration((prev) => Math.max(prev, loaded || 0));
+                    }}
+                    className="w-full h-full object-contain"
+                  />
+                ) : (
+                  renderPlaceholder(entry.id)
+                )}
+              </div>
+              <div className="flex items-center gap-2 px-1">
+                <span className="flex-grow min-w-0 text-xs text-gray-300 truncate">
+                  {entry.label}
+                </span>
+                {scene && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setAudioId((prev) => (prev === entry.id ? null : entry.id))
+                      }
+                      className="p-1 text-gray-400 hover:text-white"
+                      aria-label={
+                        audioId === entry.id
+                          ? `Mute ${entry.label}`
+                          : `Listen to ${entry.label}`
+                      }>
+                      {audioId === entry.id ? (
+                        <VolumeIcon className="w-4 h-4" />
+                      ) : (
+                        <VolumeOffIcon className="w-4 h-4" />
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onPickWinner(entry.id)}
+                      className={`flex items-center gap-1 px-2 py-1 text-xs rounded-lg transition-colors ${
+                        isWinner
+                          ? 'bg-emerald-600/30 text-emerald-300'
+                          : 'bg-gray-700 text-gray-200 hover:bg-emerald-600'
+                      }`}>
+                      <TrophyIcon className="w-3.5 h-3.5" />
+                      {isWinner ? 'Winner' : 'Pick'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setIsPlaying((prev) => !prev)}
+          disabled={readyIds.length === 0}
+          className="p-2 bg-indigo-600 rounded-full hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed"
+          aria-label={isPlaying ? 'Pause all takes' : 'Play all takes'}>
+          {isPlaying ? (
+            <PauseIcon className="w-4 h-4 text-white" />
+          ) : (
+            <PlayIcon className="w-4 h-4 text-white" />
+          )}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={Math.min(time, duration)}
+          onChange={(e) => handleSeek(Number(e.target.value))}
+          disabled={readyIds.length === 0}
+          className="flex-grow accent-indigo-500"
+          aria-label="Position in all takes"
+        />
+        <span className="text-xs text-gray-400 tabular-nums">
+          {formatDuration(time * 1000)} / {formatDuration(duration * 1000)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
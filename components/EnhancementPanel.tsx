@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo, useState} from 'react';
+import {EnhancementCandidate} from '../types';
+import {
+  applyChanges,
+  diffWords,
+  getChangeIndexes,
+  groupChanges,
+} from '../utils/textDiff';
+import {XMarkIcon} from './icons';
+
+interface EnhancementPanelProps {
+  original: string;
+  candidates: EnhancementCandidate[];
+  onApply: (prompt: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Rewrites of the prompt, each shown as a diff against it. Clicking a
+ * change leaves it out, so pieces of a rewrite can be merged into the
+ * original.
+ */
+const EnhancementPanel: React.FC<EnhancementPanelProps> = ({
+  original,
+  candidates,
+  onApply,
+  onClose,
+}) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Changes left out of the active rewrite, by chunk index
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+
+  const candidate = candidates[Math.min(activeIndex, candidates.length - 1)];
+  const chunks = useMemo(
+    () => groupChanges(diffWords(original, candidate.prompt)),
+    [original, candidate.prompt],
+  );
+  const changeIndexes = getChangeIndexes(chunks);
+  const accepted = new Set(changeIndexes.filter((i) => !rejected.has(i)));
+
+  const selectCandidate = (index: number) => {
+    setActiveIndex(index);
+    setRejected(new Set());
+  };
+
+  const toggleChange = (index: number) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="px-3 py-2 bg-[#1f1f1f] border border-indigo-500/40 rounded-xl space-y-2">
+      <div className="flex items-center gap-1.5">
+        <span className="mr-2 text-xs font-medium text-gray-400">Rewrites</span>
+        {candidates.map((c, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => selectCandidate(index)}
+            className={`px-2.5 py-1 text-xs rounded-full transition-colors ${
+              c === candidate
+                ? 'bg-indigo-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}>
+            {c.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={onClose}
+          className="ml-auto p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white"
+          aria-label="Dismiss rewrites">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-sm leading-relaxed text-gray-200 whitespace-pre-wrap">
+        {chunks.map((chunk, index) => {
+          if (chunk.changed === false) {
+            return <span key={index}>{chunk.text}</span>;
+          }
+          const isAccepted = accepted.has(index);
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => toggleChange(index)}
+              className={`inline rounded px-0.5 text-left transition-opacity ${
+                isAccepted ? '' : 'opacity-50'
+              }`}
+              title={isAccepted ? 'Leave this change out' : 'Take this change'}>
+              {chunk.removed && (
+                <del
+                  className={
+                    isAccepted
+                      ? 'text-red-300/80 bg-red-900/30'
+                      : 'no-underline text-gray-200'
+                  }>
+                  {chunk.removed}
+                </del>
+              )}
+              {chunk.added && (
+                <ins
+                  className={
+                    isAccepted
+                      ? 'no-underline text-emerald-200 bg-emerald-900/40'
+                      : 'line-through text-gray-500'
+                  }>
+                  {chunk.added}
+                </ins>
+              )}
+            </button>
+          );
+        })}
+      </p>
+
+      <div className="flex items-center justify-end gap-2">
+        <span className="mr-auto text-xs text-gray-500">
+          {accepted.size} of {changeIndexes.length} change
+          {changeIndexes.length === 1 ? '' : 's'} selected. Click a change to
+          toggle it.
+        </span>
+        <button
+          type="button"
+          onClick={() => onApply(applyChanges(chunks, accepted))}
+          disabled={accepted.size === 0}
+          className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+          Use Selected Changes
+        </button>
+        <button
+          type="button"
+          onClick={() => onApply(candidate.prompt)}
+          className="px-3 py-1.5 text-xs font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 transition-colors">
+          Use This Rewrite
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EnhancementPanel;
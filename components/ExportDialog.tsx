@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  ExportClip,
+  ExportContainer,
+  ExportProgress,
+  ExportResult,
+  exportSequence,
+  getSupportedContainers,
+} from '../services/sequenceExport';
+import {downloadUrl} from '../utils/fileUtils';
+import {DownloadIcon, XMarkIcon} from './icons';
+
+interface ExportDialogProps {
+  sequenceName: string;
+  clips: ExportClip[];
+  onClose: () => void;
+}
+
+const containerDisplayNames: Record<ExportContainer, string> = {
+  [ExportContainer.MP4]: 'MP4 (widest compatibility)',
+  [ExportContainer.WEBM]: 'WebM',
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  sequenceName,
+  clips,
+  onClose,
+}) => {
+  const [supportedContainers] = useState(() => getSupportedContainers());
+  const [container, setContainer] = useState<ExportContainer>(
+    supportedContainers[0] ?? ExportContainer.WEBM,
+  );
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [result, setResult] = useState<ExportResult | null>(null);
+  const [resultUrl, setResultUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const isExporting = progress !== null && !result && !error;
+  const baseName = sequenceName.replace(/[^\w\- ]+/g, '').trim() || 'sequence';
+
+  // Stop a running export and free the file when the dialog goes away
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+    },
+    [],
+  );
+  useEffect(
+    () => () => {
+      if (resultUrl) URL.revokeObjectURL(resultUrl);
+    },
+    [resultUrl],
+  );
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setResult(null);
+    setResultUrl(null);
+    setProgress({clipIndex: 0, clipCount: clips.length, fraction: 0});
+    try {
+      const exported = await exportSequence(clips, {
+        container,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      const url = URL.createObjectURL(exported.blob);
+      setResult(exported);
+      setResultUrl(url);
+      downloadUrl(url, `${baseName}.${exported.container}`);
+    } catch (e) {
+      if (controller.signal.aborted) {
+        setProgress(null);
+        return;
+      }
+      console.error('Sequence export failed:', e);
+      setError(e instanceof Error ? e.message : 'The export failed.');
+    } finally {
+      controllerRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+  };
+
+  const percent = Math.round((progress?.fraction ?? 0) * 100);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-md w-full p-6 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1.5 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white"
+          aria-label="Close export dialog">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-xl font-semibold text-white mb-1">Export Sequence</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          The sequence is rendered in real time, so exporting takes as long as
+          playing it. Keep this tab in the foreground until it finishes.
+        </p>
+
+        <label className="text-xs block mb-1.5 font-medium text-gray-400">
+          Format
+        </label>
+        <select
+          value={container}
+          onChange={(e) => setContainer(e.target.value as ExportContainer)}
+          disabled={isExporting}
+          className="w-full bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2.5 mb-6 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 disabled:text-gray-500">
+          {Object.values(ExportContainer).map((value) => (
+            <option
+              key={value}
+              value={value}
+              disabled={!supportedContainers.includes(value)}>
+              {containerDisplayNames[value]}
+              {supportedContainers.includes(value) ? '' : ' (not supported here)'}
+            </option>
+          ))}
+        </select>
+
+        {progress && !error && (
+          <div className="mb-6">
+            <div className="flex justify-between text-xs text-gray-400 mb-1.5">
+              <span>
+                {result
+                  ? 'Export complete'
+                  : `Rendering clip ${progress.clipIndex + 1} of ${progress.clipCount}`}
+              </span>
+              <span className="tabular-nums">{percent}%</span>
+            </div>
+            <div
+              className="w-full h-2 bg-gray-700 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}>
+              <div
+                className="h-full bg-gradient-to-r from-indigo-500 to-purple-500"
+                style={{width: `${percent}%`}}
+              />
+            </div>
+          </div>
+        )}
+
+        {result && result.warnings.length > 0 && (
+          <ul className="mb-6 text-xs text-yellow-400/80 space-y-1">
+            {result.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+        {error && <p className="mb-6 text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          {isExporting ? (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-5 py-2 text-sm font-medium text-red-300 border border-red-500/40 rounded-lg hover:bg-red-500/10 hover:text-red-200 transition-colors">
+              Cancel Export
+            </button>
+          ) : result && resultUrl ? (
+            <button
+              type="button"
+              onClick={() => downloadUrl(resultUrl, `${baseName}.${result.container}`)}
+              className="flex items-center gap-2 px-5 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-lg transition-colors">
+              <DownloadIcon className="w-4 h-4" />
+              Save Again
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={clips.length === 0 || supportedContainers.length === 0}
+              className="flex items-center gap-2 px-5 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors">
+              <DownloadIcon className="w-4 h-4" />
+              Export
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
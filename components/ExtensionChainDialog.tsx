@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {MAX_CHAIN_LENGTH} from '../utils/extensionChain';
+import {LinkIcon, PlusIcon, TrashIcon, XMarkIcon} from './icons';
+
+interface ExtensionChainDialogProps {
+  onStart: (prompts: string[]) => void;
+  onClose: () => void;
+}
+
+const ExtensionChainDialog: React.FC<ExtensionChainDialogProps> = ({
+  onStart,
+  onClose,
+}) => {
+  const [prompts, setPrompts] = useState<string[]>(['', '']);
+
+  const hasBlankStep = prompts.some((prompt) => !prompt.trim());
+
+  const updatePrompt = (index: number, value: string) => {
+    setPrompts((prev) => prev.map((p, i) => (i === index ? value : p)));
+  };
+
+  const removePrompt = (index: number) => {
+    setPrompts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-lg w-full p-6 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1.5 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white"
+          aria-label="Close extension chain dialog">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-xl font-semibold text-white mb-1">Extend Chain</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Each step extends the result of the one before it. The chain stops
+          at the first step that fails, keeping everything generated so far.
+        </p>
+
+        <ol className="flex flex-col gap-3 mb-4 max-h-[50vh] overflow-y-auto">
+          {prompts.map((prompt, index) => (
+            <li key={index} className="flex items-start gap-3">
+              <span className="shrink-0 w-6 pt-2 text-right text-xs font-semibold text-gray-500 tabular-nums">
+                {index + 1}.
+              </span>
+              <textarea
+                value={prompt}
+                onChange={(e) => updatePrompt(index, e.target.value)}
+                placeholder="What happens next..."
+                rows={2}
+                className="flex-grow bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-200 resize-none focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => removePrompt(index)}
+                disabled={prompts.length === 1}
+                className="shrink-0 mt-1.5 p-1.5 text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500"
+                aria-label={`Remove step ${index + 1}`}>
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+        <button
+          type="button"
+          onClick={() => setPrompts((prev) => [...prev, ''])}
+          disabled={prompts.length >= MAX_CHAIN_LENGTH}
+          className="flex items-center gap-1.5 ml-9 mb-6 text-sm text-indigo-300 hover:text-indigo-200 disabled:text-gray-600">
+          <PlusIcon className="w-4 h-4" />
+          Add Step
+        </button>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-5 py-2 text-sm font-medium text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onStart(prompts)}
+            disabled={hasBlankStep}
+            title={hasBlankStep ? 'Every step needs a prompt.' : undefined}
+            className="flex items-center gap-2 px-5 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors">
+            <LinkIcon className="w-4 h-4" />
+            Start {prompts.length}-Step Chain
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExtensionChainDialog;
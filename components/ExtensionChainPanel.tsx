@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {ChainStatus, ExtensionChain} from '../types';
+import {XMarkIcon} from './icons';
+
+interface ExtensionChainPanelProps {
+  chains: ExtensionChain[];
+  onViewScene: (sceneId: string) => void;
+  onStop: (chainId: string) => void;
+  onDismiss: (chainId: string) => void;
+}
+
+const statusStyles: Record<ChainStatus, string> = {
+  [ChainStatus.RUNNING]: 'bg-indigo-600/30 text-indigo-300 animate-pulse',
+  [ChainStatus.COMPLETED]: 'bg-emerald-600/30 text-emerald-300',
+  [ChainStatus.FAILED]: 'bg-red-600/30 text-red-300',
+  [ChainStatus.CANCELLED]: 'bg-gray-800 text-gray-500',
+};
+
+const ExtensionChainPanel: React.FC<ExtensionChainPanelProps> = ({
+  chains,
+  onViewScene,
+  onStop,
+  onDismiss,
+}) => {
+  if (chains.length === 0) return null;
+
+  return (
+    <div className="w-full mb-4 p-3 bg-[#1f1f1f] border border-gray-700 rounded-xl">
+      <h3 className="text-sm font-medium text-gray-300 mb-2 px-1">
+        Extension Chains
+      </h3>
+      <ul className="flex flex-col gap-3">
+        {chains.map((chain) => {
+          const isRunning = chain.status === ChainStatus.RUNNING;
+          return (
+            <li key={chain.id} className="px-1">
+              <div className="flex items-center gap-3 mb-1.5">
+                <span
+                  className={`shrink-0 w-20 text-center text-[10px] uppercase tracking-wide font-semibold px-2 py-0.5 rounded-full ${statusStyles[chain.status]}`}>
+                  {chain.status}
+                </span>
+                <p className="flex-grow text-xs text-gray-400">
+                  {chain.sceneIds.length} of {chain.prompts.length} steps done
+                </p>
+                <button
+                  type="button"
+                  onClick={() =>
+                    isRunning ? onStop(chain.id) : onDismiss(chain.id)
+                  }
+                  className={`shrink-0 p-1 text-gray-500 ${
+                    isRunning ? 'hover:text-red-400' : 'hover:text-white'
+                  }`}
+                  aria-label={isRunning ? 'Stop chain' : 'Dismiss chain'}
+                  title={isRunning ? 'Stop after cancelling the current step' : 'Dismiss'}>
+                  <XMarkIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <ol className="flex flex-col gap-0.5 pl-2 border-l border-gray-700 ml-2">
+                {chain.prompts.map((prompt, index) => {
+                  const sceneId = chain.sceneIds[index];
+                  const isCurrent = index === chain.sceneIds.length;
+                  const failed = isCurrent && !isRunning && !!chain.error;
+                  return (
+                    <li key={index}>
+                      <button
+                        type="button"
+                        onClick={() => sceneId && onViewScene(sceneId)}
+                        disabled={!sceneId}
+                        className={`w-full text-left text-xs truncate px-2 py-0.5 rounded ${
+                          sceneId
+                            ? 'text-gray-300 hover:bg-gray-800'
+                            : isCurrent && isRunning
+                              ? 'text-indigo-300'
+                              : failed
+                                ? 'text-red-400'
+                                : 'text-gray-600'
+                        }`}
+                        title={failed ? chain.error : prompt}>
+                        {index + 1}. {prompt}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+              {chain.error && (
+                <p className="mt-1 ml-4 text-[10px] text-red-400 truncate">
+                  {chain.error}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ExtensionChainPanel;
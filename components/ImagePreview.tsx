@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo} from 'react';
+import {ImageFile} from '../types';
+
+interface ImagePreviewProps {
+  image: ImageFile;
+  alt: string;
+  className?: string;
+}
+
+/** Read-only image thumbnail that releases its object URL when done. */
+const ImagePreview: React.FC<ImagePreviewProps> = ({image, alt, className = ''}) => {
+  const previewUrl = useMemo(() => URL.createObjectURL(image.file), [image]);
+
+  useEffect(() => {
+    return () => URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  return <img src={previewUrl} alt={alt} className={`object-cover ${className}`} />;
+};
+
+export default ImagePreview;
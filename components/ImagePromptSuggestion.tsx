@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {ArrowPathIcon, SparklesIcon, XMarkIcon} from './icons';
+
+interface ImagePromptSuggestionProps {
+  suggestion: string | null;
+  isLoading: boolean;
+  error: string | null;
+  onInsert: (suggestion: string) => void;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+/** A prompt suggested from the attached images, ready to insert. */
+const ImagePromptSuggestion: React.FC<ImagePromptSuggestionProps> = ({
+  suggestion,
+  isLoading,
+  error,
+  onInsert,
+  onRetry,
+  onDismiss,
+}) => (
+  <div className="flex items-start gap-3 px-3 py-2 bg-[#1f1f1f] border border-gray-700 rounded-xl">
+    <SparklesIcon className="w-4 h-4 mt-0.5 shrink-0 text-indigo-400" />
+    <div className="flex-grow min-w-0">
+      <p className="text-xs font-medium text-gray-400">
+        Suggested from your images
+      </p>
+      {isLoading ? (
+        <p className="text-sm text-indigo-300 animate-pulse">
+          Looking at the images...
+        </p>
+      ) : error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : (
+        <p className="text-sm text-gray-200">{suggestion}</p>
+      )}
+    </div>
+    <div className="flex items-center gap-1 shrink-0">
+      {suggestion && !isLoading && (
+        <button
+          type="button"
+          onClick={() => onInsert(suggestion)}
+          className="px-3 py-1 text-xs font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 transition-colors">
+          Insert
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onRetry}
+        disabled={isLoading}
+        className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-50"
+        aria-label="Suggest another prompt">
+        <ArrowPathIcon className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white"
+        aria-label="Dismiss suggestion">
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+  </div>
+);
+
+export default ImagePromptSuggestion;
@@ -13,9 +13,11 @@ interface ImageUploadProps {
   onRemove?: () => void;
   image?: ImageFile | null;
   label: React.ReactNode;
+  // Outlines the image when the API would reject it.
+  invalid?: boolean;
 }
 
-const ImageUpload: React.FC<ImageUploadProps> = ({onSelect, onRemove, image, label}) => {
+const ImageUpload: React.FC<ImageUploadProps> = ({onSelect, onRemove, image, label, invalid = false}) => {
   const inputRef = useRef<HTMLInputElement>(null);
   
   // Create object URL for preview
@@ -54,7 +56,9 @@ const ImageUpload: React.FC<ImageUploadProps> = ({onSelect, onRemove, image, lab
         <img
           src={previewUrl}
           alt="preview"
-          className="w-full h-full object-cover rounded-lg"
+          className={`w-full h-full object-cover rounded-lg ${
+            invalid ? 'ring-2 ring-red-500' : ''
+          }`}
         />
         <button
           type="button"
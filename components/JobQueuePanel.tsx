@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { isJobFinished, MAX_CONCURRENCY } from '../services/jobQueue';
+import { GenerationJob, JobStatus } from '../types';
+import { formatDuration } from '../utils/formatUtils';
+import { XMarkIcon } from './icons';
+
+interface JobQueuePanelProps {
+  jobs: GenerationJob[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onView: (jobId: string) => void;
+  onCancel: (jobId: string) => void;
+  onDismiss: (jobId: string) => void;
+}
+
+const statusStyles: Record<JobStatus, string> = {
+  [JobStatus.QUEUED]: 'bg-gray-700 text-gray-300',
+  [JobStatus.RUNNING]: 'bg-indigo-600/30 text-indigo-300 animate-pulse',
+  [JobStatus.SUCCEEDED]: 'bg-emerald-600/30 text-emerald-300',
+  [JobStatus.FAILED]: 'bg-red-600/30 text-red-300',
+  [JobStatus.CANCELLED]: 'bg-gray-800 text-gray-500',
+};
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onView,
+  onCancel,
+  onDismiss,
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const hasRunningJobs = jobs.some((job) => job.status === JobStatus.RUNNING);
+
+  // Tick the elapsed timers only while something is actually running
+  useEffect(() => {
+    if (!hasRunningJobs) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [hasRunningJobs]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="w-full mb-4 p-3 bg-[#1f1f1f] border border-gray-700 rounded-xl">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <h3 className="text-sm font-medium text-gray-300">Generation Queue</h3>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Parallel jobs
+          <select
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="bg-[#2c2c2e] border border-gray-600 rounded px-1.5 py-0.5 text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+            {Array.from({length: MAX_CONCURRENCY}, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <ul className="flex flex-col gap-1.5 max-h-48 overflow-y-auto">
+        {[...jobs].reverse().map((job) => {
+          const isFinished = isJobFinished(job);
+          const elapsed = job.startedAt
+            ? (job.finishedAt ?? now) - job.startedAt
+            : 0;
+          return (
+            <li
+              key={job.id}
+              className="flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-gray-800 group">
+              <span
+                className={`shrink-0 w-20 text-center text-[10px] uppercase tracking-wide font-semibold px-2 py-0.5 rounded-full ${statusStyles[job.status]}`}>
+                {job.status}
+              </span>
+              <button
+                type="button"
+                onClick={() => onView(job.id)}
+                className="flex-grow min-w-0 text-left"
+                title={job.error?.message ?? job.params.prompt}>
+                <p className="text-xs text-gray-300 truncate">
+                  {job.params.prompt || job.params.mode}
+                </p>
+                {job.params.templateValues && (
+                  <p className="flex gap-1 mt-0.5 overflow-hidden">
+                    {Object.entries(job.params.templateValues).map(
+                      ([name, value]) => (
+                        <span
+                          key={name}
+                          className="shrink-0 px-1.5 text-[10px] bg-indigo-600/20 text-indigo-300 rounded">
+                          {name}: {value}
+                        </span>
+                      ),
+                    )}
+                  </p>
+                )}
+                {job.status === JobStatus.FAILED && job.error && (
+                  <p className="text-[10px] text-red-400 truncate">
+                    {job.error.message}
+                  </p>
+                )}
+              </button>
+              <span className="shrink-0 text-[10px] text-gray-500 tabular-nums">
+                {job.startedAt ? formatDuration(elapsed) : '--:--'}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  isFinished ? onDismiss(job.id) : onCancel(job.id)
+                }
+                className={`shrink-0 p-1 text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity ${
+                  isFinished ? 'hover:text-white' : 'hover:text-red-400'
+                }`}
+                aria-label={isFinished ? 'Dismiss job' : 'Cancel job'}
+                title={isFinished ? 'Dismiss' : 'Cancel'}>
+                <XMarkIcon className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default JobQueuePanel;
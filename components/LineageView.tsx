@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo, useState} from 'react';
+import {Resolution, Scene, SceneOrigin} from '../types';
+import {
+  buildLineageForest,
+  getAncestry,
+  getLineage,
+  LineageNode,
+  SCENE_ORIGIN_LABELS,
+} from '../utils/lineage';
+import {
+  ChevronRightIcon,
+  PencilIcon,
+  PlayIcon,
+  SparklesIcon,
+  XMarkIcon,
+} from './icons';
+
+interface LineageViewProps {
+  scenes: Scene[];
+  // Scene selected when the view opens, e.g. the one last on screen
+  initialSceneId: string | null;
+  onViewScene: (sceneId: string) => void;
+  onForkScene: (sceneId: string) => void;
+  onExtendScene: (sceneId: string) => void;
+  onClose: () => void;
+}
+
+const originStyles: Record<SceneOrigin, string> = {
+  [SceneOrigin.ORIGINAL]: 'bg-gray-700 text-gray-300',
+  [SceneOrigin.EXTENSION]: 'bg-blue-600/30 text-blue-300',
+  [SceneOrigin.RETRY]: 'bg-amber-600/30 text-amber-300',
+  [SceneOrigin.ITERATION]: 'bg-purple-600/30 text-purple-300',
+};
+
+const getSceneTitle = (scene: Scene) =>
+  scene.title || scene.prompt || 'Untitled Scene';
+
+const LineageView: React.FC<LineageViewProps> = ({
+  scenes,
+  initialSceneId,
+  onViewScene,
+  onForkScene,
+  onExtendScene,
+  onClose,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(
+    initialSceneId ?? scenes[0]?.id ?? null,
+  );
+
+  const forest = useMemo(() => buildLineageForest(scenes), [scenes]);
+  const selected = scenes.find((s) => s.id === selectedId) ?? null;
+  const ancestry = useMemo(
+    () => (selectedId ? getAncestry(scenes, selectedId) : []),
+    [scenes, selectedId],
+  );
+
+  const renderBranch = (node: LineageNode): React.ReactNode => {
+    const {scene} = node;
+    const {origin} = getLineage(scene);
+    const isSelected = scene.id === selectedId;
+    return (
+      <li key={scene.id}>
+        <button
+          type="button"
+          onClick={() => setSelectedId(scene.id)}
+          className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left ${
+            isSelected ? 'bg-indigo-600/20 ring-1 ring-indigo-500' : 'hover:bg-gray-800'
+          }`}>
+          <span
+            className={`shrink-0 w-20 text-center text-[10px] uppercase tracking-wide font-semibold px-2 py-0.5 rounded-full ${originStyles[origin]}`}>
+            {SCENE_ORIGIN_LABELS[origin]}
+          </span>
+          <span className="flex-grow min-w-0 text-xs text-gray-300 truncate">
+            {getSceneTitle(scene)}
+          </span>
+          <span className="shrink-0 text-[10px] text-gray-500">
+            {scene.params.mode}
+          </span>
+        </button>
+        {node.children.length > 0 && (
+          <ul className="ml-4 pl-2 border-l border-gray-700 flex flex-col gap-0.5">
+            {node.children.map(renderBranch)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold text-gray-200">Scene Lineage</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1.5 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white"
+          aria-label="Close lineage view">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {scenes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Generate a video to start a lineage.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ul className="flex flex-col gap-0.5 p-3 bg-[#1f1f1f] border border-gray-700 rounded-xl max-h-[60vh] overflow-y-auto">
+            {forest.map(renderBranch)}
+          </ul>
+
+          {selected && (
+            <div className="flex flex-col gap-3 p-3 bg-[#1f1f1f] border border-gray-700 rounded-xl">
+              <nav className="flex flex-wrap items-center gap-1 text-xs text-gray-400">
+                {ancestry.map((scene, index) => (
+                  <React.Fragment key={scene.id}>
+                    {index > 0 && (
+                      <ChevronRightIcon className="w-3 h-3 text-gray-600" />
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(scene.id)}
+                      className={`max-w-[10rem] truncate hover:text-white ${
+                        scene.id === selected.id ? 'text-gray-200' : ''
+                      }`}>
+                      {getSceneTitle(scene)}
+                    </button>
+                  </React.Fragment>
+                ))}
+              </nav>
+              <video
+                key={selected.id}
+                src={selected.url}
+                controls
+                playsInline
+                className="w-full aspect-video bg-black rounded-lg object-contain"
+              />
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                <dt className="text-gray-500">Made by</dt>
+                <dd className="text-gray-300">
+                  {SCENE_ORIGIN_LABELS[getLineage(selected).origin]}
+                </dd>
+                <dt className="text-gray-500">Mode</dt>
+                <dd className="text-gray-300">{selected.params.mode}</dd>
+                <dt className="text-gray-500">Model</dt>
+                <dd className="text-gray-300">{selected.params.model}</dd>
+                <dt className="text-gray-500">Format</dt>
+                <dd className="text-gray-300">
+                  {selected.params.aspectRatio}, {selected.params.resolution}
+                </dd>
+                <dt className="text-gray-500">Created</dt>
+                <dd className="text-gray-300">
+                  {new Date(selected.timestamp).toLocaleString()}
+                </dd>
+                <dt className="text-gray-500">Prompt</dt>
+                <dd className="text-gray-300 whitespace-pre-wrap">
+                  {selected.prompt || '—'}
+                </dd>
+              </dl>
+              <div className="flex flex-wrap gap-2 pt-1">
+                <button
+                  type="button"
+                  onClick={() => onViewScene(selected.id)}
+                  className="flex items-center gap-1.5 px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-lg transition-colors">
+                  <PlayIcon className="w-4 h-4" />
+                  Open
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onForkScene(selected.id)}
+                  className="flex items-center gap-1.5 px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors"
+                  title="Edit this scene's settings and generate a new branch">
+                  <PencilIcon className="w-4 h-4" />
+                  Fork
+                </button>
+                {selected.params.resolution === Resolution.P720 && (
+                  <button
+                    type="button"
+                    onClick={() => onExtendScene(selected.id)}
+                    className="flex items-center gap-1.5 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors">
+                    <SparklesIcon className="w-4 h-4" />
+                    Extend
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineageView;
@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
+import { GenerationProgress, GenerationStage } from '../types';
+import { formatBytes, formatDuration } from '../utils/formatUtils';
 
 const loadingMessages = [
   "Warming up the digital director...",
@@ -26,8 +28,73 @@ const loadingMessages = [
   "Starting a draft for your oscar speech..."
 ];
 
-const LoadingIndicator: React.FC = () => {
+interface LoadingIndicatorProps {
+  progress?: GenerationProgress;
+  // When the job started running. Drives the elapsed timer between events.
+  startedAt?: number;
+  // Typical duration for this model and resolution, if known.
+  estimatedDurationMs?: number | null;
+  onCancel?: () => void;
+}
+
+// Share of the bar reserved for each phase. Rendering dominates the wait.
+const SUBMIT_SHARE = 0.05;
+const RENDER_SHARE = 0.85;
+
+const getProgressFraction = (
+  progress: GenerationProgress | undefined,
+  elapsedMs: number,
+  estimatedDurationMs: number | null | undefined,
+): number => {
+  if (!progress) return 0;
+  switch (progress.stage) {
+    case GenerationStage.SUBMITTING:
+      return SUBMIT_SHARE / 2;
+    case GenerationStage.SUBMITTED:
+      return SUBMIT_SHARE;
+    case GenerationStage.POLLING: {
+      const rendered = estimatedDurationMs
+        ? elapsedMs / estimatedDurationMs
+        : (progress.attempt ?? 0) / (progress.maxAttempts ?? 1);
+      // Never claim to be done before the video actually arrives
+      return SUBMIT_SHARE + RENDER_SHARE * Math.min(rendered, 0.98);
+    }
+    case GenerationStage.DOWNLOADING: {
+      const downloadShare = 1 - SUBMIT_SHARE - RENDER_SHARE;
+      const downloaded = progress.totalBytes
+        ? (progress.loadedBytes ?? 0) / progress.totalBytes
+        : 0.5;
+      return SUBMIT_SHARE + RENDER_SHARE + downloadShare * downloaded;
+    }
+  }
+};
+
+const describeStage = (progress: GenerationProgress | undefined): string => {
+  if (!progress) return 'Waiting for a free slot in the queue...';
+  switch (progress.stage) {
+    case GenerationStage.SUBMITTING:
+      return 'Submitting your request...';
+    case GenerationStage.SUBMITTED:
+      return 'Request accepted. Rendering has started.';
+    case GenerationStage.POLLING:
+      return `Rendering (status check ${progress.attempt} of ${progress.maxAttempts})`;
+    case GenerationStage.DOWNLOADING: {
+      const loaded = formatBytes(progress.loadedBytes ?? 0);
+      return progress.totalBytes
+        ? `Downloading ${loaded} of ${formatBytes(progress.totalBytes)}`
+        : `Downloading ${loaded}`;
+    }
+  }
+};
+
+const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({
+  progress,
+  startedAt,
+  estimatedDurationMs,
+  onCancel,
+}) => {
   const [messageIndex, setMessageIndex] = useState(0);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     const intervalId = setInterval(() => {
@@ -37,13 +104,65 @@ const LoadingIndicator: React.FC = () => {
     return () => clearInterval(intervalId);
   }, []);
 
+  // Progress events only arrive every few seconds, so the timer ticks locally
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const elapsedMs = startedAt ? now - startedAt : progress?.elapsedMs ?? 0;
+  const percent = Math.round(
+    getProgressFraction(progress, elapsedMs, estimatedDurationMs) * 100,
+  );
+
+  let etaText = 'No estimate yet for this model and resolution.';
+  if (progress?.stage === GenerationStage.DOWNLOADING) {
+    etaText = 'Almost there...';
+  } else if (estimatedDurationMs) {
+    const remainingMs = estimatedDurationMs - elapsedMs;
+    etaText =
+      remainingMs > 0
+        ? `About ${formatDuration(remainingMs)} remaining`
+        : 'Taking a little longer than usual...';
+  }
+
   return (
-    <div className="flex flex-col items-center justify-center p-12 bg-gray-800/50 rounded-lg border border-gray-700">
+    <div className="flex flex-col items-center justify-center p-12 bg-gray-800/50 rounded-lg border border-gray-700 w-full max-w-lg">
       <div className="w-16 h-16 border-4 border-t-transparent border-indigo-500 rounded-full animate-spin"></div>
       <h2 className="text-2xl font-semibold mt-8 text-gray-200">Generating Your Video</h2>
-      <p className="mt-2 text-gray-400 text-center transition-opacity duration-500">
+
+      <div className="w-full mt-6">
+        <div className="flex justify-between text-xs text-gray-400 mb-1.5">
+          <span>{describeStage(progress)}</span>
+          <span className="tabular-nums">{percent}%</span>
+        </div>
+        <div
+          className="w-full h-2 bg-gray-700 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}>
+          <div
+            className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-1000 ease-linear"
+            style={{width: `${percent}%`}}
+          />
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1.5 tabular-nums">
+          <span>Elapsed {formatDuration(elapsedMs)}</span>
+          <span>{etaText}</span>
+        </div>
+      </div>
+
+      <p className="mt-6 text-sm text-gray-500 text-center transition-opacity duration-500">
         {loadingMessages[messageIndex]}
       </p>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-8 px-5 py-2 text-sm font-medium text-red-300 border border-red-500/40 rounded-lg hover:bg-red-500/10 hover:text-red-200 transition-colors">
+          Cancel Generation
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {Character} from '../types';
+import {getCharacterReferences} from '../utils/characters';
+import {
+  getMentionHandle,
+  getMentionQuery,
+  insertMention,
+  segmentMentions,
+  suggestMentions,
+} from '../utils/mentions';
+import ImagePreview from './ImagePreview';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  characters: Character[];
+  placeholder?: string;
+}
+
+// Shared by the textarea and the highlight layer behind it, so the
+// highlights line up with the text.
+const textClassName = 'text-base py-2 whitespace-pre-wrap break-words';
+
+/**
+ * Prompt textarea with @mention autocomplete for characters. Mentions are
+ * highlighted in place: known characters in indigo, unknown names in amber.
+ */
+const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  value,
+  onChange,
+  characters,
+  placeholder,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  // Where to put the caret once a completed mention has rendered
+  const pendingCaretRef = useRef<number | null>(null);
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const query = getMentionQuery(value, caret);
+  const suggestions = useMemo(
+    () => (query ? suggestMentions(query.query, characters) : []),
+    [query?.query, characters],
+  );
+  const isOpen = Boolean(query) && !isDismissed && suggestions.length > 0;
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+    if (pendingCaretRef.current !== null) {
+      textarea.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current);
+      setCaret(pendingCaretRef.current);
+      pendingCaretRef.current = null;
+    }
+  }, [value]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query?.start, query?.query]);
+
+  const complete = (character: Character) => {
+    if (!query) return;
+    const completed = insertMention(value, query.start, caret, character);
+    pendingCaretRef.current = completed.caret;
+    onChange(completed.text);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const offset = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(
+        (index) => (index + offset + suggestions.length) % suggestions.length,
+      );
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      complete(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative flex-grow min-w-0">
+      <div
+        ref={backdropRef}
+        aria-hidden="true"
+        className={`absolute inset-0 overflow-hidden text-transparent pointer-events-none ${textClassName}`}>
+        {segmentMentions(value, characters).map((segment, index) =>
+          segment.character === undefined ? (
+            <React.Fragment key={index}>{segment.text}</React.Fragment>
+          ) : (
+            <mark
+              key={index}
+              className={`text-transparent rounded ${
+                segment.character ? 'bg-indigo-500/30' : 'bg-amber-500/30'
+              }`}>
+              {segment.text}
+            </mark>
+          ),
+        )}
+        {/* Keeps a trailing newline from collapsing */}
+        {'\u200b'}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setIsDismissed(false);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          if (backdropRef.current) {
+            backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }
+        }}
+        onBlur={() => setIsDismissed(true)}
+        onFocus={() => setIsDismissed(false)}
+        placeholder={placeholder}
+        className={`relative w-full block bg-transparent focus:outline-none resize-none text-gray-200 placeholder-gray-500 max-h-48 ${textClassName}`}
+        rows={1}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+        aria-controls="mention-suggestions"
+      />
+      {isOpen && (
+        <ul
+          id="mention-suggestions"
+          role="listbox"
+          className="absolute bottom-full left-0 mb-3 w-64 z-20 bg-[#2c2c2e] border border-gray-600 rounded-xl shadow-2xl overflow-hidden">
+          {suggestions.map((character, index) => {
+            const [thumbnail] = getCharacterReferences(character);
+            return (
+              <li
+                key={character.id}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keeps focus in the textarea so the caret survives
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  complete(character);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${
+                  index === activeIndex ? 'bg-indigo-600/30' : ''
+                }`}>
+                <div className="shrink-0 w-7 h-7 rounded-full bg-gray-700 overflow-hidden">
+                  {thumbnail ? (
+                    <ImagePreview
+                      image={thumbnail.image}
+                      alt={character.name}
+                      className="w-full h-full"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center bg-indigo-900/30 text-indigo-300 text-xs font-bold">
+                      {character.name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-200 truncate">{character.name}</p>
+                  <p className="text-[11px] text-gray-500 truncate">
+                    @{getMentionHandle(character.name)}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {Preset, PresetIcon} from '../types';
+import {MODEL_LABELS} from '../utils/formatUtils';
+import {countPresetImages, DEFAULT_PRESET_CATEGORY} from '../utils/presets';
+import {BookmarkPlusIcon} from './icons';
+import PresetIconView from './PresetIconView';
+
+interface PresetEditorProps {
+  preset: Preset;
+  // Existing categories, offered as suggestions
+  categories: string[];
+  isNew: boolean;
+  onSave: (preset: Preset) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full bg-[#2c2c2e] border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none';
+
+const describeSettings = (preset: Preset) => {
+  const {params} = preset;
+  const images = countPresetImages(preset);
+  return [
+    params.mode,
+    MODEL_LABELS[params.model],
+    params.aspectRatio,
+    params.resolution,
+    params.isLooping && 'looping',
+    images > 0 && `${images} image${images === 1 ? '' : 's'}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+/** Names a preset and files it under a category. */
+const PresetEditor: React.FC<PresetEditorProps> = ({
+  preset,
+  categories,
+  isNew,
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState(preset.name);
+  const [description, setDescription] = useState(preset.description);
+  const [category, setCategory] = useState(preset.category);
+  const [icon, setIcon] = useState(preset.icon);
+  const [prompt, setPrompt] = useState(preset.params.prompt);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({
+      ...preset,
+      name: name.trim(),
+      description: description.trim(),
+      category: category.trim() || DEFAULT_PRESET_CATEGORY,
+      icon,
+      params: {...preset.params, prompt},
+      updatedAt: Date.now(),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1c1c1e] w-full max-w-lg rounded-2xl border border-gray-700 shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-4 border-b border-gray-700 bg-[#2c2c2e]">
+          <h2 className="text-xl font-bold text-gray-200 flex items-center gap-2">
+            <BookmarkPlusIcon className="w-5 h-5 text-indigo-400" />
+            {isNew ? 'Save as Preset' : 'Edit Preset'}
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">{describeSettings(preset)}</p>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Moody product shot"
+                className={inputClassName}
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">
+                Category
+              </label>
+              <input
+                type="text"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder={DEFAULT_PRESET_CATEGORY}
+                list="preset-categories"
+                className={inputClassName}
+              />
+              <datalist id="preset-categories">
+                {categories.map((c) => (
+                  <option key={c} value={c} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">
+              Description
+            </label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Shown on the preset card (optional)"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">
+              Prompt
+            </label>
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              rows={3}
+              className={`${inputClassName} resize-none`}
+            />
+          </div>
+          <div>
+            <h3 className="text-xs font-medium text-gray-400 mb-2">Icon</h3>
+            <div className="flex gap-2">
+              {Object.values(PresetIcon).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setIcon(option)}
+                  className={`p-2 rounded-lg border transition-colors ${
+                    option === icon
+                      ? 'border-indigo-500 bg-indigo-500/10'
+                      : 'border-gray-700 hover:border-gray-500'
+                  }`}
+                  aria-label={option}
+                  aria-pressed={option === icon}>
+                  <PresetIconView icon={option} className="w-5 h-5" />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-gray-700">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Save Preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetEditor;
@@ -1,109 +1,107 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, {useRef, useState} from 'react';
+import {Preset} from '../types';
+import {downloadBlob, takePickedFile} from '../utils/fileUtils';
 import {
-  AspectRatio,
-  GenerateVideoParams,
-  GenerationMode,
-  Resolution,
-  VeoModel,
-} from '../types';
+  createPresetBundle,
+  dedupePresetNames,
+  parsePresetBundle,
+} from '../utils/presetBundle';
+import {getPresetCategories} from '../utils/presets';
 import {
-  BuildingIcon,
-  MountainIcon,
-  PaletteIcon,
-  SmileIcon,
+  DownloadIcon,
+  PencilIcon,
+  TrashIcon,
+  UploadIcon,
 } from './icons';
+import PresetIconView from './PresetIconView';
 
-interface Preset {
-  id: string;
-  title: string;
-  description: string;
-  icon: React.ReactNode;
-  params: Partial<GenerateVideoParams>;
+interface PresetGalleryProps {
+  presets: Preset[];
+  onSelect: (preset: Preset) => void;
+  onSavePreset: (preset: Preset) => void;
+  onEditPreset: (preset: Preset) => void;
+  onDeletePreset: (id: string) => void;
 }
 
-const presets: Preset[] = [
-  {
-    id: 'nature',
-    title: 'Cinematic Nature',
-    description: 'Majestic landscapes with photorealistic lighting',
-    icon: <MountainIcon className="w-6 h-6 text-emerald-400" />,
-    params: {
-      prompt:
-        'Aerial drone shot of a majestic waterfall in Iceland, mossy green cliffs, overcast dramatic sky, cinematic 4k.',
-      model: VeoModel.VEO,
-      aspectRatio: AspectRatio.LANDSCAPE,
-    },
-  },
-  {
-    id: 'city',
-    title: 'Cyberpunk City',
-    description: 'Futuristic urban vibes with neon aesthetics',
-    icon: <BuildingIcon className="w-6 h-6 text-purple-400" />,
-    params: {
-      prompt:
-        'Cyberpunk street level view, neon signs reflecting in rain puddles, steam rising from vents, futuristic cars, night time.',
-      model: VeoModel.VEO_FAST,
-      aspectRatio: AspectRatio.LANDSCAPE,
-    },
-  },
-  {
-    id: 'character',
-    title: '3D Character',
-    description: 'Cute animated characters in studio quality',
-    icon: <SmileIcon className="w-6 h-6 text-yellow-400" />,
-    params: {
-      prompt:
-        'A cute fluffy robot with big glowing eyes holding a flower, pixar style, studio lighting, 3d render, high detail.',
-      model: VeoModel.VEO_FAST,
-      aspectRatio: AspectRatio.PORTRAIT,
-    },
-  },
-  {
-    id: 'abstract',
-    title: 'Fluid Abstract',
-    description: 'Mesmerizing colors and liquid motion',
-    icon: <PaletteIcon className="w-6 h-6 text-pink-400" />,
-    params: {
-      prompt:
-        'Swirling colorful ink in water, macro shot, slow motion, vibrant red and blue colors mixing, artistic abstract background.',
-      model: VeoModel.VEO_FAST,
-      aspectRatio: AspectRatio.LANDSCAPE,
-    },
-  },
-];
+const toolbarButtonClassName =
+  'flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded-lg transition-colors';
 
-interface PresetGalleryProps {
-  onSelect: (params: GenerateVideoParams) => void;
-}
+const PresetGallery: React.FC<PresetGalleryProps> = ({
+  presets,
+  onSelect,
+  onSavePreset,
+  onEditPreset,
+  onDeletePreset,
+}) => {
+  // null shows every category
+  const [category, setCategory] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const categories = getPresetCategories(presets);
+  const activeCategory =
+    category && categories.includes(category) ? category : null;
+  const visible = activeCategory
+    ? presets.filter((preset) => preset.category === activeCategory)
+    : presets;
 
-const PresetGallery: React.FC<PresetGalleryProps> = ({onSelect}) => {
-  const handleSelect = (preset: Preset) => {
-    const fullParams: GenerateVideoParams = {
-      prompt: preset.params.prompt || '',
-      model: preset.params.model || VeoModel.VEO_FAST,
-      aspectRatio: preset.params.aspectRatio || AspectRatio.LANDSCAPE,
-      resolution: Resolution.P720,
-      mode: GenerationMode.TEXT_TO_VIDEO,
-      startFrame: null,
-      endFrame: null,
-      referenceImages: [],
-      styleImage: null,
-      inputVideo: null,
-      inputVideoObject: null,
-      isLooping: false,
-      ...preset.params,
-    };
-    onSelect(fullParams);
+  const handleExport = () => {
+    if (visible.length === 0) return;
+    const blob = new Blob([JSON.stringify(createPresetBundle(visible))], {
+      type: 'application/json',
+    });
+    const baseName = activeCategory
+      ? activeCategory.replace(/[^\w\- ]+/g, '').trim() || 'presets'
+      : 'presets';
+    downloadBlob(blob, `${baseName}.json`);
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = takePickedFile(e.target);
+    if (!file) return;
+    setImportMessage(null);
+    try {
+      const incoming = parsePresetBundle(JSON.parse(await file.text()));
+      if (incoming.length === 0) {
+        setImportMessage({text: 'The bundle has no presets.', isError: true});
+        return;
+      }
+      dedupePresetNames(incoming, presets).forEach(onSavePreset);
+      setImportMessage({
+        text: `Imported ${incoming.length} preset${incoming.length === 1 ? '' : 's'}.`,
+        isError: false,
+      });
+    } catch (error) {
+      console.error('Failed to import presets:', error);
+      setImportMessage({
+        text:
+          error instanceof SyntaxError
+            ? 'This file is not valid JSON.'
+            : error instanceof Error
+              ? error.message
+              : 'The presets could not be imported.',
+        isError: true,
+      });
+    }
+  };
+
+  const categoryButtonClassName = (active: boolean) =>
+    `px-3 py-1 text-xs rounded-full border transition-colors ${
+      active
+        ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-200'
+        : 'border-gray-700 text-gray-400 hover:text-gray-200 hover:border-gray-500'
+    }`;
+
   return (
     <div className="w-full max-w-3xl mx-auto py-8 px-4">
-      <div className="text-center mb-8">
+      <div className="text-center mb-6">
         <h2 className="text-3xl font-semibold text-gray-200 mb-2">
           Start with a Preset
         </h2>
@@ -111,26 +109,114 @@ const PresetGallery: React.FC<PresetGalleryProps> = ({onSelect}) => {
           Choose a style below or describe your own vision
         </p>
       </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {presets.map((preset) => (
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex flex-wrap gap-2">
+          {categories.length > 1 && (
+            <>
+              <button
+                onClick={() => setCategory(null)}
+                className={categoryButtonClassName(activeCategory === null)}>
+                All
+              </button>
+              {categories.map((c) => (
+                <button
+                  key={c}
+                  onClick={() => setCategory(c)}
+                  className={categoryButtonClassName(activeCategory === c)}>
+                  {c}
+                </button>
+              ))}
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
           <button
-            key={preset.id}
-            onClick={() => handleSelect(preset)}
-            className="flex items-start gap-4 p-4 bg-gray-800/50 hover:bg-gray-800 border border-gray-700 hover:border-indigo-500/50 rounded-xl transition-all duration-200 group text-left">
-            <div className="p-3 bg-gray-700/50 rounded-lg group-hover:bg-gray-700 transition-colors">
-              {preset.icon}
-            </div>
-            <div>
-              <h3 className="font-medium text-gray-200 group-hover:text-indigo-400 transition-colors">
-                {preset.title}
-              </h3>
-              <p className="text-sm text-gray-500 mt-1 line-clamp-2">
-                {preset.description}
-              </p>
-            </div>
+            onClick={() => importInputRef.current?.click()}
+            className={toolbarButtonClassName}
+            title="Import presets from a bundle file">
+            <UploadIcon className="w-4 h-4" />
+            Import
           </button>
-        ))}
+          <input
+            type="file"
+            accept="application/json,.json"
+            ref={importInputRef}
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <button
+            onClick={handleExport}
+            disabled={visible.length === 0}
+            className={`${toolbarButtonClassName} disabled:opacity-50 disabled:cursor-not-allowed`}
+            title={
+              activeCategory
+                ? `Export the presets in ${activeCategory}`
+                : 'Export every preset'
+            }>
+            <DownloadIcon className="w-4 h-4" />
+            Export
+          </button>
+        </div>
       </div>
+
+      {importMessage && (
+        <p
+          className={`mb-4 text-xs ${
+            importMessage.isError ? 'text-red-400' : 'text-emerald-400'
+          }`}
+          role={importMessage.isError ? 'alert' : 'status'}>
+          {importMessage.text}
+        </p>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 py-8">
+          No presets yet. Save the form as a preset with the bookmark button
+          next to the prompt.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {visible.map((preset) => (
+            <div key={preset.id} className="relative group">
+              <button
+                onClick={() => onSelect(preset)}
+                className="w-full h-full flex items-start gap-4 p-4 pr-20 bg-gray-800/50 hover:bg-gray-800 border border-gray-700 hover:border-indigo-500/50 rounded-xl transition-all duration-200 text-left">
+                <div className="p-3 bg-gray-700/50 rounded-lg group-hover:bg-gray-700 transition-colors">
+                  <PresetIconView icon={preset.icon} />
+                </div>
+                <div className="min-w-0">
+                  <h3 className="font-medium text-gray-200 group-hover:text-indigo-400 transition-colors truncate">
+                    {preset.name}
+                  </h3>
+                  <p className="text-sm text-gray-500 mt-1 line-clamp-2">
+                    {preset.description || preset.params.prompt}
+                  </p>
+                  {activeCategory === null && categories.length > 1 && (
+                    <p className="text-[11px] text-gray-600 mt-1">
+                      {preset.category}
+                    </p>
+                  )}
+                </div>
+              </button>
+              <div className="absolute top-3 right-3 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button
+                  onClick={() => onEditPreset(preset)}
+                  className="p-1.5 text-gray-500 hover:text-indigo-300 hover:bg-indigo-400/10 rounded-lg transition-colors"
+                  title="Edit">
+                  <PencilIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onDeletePreset(preset.id)}
+                  className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                  title="Delete">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {PresetIcon} from '../types';
+import {
+  BuildingIcon,
+  FilmIcon,
+  MountainIcon,
+  PaletteIcon,
+  SmileIcon,
+  SparklesIcon,
+} from './icons';
+
+const icons: Record<
+  PresetIcon,
+  {Icon: React.FC<React.SVGProps<SVGSVGElement>>; color: string}
+> = {
+  [PresetIcon.MOUNTAIN]: {Icon: MountainIcon, color: 'text-emerald-400'},
+  [PresetIcon.BUILDING]: {Icon: BuildingIcon, color: 'text-purple-400'},
+  [PresetIcon.SMILE]: {Icon: SmileIcon, color: 'text-yellow-400'},
+  [PresetIcon.PALETTE]: {Icon: PaletteIcon, color: 'text-pink-400'},
+  [PresetIcon.FILM]: {Icon: FilmIcon, color: 'text-sky-400'},
+  [PresetIcon.SPARKLES]: {Icon: SparklesIcon, color: 'text-indigo-400'},
+};
+
+interface PresetIconViewProps {
+  icon: PresetIcon;
+  className?: string;
+}
+
+const PresetIconView: React.FC<PresetIconViewProps> = ({
+  icon,
+  className = 'w-6 h-6',
+}) => {
+  const {Icon, color} = icons[icon] ?? icons[PresetIcon.SPARKLES];
+  return <Icon className={`${className} ${color}`} />;
+};
+
+export default PresetIconView;
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {takePickedFile} from '../utils/fileUtils';
+import {DownloadIcon, UploadIcon} from './icons';
+
+interface ProjectControlsProps {
+  onSave: () => Promise<void>;
+  onOpen: (file: File) => Promise<void>;
+}
+
+const buttonClassName =
+  'flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-wait';
+
+/** Saves the whole workspace to a project file, or opens one. */
+const ProjectControls: React.FC<ProjectControlsProps> = ({onSave, onOpen}) => {
+  const [busy, setBusy] = useState<'saving' | 'opening' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = async () => {
+    setBusy('saving');
+    setError(null);
+    try {
+      await onSave();
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      setError('The project could not be saved.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = takePickedFile(e.target);
+    if (!file) return;
+    setBusy('opening');
+    setError(null);
+    try {
+      await onOpen(file);
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      setError(
+        error instanceof SyntaxError
+          ? 'This file is not valid JSON.'
+          : error instanceof Error
+            ? error.message
+            : 'The project could not be opened.',
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={busy !== null}
+          className={buttonClassName}
+          title="Open a project file. Its items are added to your library.">
+          <UploadIcon className="w-4 h-4" />
+          {busy === 'opening' ? 'Opening...' : 'Open'}
+        </button>
+        <input
+          type="file"
+          accept="application/json,.json"
+          ref={inputRef}
+          onChange={handleFile}
+          className="hidden"
+        />
+        <button
+          onClick={handleSave}
+          disabled={busy !== null}
+          className={buttonClassName}
+          title="Save scenes, characters, sequences, storyboards and presets to one file">
+          <DownloadIcon className="w-4 h-4" />
+          {busy === 'saving' ? 'Saving...' : 'Save Project'}
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-red-400 max-w-xs text-right" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectControls;
@@ -5,51 +5,120 @@
 */
 import {Video} from '@google/genai';
 import React, {useCallback, useEffect, useRef, useState} from 'react';
-import {enhancePrompt} from '../services/geminiService';
+import {
+  enhancePrompt,
+  suggestPromptFromImages,
+} from '../services/geminiService';
 import {
   AspectRatio,
+  CastMember,
   Character,
+  ChipSet,
+  EnhancementCandidate,
   GenerateVideoParams,
   GenerationMode,
   ImageFile,
   Resolution,
   Scene,
+  SceneLineage,
+  SceneOrigin,
   VeoModel,
   VideoFile,
 } from '../types';
+import {
+  applyCast,
+  collectCast,
+  resolveCast,
+  selectCastReferences,
+} from '../utils/characters';
+import {appendKeyword} from '../utils/chipSets';
+import {getEnhancementContext} from '../utils/enhancement';
+import {collectPromptImages, getPromptImagesKey} from '../utils/imagePrompt';
+import {resolveMentions} from '../utils/mentions';
+import {
+  expandTemplate,
+  findTemplateVariables,
+  getTemplateError,
+} from '../utils/promptTemplate';
+import {
+  IssueKind,
+  MAX_REFERENCE_IMAGES,
+  ValidatedField,
+  validateVideoParams,
+} from '../utils/validation';
 import AdvancedSettings from './AdvancedSettings';
 import CharacterManager from './CharacterManager';
+import ChipLibraryEditor from './ChipLibraryEditor';
+import EnhancementPanel from './EnhancementPanel';
+import ImagePreview from './ImagePreview';
+import ImagePromptSuggestion from './ImagePromptSuggestion';
 import ImageUpload from './ImageUpload';
+import MentionTextarea from './MentionTextarea';
 import ModeSelector from './ModeSelector';
 import SceneStrip from './SceneStrip';
 import SuggestionChips from './SuggestionChips';
+import TemplateVariablesForm from './TemplateVariablesForm';
 import VideoUpload from './VideoUpload';
 import {
   ArrowRightIcon,
+  BookmarkPlusIcon,
   SlidersHorizontalIcon,
   SparklesIcon,
+  StoryboardIcon,
   UsersIcon,
   WandIcon,
+  XMarkIcon,
 } from './icons';
 
 interface PromptFormProps {
   onGenerate: (params: GenerateVideoParams) => void;
+  // Queues the expansions of a prompt template, in order
+  onGenerateBatch: (params: GenerateVideoParams[]) => void;
   initialValues?: GenerateVideoParams | null;
   scenes: Scene[];
+  onDeleteScene: (id: string) => void;
+  onRenameScene: (id: string, title: string) => void;
+  onOpenTimeline: () => void;
+  onOpenLineage: () => void;
+  onOpenStoryboard: () => void;
+  onSaveAsPreset: (params: GenerateVideoParams) => void;
   characters: Character[];
-  onAddCharacter: (char: Character) => void;
+  onSaveCharacter: (char: Character) => void;
   onDeleteCharacter: (id: string) => void;
+  onRenameCharacter: (id: string, name: string) => void;
+  chipSets: ChipSet[];
+  // Category of the preset the form was opened with, for its chip sets
+  presetCategory: string | null;
+  presetCategories: string[];
+  onSaveChipSet: (chipSet: ChipSet) => void;
+  onDeleteChipSet: (id: string) => void;
 }
 
 const PromptForm: React.FC<PromptFormProps> = ({
   onGenerate,
+  onGenerateBatch,
   initialValues,
   scenes,
+  onDeleteScene,
+  onRenameScene,
+  onOpenTimeline,
+  onOpenLineage,
+  onOpenStoryboard,
+  onSaveAsPreset,
   characters,
-  onAddCharacter,
+  onSaveCharacter,
   onDeleteCharacter,
+  onRenameCharacter,
+  chipSets,
+  presetCategory,
+  presetCategories,
+  onSaveChipSet,
+  onDeleteChipSet,
 }) => {
   const [prompt, setPrompt] = useState(initialValues?.prompt ?? '');
+  const [negativePrompt, setNegativePrompt] = useState(
+    initialValues?.negativePrompt ?? '',
+  );
   const [model, setModel] = useState<VeoModel>(
     initialValues?.model ?? VeoModel.VEO_FAST,
   );
@@ -81,7 +150,31 @@ const PromptForm: React.FC<PromptFormProps> = ({
     initialValues?.inputVideoObject ?? null,
   );
   const [isLooping, setIsLooping] = useState(initialValues?.isLooping ?? false);
+  // Not editable; follows the scene the form was opened from or extends.
+  const [lineage, setLineage] = useState<SceneLineage | null>(
+    initialValues?.lineage ?? null,
+  );
+  // Characters picked in the character panel, expanded at submit time
+  // along with @mentions
+  const [cast, setCast] = useState<CastMember[]>(initialValues?.cast ?? []);
+  // Values for the prompt's template variables, if it has any
+  const [templateValues, setTemplateValues] = useState<
+    Record<string, string[]>
+  >({});
   const [isEnhancing, setIsEnhancing] = useState(false);
+  // Rewrites offered for the prompt as it was when enhancing started
+  const [enhancement, setEnhancement] = useState<{
+    original: string;
+    candidates: EnhancementCandidate[];
+  } | null>(null);
+  const [enhanceError, setEnhanceError] = useState<string | null>(null);
+  // A prompt suggested from the attached images; open while loading too
+  const [isSuggestionOpen, setIsSuggestionOpen] = useState(false);
+  const [imageSuggestion, setImageSuggestion] = useState<string | null>(null);
+  const [isDescribing, setIsDescribing] = useState(false);
+  const [describeError, setDescribeError] = useState<string | null>(null);
+  // Lets only the latest suggestion request land
+  const describeRequestRef = useRef(0);
   
   // Debug logging for video object changes
   useEffect(() => {
@@ -90,12 +183,13 @@ const PromptForm: React.FC<PromptFormProps> = ({
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isCharacterManagerOpen, setIsCharacterManagerOpen] = useState(false);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isChipEditorOpen, setIsChipEditorOpen] = useState(false);
 
   // Sync state with initialValues prop when it changes
   useEffect(() => {
     if (initialValues) {
       setPrompt(initialValues.prompt ?? '');
+      setNegativePrompt(initialValues.negativePrompt ?? '');
       setModel(initialValues.model ?? VeoModel.VEO_FAST);
       setAspectRatio(initialValues.aspectRatio ?? AspectRatio.LANDSCAPE);
       setResolution(initialValues.resolution ?? Resolution.P720);
@@ -106,6 +200,8 @@ const PromptForm: React.FC<PromptFormProps> = ({
       setStyleImage(initialValues.styleImage ?? null);
       setInputVideo(initialValues.inputVideo ?? null);
       setIsLooping(initialValues.isLooping ?? false);
+      setLineage(initialValues.lineage ?? null);
+      setCast(initialValues.cast ?? []);
       
       // CRITICAL: Explicitly set the video object, even if it's the same reference
       // This ensures it's not lost during remounts
@@ -137,85 +233,148 @@ const PromptForm: React.FC<PromptFormProps> = ({
     }
   }, [generationMode]);
 
+  // Kept as typed; characters are expanded when the job runs
+  const params: GenerateVideoParams = {
+    prompt,
+    negativePrompt: negativePrompt.trim() || undefined,
+    model,
+    aspectRatio,
+    resolution,
+    mode: generationMode,
+    startFrame,
+    endFrame,
+    referenceImages,
+    styleImage,
+    inputVideo,
+    inputVideoObject,
+    isLooping,
+    lineage: lineage ?? undefined,
+    cast: cast.length > 0 ? cast : undefined,
+  };
+
+  const castParams = applyCast(params, characters);
+  const promptImages = collectPromptImages(castParams);
+  const promptImagesKey = getPromptImagesKey(promptImages);
+
+  const handleSuggestFromImages = async () => {
+    const requestId = ++describeRequestRef.current;
+    setIsSuggestionOpen(true);
+    setIsDescribing(true);
+    setImageSuggestion(null);
+    setDescribeError(null);
+    try {
+      const suggestion = await suggestPromptFromImages(
+        promptImages,
+        getEnhancementContext(castParams),
+      );
+      if (requestId !== describeRequestRef.current) return;
+      if (suggestion) {
+        setImageSuggestion(suggestion);
+      } else {
+        setDescribeError('No suggestion came back for these images.');
+      }
+    } catch (error) {
+      if (requestId !== describeRequestRef.current) return;
+      console.error('Failed to suggest a prompt from images', error);
+      setDescribeError('Could not suggest a prompt from these images.');
+    } finally {
+      if (requestId === describeRequestRef.current) setIsDescribing(false);
+    }
+  };
+
+  const closeImageSuggestion = () => {
+    describeRequestRef.current++;
+    setIsSuggestionOpen(false);
+    setIsDescribing(false);
+  };
+
+  // Attaching or swapping images suggests a prompt, unless one is written
   useEffect(() => {
-    const textarea = textareaRef.current;
-    if (textarea) {
-      textarea.style.height = 'auto';
-      textarea.style.height = `${textarea.scrollHeight}px`;
+    if (!promptImagesKey) {
+      closeImageSuggestion();
+    } else if (!prompt.trim()) {
+      handleSuggestFromImages();
     }
-  }, [prompt]);
+  }, [promptImagesKey]);
+
+  const handleInsertSuggestion = (suggestion: string) => {
+    setPrompt((prev) => (prev.trim() ? `${prev.trim()} ${suggestion}` : suggestion));
+    closeImageSuggestion();
+  };
+
+  const templateVariables = findTemplateVariables(prompt);
+  const templateError =
+    templateVariables.length > 0
+      ? getTemplateError(templateVariables, templateValues)
+      : null;
 
   const handleSubmit = useCallback(
     (e: React.FormEvent) => {
       e.preventDefault();
-      onGenerate({
-        prompt,
-        model,
-        aspectRatio,
-        resolution,
-        mode: generationMode,
-        startFrame,
-        endFrame,
-        referenceImages,
-        styleImage,
-        inputVideo,
-        inputVideoObject,
-        isLooping,
-      });
+      if (templateVariables.length === 0) {
+        onGenerate(params);
+        return;
+      }
+      onGenerateBatch(
+        expandTemplate(prompt, templateValues).map((expansion) => ({
+          ...params,
+          prompt: expansion.prompt,
+          templateValues: expansion.values,
+        })),
+      );
     },
     [
+      params,
       prompt,
-      model,
-      aspectRatio,
-      resolution,
-      generationMode,
-      startFrame,
-      endFrame,
-      referenceImages,
-      styleImage,
-      inputVideo,
-      inputVideoObject,
+      templateValues,
+      templateVariables.length,
       onGenerate,
-      isLooping,
+      onGenerateBatch,
     ],
   );
 
   const handleEnhance = async () => {
     if (!prompt.trim()) return;
     setIsEnhancing(true);
+    setEnhanceError(null);
+    setEnhancement(null);
     try {
-      const enhanced = await enhancePrompt(prompt);
-      setPrompt(enhanced);
+      const candidates = await enhancePrompt(
+        prompt,
+        getEnhancementContext(castParams),
+      );
+      if (candidates.length > 0) {
+        setEnhancement({original: prompt, candidates});
+      } else {
+        setEnhanceError('No rewrites came back for this prompt. Try again.');
+      }
     } catch (error) {
       console.error('Failed to enhance prompt', error);
+      setEnhanceError('Could not enhance the prompt. Try again.');
     } finally {
       setIsEnhancing(false);
     }
   };
 
   const addKeyword = (keyword: string) => {
-    setPrompt((prev) => {
-      const trimmed = prev.trim();
-      if (!trimmed) return keyword;
-      if (trimmed.toLowerCase().includes(keyword.toLowerCase())) return prev;
-      return `${trimmed}, ${keyword}`;
-    });
+    setPrompt((prev) => appendKeyword(prev, keyword));
   };
 
-  const handleCharacterSelect = (char: Character) => {
-    // Append character description to prompt
-    setPrompt((prev) => {
-      const trimmed = prev.trim();
-      const charDescription = `Character: ${char.name} (${char.description})`;
-      return trimmed ? `${trimmed}\n\n${charDescription}` : charDescription;
-    });
+  const addNegativeKeyword = (keyword: string) => {
+    setNegativePrompt((prev) => appendKeyword(prev, keyword));
+  };
 
-    if (char.avatar) {
-      setReferenceImages((prev) => [...prev, char.avatar!]);
-      
-      if (generationMode === GenerationMode.TEXT_TO_VIDEO) {
-         setGenerationMode(GenerationMode.REFERENCES_TO_VIDEO);
-      }
+  const handleCharacterSelect = (char: Character, wardrobeId?: string) => {
+    setCast((prev) => [
+      ...prev.filter((member) => member.characterId !== char.id),
+      {characterId: char.id, wardrobeId},
+    ]);
+
+    if (
+      (char.references?.length ?? 0) > 0 &&
+      generationMode === GenerationMode.TEXT_TO_VIDEO
+    ) {
+      setGenerationMode(GenerationMode.REFERENCES_TO_VIDEO);
     }
   };
 
@@ -236,6 +395,14 @@ const PromptForm: React.FC<PromptFormProps> = ({
     setInputVideo(null);
     setInputVideoObject(null);
     setIsLooping(false);
+    clearExtensionLineage();
+  };
+
+  // An extension stops being one once its input video is gone
+  const clearExtensionLineage = () => {
+    setLineage((prev) =>
+      prev?.origin === SceneOrigin.EXTENSION ? null : prev,
+    );
   };
 
   const handleSceneDrop = (sceneId: string) => {
@@ -247,6 +414,10 @@ const PromptForm: React.FC<PromptFormProps> = ({
       const videoFile = {file, base64: ''};
       setInputVideo(videoFile);
       setInputVideoObject(scene.videoObject);
+      setLineage({
+        origin: SceneOrigin.EXTENSION,
+        sourceSceneIds: [scene.id],
+      });
       
       if (generationMode !== GenerationMode.EXTEND_VIDEO) {
         setGenerationMode(GenerationMode.EXTEND_VIDEO);
@@ -264,6 +435,44 @@ const PromptForm: React.FC<PromptFormProps> = ({
       'Describe the specific actions and events that should happen next in the video extension (required)...',
   }[generationMode];
 
+  // Only the picked cast gets chips; mentions show in the prompt itself
+  const castMembers = resolveCast(cast, characters, prompt);
+  const allCastMembers = resolveCast(collectCast(params, characters), characters, prompt);
+  // The same selection applyCast makes, shown next to the manual references
+  const castReferences =
+    generationMode === GenerationMode.REFERENCES_TO_VIDEO ||
+    generationMode === GenerationMode.EXTEND_VIDEO
+      ? selectCastReferences(
+          allCastMembers,
+          prompt,
+          MAX_REFERENCE_IMAGES - referenceImages.length,
+        )
+      : [];
+  const unresolvedMentions = resolveMentions(prompt, characters).unresolved;
+
+  const renderCastReferences = () =>
+    castReferences.map(({characterId, reference}, index) => {
+      const name =
+        allCastMembers.find(({character}) => character.id === characterId)
+          ?.character.name ?? '';
+      return (
+        <div key={`cast-${reference.id}`} className="relative w-28 h-20">
+          <ImagePreview
+            image={reference.image}
+            alt={name}
+            className={`w-full h-full rounded-lg ${
+              isInvalid('referenceImages', referenceImages.length + index)
+                ? 'ring-2 ring-red-500'
+                : ''
+            }`}
+          />
+          <span className="absolute bottom-1 left-1 max-w-[6rem] truncate text-[10px] text-white bg-black/60 px-1.5 py-0.5 rounded">
+            {name}
+          </span>
+        </div>
+      );
+    });
+
   const renderMediaUploads = () => {
     if (generationMode === GenerationMode.FRAMES_TO_VIDEO) {
       return (
@@ -272,6 +481,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
             <ImageUpload
               label="Start Frame"
               image={startFrame}
+              invalid={isInvalid('startFrame')}
               onSelect={setStartFrame}
               onRemove={() => {
                 setStartFrame(null);
@@ -282,6 +492,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
               <ImageUpload
                 label="End Frame"
                 image={endFrame}
+                invalid={isInvalid('endFrame')}
                 onSelect={setEndFrame}
                 onRemove={() => setEndFrame(null)}
               />
@@ -314,13 +525,15 @@ const PromptForm: React.FC<PromptFormProps> = ({
               key={index}
               image={img}
               label=""
+              invalid={isInvalid('referenceImages', index)}
               onSelect={() => {}}
               onRemove={() =>
                 setReferenceImages((imgs) => imgs.filter((_, i) => i !== index))
               }
             />
           ))}
-          {referenceImages.length < 3 && (
+          {renderCastReferences()}
+          {referenceImages.length < MAX_REFERENCE_IMAGES && (
             <ImageUpload
               label="Add Reference"
               onSelect={(img) => setReferenceImages((imgs) => [...imgs, img])}
@@ -342,11 +555,15 @@ const PromptForm: React.FC<PromptFormProps> = ({
                 </>
               }
               video={inputVideo}
-              onSelect={setInputVideo}
+              onSelect={(video) => {
+                setInputVideo(video);
+                clearExtensionLineage();
+              }}
               onSceneSelect={handleSceneDrop}
               onRemove={() => {
                 setInputVideo(null);
                 setInputVideoObject(null);
+                clearExtensionLineage();
               }}
             />
           </div>
@@ -364,6 +581,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
                         </>
                       }
                       image={endFrame}
+                      invalid={isInvalid('endFrame')}
                       onSelect={setEndFrame}
                       onRemove={() => setEndFrame(null)}
                     />
@@ -382,13 +600,15 @@ const PromptForm: React.FC<PromptFormProps> = ({
                     key={`ref-${index}`}
                     image={img}
                     label=""
+                    invalid={isInvalid('referenceImages', index)}
                     onSelect={() => {}}
                     onRemove={() =>
                       setReferenceImages((imgs) => imgs.filter((_, i) => i !== index))
                     }
                   />
                 ))}
-                {referenceImages.length < 3 && (
+                {renderCastReferences()}
+                {referenceImages.length < MAX_REFERENCE_IMAGES && (
                   <ImageUpload
                     label={
                       <>
@@ -408,64 +628,20 @@ const PromptForm: React.FC<PromptFormProps> = ({
     return null;
   };
 
-  let isSubmitDisabled = false;
-  let tooltipText = '';
-
-  switch (generationMode) {
-    case GenerationMode.TEXT_TO_VIDEO:
-      isSubmitDisabled = !prompt.trim();
-      if (isSubmitDisabled) {
-        tooltipText = 'Please enter a prompt.';
-      }
-      break;
-    case GenerationMode.FRAMES_TO_VIDEO:
-      isSubmitDisabled = !startFrame;
-      if (isSubmitDisabled) {
-        tooltipText = 'A start frame is required.';
-      }
-      break;
-    case GenerationMode.REFERENCES_TO_VIDEO:
-      const hasNoRefs = referenceImages.length === 0;
-      const hasNoPrompt = !prompt.trim();
-      isSubmitDisabled = hasNoRefs || hasNoPrompt;
-      if (hasNoRefs && hasNoPrompt) {
-        tooltipText = 'Please add reference image(s) and enter a prompt.';
-      } else if (hasNoRefs) {
-        tooltipText = 'At least one reference image is required.';
-      } else if (hasNoPrompt) {
-        tooltipText = 'Please enter a prompt.';
-      }
-      break;
-    case GenerationMode.EXTEND_VIDEO:
-      // Extend requires an input video object AND a prompt
-      const hasInputFile = !!inputVideo;
-      const hasInputObject = !!inputVideoObject;
-      const hasNoExtendPrompt = !prompt.trim();
-      
-      if (generationMode === GenerationMode.EXTEND_VIDEO) {
-         console.log('Validating Extend Video Mode:', {
-            hasInputFile,
-            hasInputObject,
-            hasNoExtendPrompt
-         });
-      }
-      
-      // If we have the file but lost the object (manually uploaded or state lost), we are in an invalid state for extension.
-      isSubmitDisabled = !hasInputObject || hasNoExtendPrompt;
-      
-      if (isSubmitDisabled) {
-        if (!hasInputObject) {
-           if (hasInputFile) {
-               tooltipText = 'Video data lost. Please regenerate or re-select the scene from the gallery.';
-           } else {
-               tooltipText = 'An input video from a previous generation is required to extend.';
-           }
-        } else if (hasNoExtendPrompt) {
-           tooltipText = 'Please describe the next steps in the prompt.';
-        }
-      }
-      break;
-  }
+  const issues = validateVideoParams(castParams);
+  const isSubmitDisabled = issues.length > 0 || templateError !== null;
+  const tooltipText = [...issues.map((issue) => issue.message), templateError]
+    .filter(Boolean)
+    .join('\n');
+  // Missing inputs only show up in the tooltip; inputs the API would reject
+  // are called out right away.
+  const invalidIssues = issues.filter((issue) => issue.kind === IssueKind.INVALID);
+  const isInvalid = (field: ValidatedField, index?: number) =>
+    invalidIssues.some(
+      (issue) =>
+        issue.field === field &&
+        (issue.index === undefined || issue.index === index),
+    );
 
   return (
     <div className="relative w-full">
@@ -473,11 +649,22 @@ const PromptForm: React.FC<PromptFormProps> = ({
         isOpen={isCharacterManagerOpen}
         onClose={() => setIsCharacterManagerOpen(false)}
         characters={characters}
-        onAddCharacter={onAddCharacter}
+        onSaveCharacter={onSaveCharacter}
         onDeleteCharacter={onDeleteCharacter}
+        onRenameCharacter={onRenameCharacter}
         onSelectCharacter={handleCharacterSelect}
       />
 
+      {isChipEditorOpen && (
+        <ChipLibraryEditor
+          chipSets={chipSets}
+          categories={presetCategories}
+          onSave={onSaveChipSet}
+          onDelete={onDeleteChipSet}
+          onClose={() => setIsChipEditorOpen(false)}
+        />
+      )}
+
       <AdvancedSettings
         isOpen={isSettingsOpen}
         model={model}
@@ -487,21 +674,48 @@ const PromptForm: React.FC<PromptFormProps> = ({
         resolution={resolution}
         setResolution={setResolution}
         generationMode={generationMode}
+        resolutionError={
+          invalidIssues.find((issue) => issue.field === 'resolution')?.message
+        }
       />
 
       <form onSubmit={handleSubmit} className="w-full">
         {renderMediaUploads()}
+        {castMembers.length > 0 && (
+          <div className="mb-3 flex flex-wrap gap-2">
+            {castMembers.map(({character, wardrobe}) => (
+              <span
+                key={character.id}
+                className="flex items-center gap-1.5 pl-3 pr-1 py-1 text-xs bg-indigo-600/20 text-indigo-200 border border-indigo-500/30 rounded-full">
+                <UsersIcon className="w-3.5 h-3.5" />
+                {character.name}
+                {wardrobe && (
+                  <span className="text-indigo-300/70">· {wardrobe.name}</span>
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setCast((prev) =>
+                      prev.filter((member) => member.characterId !== character.id),
+                    )
+                  }
+                  className="p-0.5 rounded-full hover:bg-indigo-500/40"
+                  aria-label={`Remove ${character.name}`}>
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
         <div className="flex flex-col gap-3">
           <div className="flex items-end gap-2 bg-[#1f1f1f] border border-gray-600 rounded-2xl p-2 shadow-lg focus-within:ring-2 focus-within:ring-indigo-500">
             <ModeSelector currentMode={generationMode} onSelect={handleSelectMode} />
             
-            <textarea
-              ref={textareaRef}
+            <MentionTextarea
               value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
+              onChange={setPrompt}
+              characters={characters}
               placeholder={promptPlaceholder}
-              className="flex-grow bg-transparent focus:outline-none resize-none text-base text-gray-200 placeholder-gray-500 max-h-48 py-2"
-              rows={1}
             />
             {/* Enhance Button */}
             <button
@@ -523,6 +737,20 @@ const PromptForm: React.FC<PromptFormProps> = ({
               title="Character Control Panel">
               <UsersIcon className="w-5 h-5" />
             </button>
+            <button
+              type="button"
+              onClick={onOpenStoryboard}
+              className="p-2.5 rounded-full hover:bg-gray-700 text-gray-300"
+              title="Storyboard: turn a script into shots">
+              <StoryboardIcon className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onSaveAsPreset(params)}
+              className="p-2.5 rounded-full hover:bg-gray-700 text-gray-300"
+              title="Save these settings as a preset">
+              <BookmarkPlusIcon className="w-5 h-5" />
+            </button>
             <button
               type="button"
               onClick={() => setIsSettingsOpen((prev) => !prev)}
@@ -541,17 +769,94 @@ const PromptForm: React.FC<PromptFormProps> = ({
               {isSubmitDisabled && tooltipText && (
                 <div
                   role="tooltip"
-                  className="absolute bottom-full right-0 mb-2 w-max max-w-xs px-3 py-1.5 bg-gray-900 border border-gray-700 text-white text-sm rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
+                  className="absolute bottom-full right-0 mb-2 w-max max-w-xs px-3 py-1.5 whitespace-pre-line bg-gray-900 border border-gray-700 text-white text-sm rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
                   {tooltipText}
                 </div>
               )}
             </div>
           </div>
-          <SuggestionChips onAddKeyword={addKeyword} />
+          <input
+            type="text"
+            value={negativePrompt}
+            onChange={(e) => setNegativePrompt(e.target.value)}
+            placeholder="Negative prompt: what the video should not show (optional)"
+            className="w-full bg-[#1f1f1f] border border-gray-700 rounded-xl px-4 py-2 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-red-500/60"
+            aria-label="Negative prompt"
+          />
+          {promptImages.length > 0 &&
+            (isSuggestionOpen ? (
+              <ImagePromptSuggestion
+                suggestion={imageSuggestion}
+                isLoading={isDescribing}
+                error={describeError}
+                onInsert={handleInsertSuggestion}
+                onRetry={handleSuggestFromImages}
+                onDismiss={closeImageSuggestion}
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={handleSuggestFromImages}
+                className="self-start flex items-center gap-1.5 px-2 text-xs text-indigo-300 hover:text-indigo-200">
+                <SparklesIcon className="w-3.5 h-3.5" />
+                Suggest a prompt from the images
+              </button>
+            ))}
+          {enhancement && (
+            <EnhancementPanel
+              original={enhancement.original}
+              candidates={enhancement.candidates}
+              onApply={(rewrite) => {
+                setPrompt(rewrite);
+                setEnhancement(null);
+              }}
+              onClose={() => setEnhancement(null)}
+            />
+          )}
+          {enhanceError && (
+            <p className="px-2 text-xs text-red-400" role="alert">
+              {enhanceError}
+            </p>
+          )}
+          {templateVariables.length > 0 && (
+            <TemplateVariablesForm
+              variables={templateVariables}
+              values={templateValues}
+              onChange={setTemplateValues}
+            />
+          )}
+          {invalidIssues.length > 0 && (
+            <ul className="px-2 text-xs text-red-400 space-y-0.5" role="alert">
+              {invalidIssues.map((issue) => (
+                <li key={`${issue.field}-${issue.index ?? ''}`}>{issue.message}</li>
+              ))}
+            </ul>
+          )}
+          {unresolvedMentions.length > 0 && (
+            <p className="px-2 text-xs text-amber-400">
+              No character named{' '}
+              {unresolvedMentions.map((mention) => `@${mention.handle}`).join(', ')}
+              . Unknown mentions are sent as typed.
+            </p>
+          )}
+          <SuggestionChips
+            chipSets={chipSets}
+            mode={generationMode}
+            presetCategory={presetCategory}
+            onAddKeyword={addKeyword}
+            onAddNegativeKeyword={addNegativeKeyword}
+            onEditChips={() => setIsChipEditorOpen(true)}
+          />
         </div>
         
         {/* Scene Gallery */}
-        <SceneStrip scenes={scenes} />
+        <SceneStrip
+          scenes={scenes}
+          onDelete={onDeleteScene}
+          onRename={onRenameScene}
+          onOpenTimeline={onOpenTimeline}
+          onOpenLineage={onOpenLineage}
+        />
 
         <p className="text-xs text-gray-500 text-center mt-6 px-4">
           Veo is a paid-only model. You will be charged on your Cloud project. See{' '}
@@ -3,15 +3,29 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { Scene } from '../types';
-import { FilmIcon } from './icons';
+import React, { useState } from 'react';
+import { Scene, SceneOrigin } from '../types';
+import { getLineage, SCENE_ORIGIN_LABELS } from '../utils/lineage';
+import { ClapperboardIcon, FilmIcon, LinkIcon, PencilIcon, TrashIcon } from './icons';
 
 interface SceneStripProps {
   scenes: Scene[];
+  onDelete: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onOpenTimeline: () => void;
+  onOpenLineage: () => void;
 }
 
-const SceneStrip: React.FC<SceneStripProps> = ({ scenes }) => {
+const SceneStrip: React.FC<SceneStripProps> = ({
+  scenes,
+  onDelete,
+  onRename,
+  onOpenTimeline,
+  onOpenLineage,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
   if (scenes.length === 0) return null;
 
   const handleDragStart = (e: React.DragEvent, scene: Scene) => {
@@ -19,37 +33,113 @@ const SceneStrip: React.FC<SceneStripProps> = ({ scenes }) => {
     e.dataTransfer.effectAllowed = 'copy';
   };
 
+  const startEditing = (scene: Scene) => {
+    setEditingId(scene.id);
+    setDraftTitle(scene.title ?? scene.prompt);
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleTitleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // The strip lives inside the prompt form, so Enter must not submit it
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEditing();
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
   return (
     <div className="w-full mt-8 border-t border-gray-800 pt-6">
-      <h3 className="text-gray-400 text-sm font-medium mb-4 flex items-center gap-2">
-        <FilmIcon className="w-4 h-4 text-indigo-400" />
-        Recent Scenes (Drag to Extend)
-      </h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-gray-400 text-sm font-medium flex items-center gap-2">
+          <FilmIcon className="w-4 h-4 text-indigo-400" />
+          Recent Scenes (Drag to Extend)
+        </h3>
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={onOpenLineage}
+            className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors">
+            <LinkIcon className="w-4 h-4" />
+            Lineage
+          </button>
+          <button
+            type="button"
+            onClick={onOpenTimeline}
+            className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors">
+            <ClapperboardIcon className="w-4 h-4" />
+            Open Timeline
+          </button>
+        </div>
+      </div>
       <div className="flex gap-4 overflow-x-auto pb-4 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent">
-        {scenes.map((scene) => (
-          <div
-            key={scene.id}
-            draggable
-            onDragStart={(e) => handleDragStart(e, scene)}
-            className="flex-shrink-0 w-48 bg-gray-800 rounded-lg overflow-hidden border border-gray-700 cursor-grab active:cursor-grabbing hover:border-indigo-500 transition-all relative group shadow-lg"
-          >
-             <div className="aspect-video relative">
-               <video
-                  src={scene.url}
-                  className="w-full h-full object-cover pointer-events-none"
-                  muted
-               />
-               <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
-                  <span className="text-xs text-white font-medium bg-indigo-600/90 px-2 py-1 rounded shadow-sm backdrop-blur-sm">Drag to Extend</span>
+        {scenes.map((scene) => {
+          const { origin } = getLineage(scene);
+          return (
+            <div
+              key={scene.id}
+              draggable={editingId !== scene.id}
+              onDragStart={(e) => handleDragStart(e, scene)}
+              className="flex-shrink-0 w-48 bg-gray-800 rounded-lg overflow-hidden border border-gray-700 cursor-grab active:cursor-grabbing hover:border-indigo-500 transition-all relative group shadow-lg"
+            >
+               <div className="aspect-video relative">
+                 <video
+                    src={scene.url}
+                    className="w-full h-full object-cover pointer-events-none"
+                    muted
+                 />
+                 {origin !== SceneOrigin.ORIGINAL && (
+                   <span className="absolute top-1 left-1 text-[9px] uppercase tracking-wide font-semibold text-white bg-black/60 px-1.5 py-0.5 rounded">
+                     {SCENE_ORIGIN_LABELS[origin]}
+                   </span>
+                 )}
+                 <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
+                    <span className="text-xs text-white font-medium bg-indigo-600/90 px-2 py-1 rounded shadow-sm backdrop-blur-sm">Drag to Extend</span>
+                 </div>
+                 <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      type="button"
+                      onClick={() => startEditing(scene)}
+                      className="w-6 h-6 bg-black/60 hover:bg-black/80 rounded-full flex items-center justify-center text-white"
+                      aria-label="Rename scene">
+                      <PencilIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(scene.id)}
+                      className="w-6 h-6 bg-black/60 hover:bg-red-600/80 rounded-full flex items-center justify-center text-white"
+                      aria-label="Delete scene">
+                      <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                 </div>
+               </div>
+               <div className="p-2">
+                 {editingId === scene.id ? (
+                   <input
+                     type="text"
+                     value={draftTitle}
+                     autoFocus
+                     onChange={(e) => setDraftTitle(e.target.value)}
+                     onBlur={commitEditing}
+                     onKeyDown={handleTitleKeyDown}
+                     className="w-full bg-[#1f1f1f] border border-gray-600 rounded px-1.5 py-0.5 text-[10px] text-white focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                   />
+                 ) : (
+                   <p className="text-[10px] text-gray-400 line-clamp-2 leading-tight">
+                     {scene.title || scene.prompt || "Untitled Scene"}
+                   </p>
+                 )}
                </div>
-             </div>
-             <div className="p-2">
-               <p className="text-[10px] text-gray-400 line-clamp-2 leading-tight">
-                 {scene.prompt || "Untitled Scene"}
-               </p>
-             </div>
-          </div>
-        ))}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {SequenceClip} from '../types';
+import {formatDuration} from '../utils/formatUtils';
+import {getClipStart, getSequenceDuration, locateTime} from '../utils/timeline';
+import {PauseIcon, PlayIcon} from './icons';
+
+interface SequencePlayerProps {
+  // Only clips whose scene is available; sceneUrls must cover all of them.
+  // Both should be memoized: a new value restarts playback from the top.
+  clips: SequenceClip[];
+  sceneUrls: Record<string, string>;
+}
+
+// Switch a little early: frames arrive ~16ms apart and the next video needs
+// a moment to start.
+const END_TOLERANCE = 0.05;
+
+/**
+ * Plays a sequence without gaps between clips. Two video elements take
+ * turns: while one plays a clip, the other is already loaded and seeked to
+ * the next clip's in point, so the switch is just a play() and a swap.
+ */
+const SequencePlayer: React.FC<SequencePlayerProps> = ({clips, sceneUrls}) => {
+  const videoRefs = [
+    useRef<HTMLVideoElement>(null),
+    useRef<HTMLVideoElement>(null),
+  ];
+  // Pending seeks, so a superseded load cannot seek the video later.
+  const pendingSeeks = useRef<Array<(() => void) | null>>([null, null]);
+  // Read by the animation frame loop, which must not wait for a re-render.
+  const playback = useRef({slot: 0, index: 0});
+  const [activeSlot, setActiveSlot] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+
+  const totalDuration = getSequenceDuration(clips);
+
+  const load = (slot: number, index: number, offset = 0) => {
+    const video = videoRefs[slot].current;
+    const clip = clips[index];
+    if (!video || !clip) return;
+
+    const previousSeek = pendingSeeks.current[slot];
+    if (previousSeek) video.removeEventListener('loadedmetadata', previousSeek);
+    pendingSeeks.current[slot] = null;
+
+    const url = sceneUrls[clip.sceneId];
+    if (video.src !== url) video.src = url;
+    const seek = () => {
+      pendingSeeks.current[slot] = null;
+      video.currentTime = clip.inPoint + offset;
+    };
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seek();
+    } else {
+      pendingSeeks.current[slot] = seek;
+      video.addEventListener('loadedmetadata', seek, {once: true});
+    }
+  };
+
+  // Positions playback at `target` seconds into the sequence.
+  const cue = (target: number) => {
+    const {slot} = playback.current;
+    const active = videoRefs[slot].current;
+    const wasPlaying = Boolean(active && !active.paused);
+    const {index, offset} = locateTime(clips, target) ?? {index: 0, offset: 0};
+
+    playback.current = {slot, index};
+    load(slot, index, offset);
+    load(1 - slot, index + 1);
+    setTime(getClipStart(clips, index) + offset);
+    if (wasPlaying) active?.play().catch(() => setIsPlaying(false));
+  };
+
+  // Editing the sequence invalidates whatever was loaded
+  useEffect(() => {
+    setIsPlaying(false);
+    cue(0);
+  }, [clips, sceneUrls]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId = 0;
+    const tick = () => {
+      const {slot, index} = playback.current;
+      const video = videoRefs[slot].current;
+      const clip = clips[index];
+      if (!video || !clip) return;
+
+      if (video.ended || video.currentTime >= clip.outPoint - END_TOLERANCE) {
+        const nextIndex = index + 1;
+        if (nextIndex >= clips.length) {
+          video.pause();
+          setTime(totalDuration);
+          setIsPlaying(false);
+          return;
+        }
+        const nextSlot = 1 - slot;
+        videoRefs[nextSlot].current
+          ?.play()
+          .catch(() => setIsPlaying(false));
+        video.pause();
+        playback.current = {slot: nextSlot, index: nextIndex};
+        setActiveSlot(nextSlot);
+        // The finished video now preloads the clip after next
+        load(slot, nextIndex + 1);
+      } else {
+        const elapsed = getClipStart(clips, index) + video.currentTime - clip.inPoint;
+        // Tenths of a second are plenty for the readout and save renders
+        setTime(Math.round(elapsed * 10) / 10);
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+
+    videoRefs[playback.current.slot].current
+      ?.play()
+      .catch(() => setIsPlaying(false));
+    frameId = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      videoRefs.forEach((ref) => ref.current?.pause());
+    };
+  }, [isPlaying, clips, sceneUrls]);
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && time >= totalDuration - END_TOLERANCE) {
+      cue(0);
+    }
+    setIsPlaying((prev) => !prev);
+  };
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    cue(Math.max(0, Math.min(fraction, 1)) * totalDuration);
+  };
+
+  const percent = totalDuration > 0 ? (time / totalDuration) * 100 : 0;
+
+  return (
+    <div className="w-full">
+      <div className="relative aspect-video bg-black rounded-lg overflow-hidden border border-gray-700">
+        {videoRefs.map((ref, slot) => (
+          <video
+            key={slot}
+            ref={ref}
+            playsInline
+            preload="auto"
+            className={`absolute inset-0 w-full h-full object-contain ${
+              slot === activeSlot ? 'opacity-100' : 'opacity-0'
+            }`}
+          />
+        ))}
+        {clips.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+            Add scenes to this sequence to preview it.
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-3 mt-3">
+        <button
+          type="button"
+          onClick={handleTogglePlay}
+          disabled={clips.length === 0}
+          className="p-2 bg-indigo-600 rounded-full hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed"
+          aria-label={isPlaying ? 'Pause sequence' : 'Play sequence'}>
+          {isPlaying ? (
+            <PauseIcon className="w-4 h-4 text-white" />
+          ) : (
+            <PlayIcon className="w-4 h-4 text-white" />
+          )}
+        </button>
+        <div
+          className="flex-grow h-2 bg-gray-700 rounded-full overflow-hidden cursor-pointer"
+          onClick={handleSeek}
+          role="slider"
+          aria-label="Sequence position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(totalDuration)}
+          aria-valuenow={Math.round(time)}>
+          <div
+            className="h-full bg-gradient-to-r from-indigo-500 to-purple-500"
+            style={{width: `${percent}%`}}
+          />
+        </div>
+        <span className="text-xs text-gray-400 tabular-nums">
+          {formatDuration(time * 1000)} / {formatDuration(totalDuration * 1000)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SequencePlayer;
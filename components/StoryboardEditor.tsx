@@ -0,0 +1,340 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {splitScriptIntoShots} from '../services/geminiService';
+import {isJobFinished} from '../services/jobQueue';
+import {
+  AspectRatio,
+  GenerationJob,
+  GenerationMode,
+  JobStatus,
+  Scene,
+  Storyboard,
+  StoryboardShot,
+  VeoModel,
+} from '../types';
+import {
+  createShot,
+  createStoryboard,
+  replaceDraftShots,
+} from '../utils/storyboard';
+import StoryboardShotCard, {ShotStatus} from './StoryboardShotCard';
+import {PlusIcon, SparklesIcon, TrashIcon, WandIcon, XMarkIcon} from './icons';
+
+interface StoryboardEditorProps {
+  storyboards: Storyboard[];
+  scenes: Scene[];
+  jobs: GenerationJob[];
+  onSaveStoryboard: (storyboard: Storyboard) => void;
+  onDeleteStoryboard: (id: string) => void;
+  // Queues every shot that has no scene yet
+  onQueueAll: (storyboardId: string) => void;
+  onGenerateShot: (storyboardId: string, shotId: string) => void;
+  onViewScene: (sceneId: string) => void;
+  onClose: () => void;
+}
+
+const jobStatusStyles: Record<JobStatus, string> = {
+  [JobStatus.QUEUED]: 'bg-gray-700 text-gray-300',
+  [JobStatus.RUNNING]: 'bg-indigo-600/30 text-indigo-300 animate-pulse',
+  [JobStatus.SUCCEEDED]: 'bg-emerald-600/30 text-emerald-300',
+  [JobStatus.FAILED]: 'bg-red-600/30 text-red-300',
+  [JobStatus.CANCELLED]: 'bg-gray-800 text-gray-500',
+};
+
+const StoryboardEditor: React.FC<StoryboardEditorProps> = ({
+  storyboards,
+  scenes,
+  jobs,
+  onSaveStoryboard,
+  onDeleteStoryboard,
+  onQueueAll,
+  onGenerateShot,
+  onViewScene,
+  onClose,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(
+    storyboards[0]?.id ?? null,
+  );
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [splitError, setSplitError] = useState<string | null>(null);
+  // The latest storyboards, for edits that finish after an await
+  const storyboardsRef = useRef(storyboards);
+  storyboardsRef.current = storyboards;
+
+  const storyboard =
+    storyboards.find((s) => s.id === selectedId) ?? storyboards[0] ?? null;
+
+  const hasScene = (sceneId?: string) =>
+    Boolean(sceneId && scenes.some((scene) => scene.id === sceneId));
+
+  const getShotStatus = (shot: StoryboardShot): ShotStatus => {
+    const job = jobs.find((j) => j.id === shot.jobId);
+    if (shot.awaitingPrevious) {
+      return {label: 'waiting', style: jobStatusStyles[JobStatus.QUEUED], isBusy: true};
+    }
+    if (job && !isJobFinished(job)) {
+      return {label: job.status, style: jobStatusStyles[job.status], isBusy: true};
+    }
+    if (shot.error) {
+      return {label: 'failed', style: jobStatusStyles[JobStatus.FAILED], isBusy: false};
+    }
+    if (hasScene(shot.sceneId)) {
+      return {label: 'done', style: jobStatusStyles[JobStatus.SUCCEEDED], isBusy: false};
+    }
+    return {label: 'draft', style: jobStatusStyles[JobStatus.CANCELLED], isBusy: false};
+  };
+
+  const update = (changes: Partial<Storyboard>) => {
+    if (!storyboard) return;
+    onSaveStoryboard({...storyboard, ...changes, updatedAt: Date.now()});
+  };
+
+  const updateShots = (shots: StoryboardShot[]) => update({shots});
+
+  const moveShot = (index: number, offset: number) => {
+    if (!storyboard) return;
+    const shots = [...storyboard.shots];
+    const [shot] = shots.splice(index, 1);
+    shots.splice(index + offset, 0, shot);
+    updateShots(shots);
+  };
+
+  const handleCreate = () => {
+    const created = createStoryboard(`Storyboard ${storyboards.length + 1}`);
+    onSaveStoryboard(created);
+    setSelectedId(created.id);
+    setSplitError(null);
+  };
+
+  const handleDelete = () => {
+    if (!storyboard) return;
+    // Scenes made from the storyboard stay in the library
+    onDeleteStoryboard(storyboard.id);
+    setSelectedId(null);
+  };
+
+  const handleSplit = async () => {
+    if (!storyboard?.script.trim()) return;
+    setIsSplitting(true);
+    setSplitError(null);
+    try {
+      const suggestions = await splitScriptIntoShots(storyboard.script);
+      if (suggestions.length === 0) {
+        setSplitError('No shots could be made from this script.');
+        return;
+      }
+      // The storyboard may have been edited while the script was split
+      const latest = storyboardsRef.current.find((s) => s.id === storyboard.id);
+      if (!latest) return;
+      const model = latest.shots[0]?.params.model;
+      onSaveStoryboard({
+        ...latest,
+        shots: replaceDraftShots(
+          latest.shots,
+          suggestions.map((suggestion) => createShot(suggestion, model)),
+        ),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error('Failed to split script into shots:', error);
+      setSplitError('The script could not be split into shots. Please try again.');
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  const handleAddShot = () => {
+    if (!storyboard) return;
+    const shot = createShot(
+      {
+        summary: '',
+        prompt: '',
+        aspectRatio:
+          storyboard.shots[storyboard.shots.length - 1]?.params.aspectRatio ??
+          AspectRatio.LANDSCAPE,
+        mode: GenerationMode.TEXT_TO_VIDEO,
+      },
+      storyboard.shots[0]?.params.model,
+    );
+    updateShots([...storyboard.shots, shot]);
+  };
+
+  const handleModelChange = (model: VeoModel) => {
+    if (!storyboard) return;
+    updateShots(
+      storyboard.shots.map((shot) => ({...shot, params: {...shot.params, model}})),
+    );
+  };
+
+  const queueableCount = storyboard
+    ? storyboard.shots.filter(
+        (shot) => !hasScene(shot.sceneId) && !getShotStatus(shot).isBusy,
+      ).length
+    : 0;
+
+  return (
+    <div className="w-full flex flex-col gap-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-2xl font-semibold text-gray-200 mr-auto">Storyboard</h2>
+        {storyboard && (
+          <select
+            value={storyboard.id}
+            onChange={(e) => {
+              setSelectedId(e.target.value);
+              setSplitError(null);
+            }}
+            className="bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="Storyboard">
+            {storyboards.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.title}
+              </option>
+            ))}
+          </select>
+        )}
+        {storyboard && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="p-2 rounded-full text-gray-300 hover:bg-red-600/80 hover:text-white"
+            aria-label="Delete storyboard">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleCreate}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors">
+          <PlusIcon className="w-4 h-4" />
+          New Storyboard
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-full text-gray-300 hover:bg-gray-700"
+          aria-label="Close storyboard">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!storyboard ? (
+        <div className="text-center text-gray-400 py-16 border border-dashed border-gray-700 rounded-lg">
+          <p>Storyboards turn a script into a list of shots to generate.</p>
+          <button
+            type="button"
+            onClick={handleCreate}
+            className="mt-4 px-6 py-2 bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+            Create a Storyboard
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col gap-2">
+            <input
+              type="text"
+              value={storyboard.title}
+              onChange={(e) => update({title: e.target.value})}
+              className="bg-transparent text-lg font-medium text-white focus:outline-none focus:ring-1 focus:ring-indigo-500 rounded px-1"
+              aria-label="Storyboard title"
+            />
+            <textarea
+              value={storyboard.script}
+              onChange={(e) => update({script: e.target.value})}
+              disabled={isSplitting}
+              rows={6}
+              placeholder="Paste or write your script here..."
+              className="w-full bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-200 resize-y focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={handleSplit}
+                disabled={isSplitting || !storyboard.script.trim()}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
+                <WandIcon className={`w-4 h-4 ${isSplitting ? 'animate-spin' : ''}`} />
+                {isSplitting ? 'Splitting...' : 'Split into Shots'}
+              </button>
+              {storyboard.shots.length > 0 && (
+                <span className="text-xs text-gray-500">
+                  Splitting again replaces the draft shots; queued and
+                  generated ones are kept.
+                </span>
+              )}
+            </div>
+            {splitError && <p className="text-sm text-red-400">{splitError}</p>}
+          </div>
+
+          {storyboard.shots.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-sm text-gray-400 mr-auto">
+                {storyboard.shots.length} shot
+                {storyboard.shots.length === 1 ? '' : 's'}
+              </span>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                Model
+                <select
+                  value={storyboard.shots[0].params.model}
+                  onChange={(e) => handleModelChange(e.target.value as VeoModel)}
+                  className="bg-[#1f1f1f] border border-gray-600 rounded px-2 py-1 text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500">
+                  <option value={VeoModel.VEO_FAST}>Veo 3.1 Fast</option>
+                  <option value={VeoModel.VEO}>Veo 3.1</option>
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => onQueueAll(storyboard.id)}
+                disabled={queueableCount === 0}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
+                <SparklesIcon className="w-4 h-4" />
+                Queue {queueableCount} Shot{queueableCount === 1 ? '' : 's'}
+              </button>
+            </div>
+          )}
+
+          <ol className="flex flex-col gap-3">
+            {storyboard.shots.map((shot, index) => {
+              const previous = storyboard.shots[index - 1];
+              return (
+                <StoryboardShotCard
+                  key={shot.id}
+                  shot={shot}
+                  index={index}
+                  status={getShotStatus(shot)}
+                  canGenerate={
+                    shot.params.mode !== GenerationMode.EXTEND_VIDEO ||
+                    hasScene(previous?.sceneId)
+                  }
+                  isFirst={index === 0}
+                  isLast={index === storyboard.shots.length - 1}
+                  onChange={(changed) =>
+                    updateShots(
+                      storyboard.shots.map((s) => (s.id === shot.id ? changed : s)),
+                    )
+                  }
+                  onGenerate={() => onGenerateShot(storyboard.id, shot.id)}
+                  onViewScene={() => shot.sceneId && onViewScene(shot.sceneId)}
+                  onMove={(offset) => moveShot(index, offset)}
+                  onRemove={() =>
+                    updateShots(storyboard.shots.filter((s) => s.id !== shot.id))
+                  }
+                />
+              );
+            })}
+          </ol>
+          <button
+            type="button"
+            onClick={handleAddShot}
+            className="self-start flex items-center gap-1.5 text-sm text-indigo-300 hover:text-indigo-200">
+            <PlusIcon className="w-4 h-4" />
+            Add Shot
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardEditor;
@@ -0,0 +1,238 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  StoryboardShot,
+} from '../types';
+import {
+  MAX_REFERENCE_IMAGES,
+  validateVideoParams,
+} from '../utils/validation';
+import ImageUpload from './ImageUpload';
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  PlayIcon,
+  SparklesIcon,
+  TrashIcon,
+} from './icons';
+
+export interface ShotStatus {
+  label: string;
+  style: string;
+  // Queued, running or waiting for the previous shot
+  isBusy: boolean;
+}
+
+interface StoryboardShotCardProps {
+  shot: StoryboardShot;
+  index: number;
+  status: ShotStatus;
+  // False for extension shots whose previous shot has no scene yet
+  canGenerate: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (shot: StoryboardShot) => void;
+  onGenerate: () => void;
+  onViewScene: () => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const StoryboardShotCard: React.FC<StoryboardShotCardProps> = ({
+  shot,
+  index,
+  status,
+  canGenerate,
+  isFirst,
+  isLast,
+  onChange,
+  onGenerate,
+  onViewScene,
+  onMove,
+  onRemove,
+}) => {
+  const {params} = shot;
+  const isExtension = params.mode === GenerationMode.EXTEND_VIDEO;
+  // Extensions get their input video from the previous shot when they run
+  const issues = validateVideoParams(params).filter(
+    (issue) => !(isExtension && issue.field === 'inputVideo'),
+  );
+  const referenceImages = params.referenceImages ?? [];
+
+  const updateParams = (changes: Partial<GenerateVideoParams>) => {
+    onChange({...shot, params: {...params, ...changes}});
+  };
+
+  const setReferenceImage = (slot: number, image: ImageFile | null) => {
+    const images = [...referenceImages];
+    if (image) {
+      images[slot] = image;
+    } else {
+      images.splice(slot, 1);
+    }
+    updateParams({referenceImages: images});
+  };
+
+  return (
+    <li className="p-3 bg-[#1f1f1f] border border-gray-700 rounded-xl">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-xs font-semibold text-gray-500 tabular-nums">
+          {index + 1}.
+        </span>
+        <input
+          type="text"
+          value={shot.summary}
+          onChange={(e) => onChange({...shot, summary: e.target.value})}
+          placeholder="Script beat"
+          className="flex-grow min-w-0 bg-transparent text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 rounded px-1"
+          aria-label={`Shot ${index + 1} script beat`}
+        />
+        <span
+          className={`shrink-0 text-center text-[10px] uppercase tracking-wide font-semibold px-2 py-0.5 rounded-full ${status.style}`}
+          title={shot.error}>
+          {status.label}
+        </span>
+        <button
+          type="button"
+          onClick={() => onMove(-1)}
+          disabled={isFirst}
+          className="p-1 text-gray-500 hover:text-white disabled:opacity-30"
+          aria-label="Move shot up">
+          <ChevronUpIcon className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(1)}
+          disabled={isLast}
+          className="p-1 text-gray-500 hover:text-white disabled:opacity-30"
+          aria-label="Move shot down">
+          <ChevronDownIcon className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-1 text-gray-500 hover:text-red-400"
+          aria-label="Remove shot">
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <textarea
+        value={params.prompt}
+        onChange={(e) => updateParams({prompt: e.target.value})}
+        rows={3}
+        placeholder="Video prompt for this shot"
+        className="w-full bg-[#2c2c2e] border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-200 resize-y focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+      />
+
+      <div className="flex flex-wrap items-center gap-3 mt-2">
+        <select
+          value={params.mode}
+          onChange={(e) =>
+            updateParams({mode: e.target.value as GenerationMode})
+          }
+          className="bg-[#2c2c2e] border border-gray-600 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          aria-label="Generation mode">
+          {Object.values(GenerationMode).map((mode) => (
+            <option key={mode} value={mode}>
+              {mode === GenerationMode.EXTEND_VIDEO
+                ? 'Extend Previous Shot'
+                : mode}
+            </option>
+          ))}
+        </select>
+        <select
+          value={params.aspectRatio}
+          onChange={(e) =>
+            updateParams({aspectRatio: e.target.value as AspectRatio})
+          }
+          disabled={isExtension}
+          className="bg-[#2c2c2e] border border-gray-600 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:text-gray-500"
+          aria-label="Aspect ratio">
+          <option value={AspectRatio.LANDSCAPE}>Landscape (16:9)</option>
+          <option value={AspectRatio.PORTRAIT}>Portrait (9:16)</option>
+        </select>
+        <div className="flex items-center gap-2 ml-auto">
+          {shot.sceneId && (
+            <button
+              type="button"
+              onClick={onViewScene}
+              className="flex items-center gap-1 px-3 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+              <PlayIcon className="w-3.5 h-3.5" />
+              View
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onGenerate}
+            disabled={!canGenerate || status.isBusy || issues.length > 0}
+            title={
+              !canGenerate
+                ? 'Generate the previous shot first.'
+                : issues.map((issue) => issue.message).join('\n') || undefined
+            }
+            className="flex items-center gap-1 px-3 py-1 text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition-colors">
+            <SparklesIcon className="w-3.5 h-3.5" />
+            {shot.sceneId ? 'Regenerate' : 'Generate'}
+          </button>
+        </div>
+      </div>
+
+      {params.mode === GenerationMode.FRAMES_TO_VIDEO && (
+        <div className="flex gap-3 mt-3">
+          <ImageUpload
+            label="Start Frame"
+            image={params.startFrame}
+            onSelect={(image) => updateParams({startFrame: image})}
+            onRemove={() => updateParams({startFrame: null})}
+          />
+          <ImageUpload
+            label="End Frame"
+            image={params.endFrame}
+            onSelect={(image) => updateParams({endFrame: image})}
+            onRemove={() => updateParams({endFrame: null})}
+          />
+        </div>
+      )}
+      {params.mode === GenerationMode.REFERENCES_TO_VIDEO && (
+        <div className="flex gap-3 mt-3">
+          {referenceImages.map((image, slot) => (
+            <ImageUpload
+              key={slot}
+              label={`Reference ${slot + 1}`}
+              image={image}
+              onSelect={(selected) => setReferenceImage(slot, selected)}
+              onRemove={() => setReferenceImage(slot, null)}
+            />
+          ))}
+          {referenceImages.length < MAX_REFERENCE_IMAGES && (
+            <ImageUpload
+              label="Add Reference"
+              onSelect={(image) =>
+                setReferenceImage(referenceImages.length, image)
+              }
+            />
+          )}
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="mt-2 text-xs text-yellow-400/80 space-y-0.5">
+          {issues.map((issue) => (
+            <li key={`${issue.field}-${issue.index ?? ''}`}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+      {shot.error && <p className="mt-2 text-xs text-red-400">{shot.error}</p>}
+    </li>
+  );
+};
+
+export default StoryboardShotCard;
@@ -3,30 +3,35 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-
-const SUGGESTION_CHIPS = [
-  'Cinematic',
-  '4k',
-  'Photorealistic',
-  'Slow Motion',
-  'Drone Shot',
-  'Golden Hour',
-  'Cyberpunk',
-  'Studio Lighting',
-  'Macro',
-  'Wide Angle',
-  'Volumetric Lighting',
-  'Bokeh',
-];
+import {ChipSet, GenerationMode} from '../types';
+import {collectKeywords, getActiveChipSets} from '../utils/chipSets';
+import {PencilIcon} from './icons';
 
 interface SuggestionChipsProps {
+  chipSets: ChipSet[];
+  mode: GenerationMode;
+  // Category of the preset the form was loaded from, if any
+  presetCategory: string | null;
   onAddKeyword: (keyword: string) => void;
+  onAddNegativeKeyword: (keyword: string) => void;
+  onEditChips: () => void;
 }
 
-const SuggestionChips: React.FC<SuggestionChipsProps> = ({ onAddKeyword }) => {
+const SuggestionChips: React.FC<SuggestionChipsProps> = ({
+  chipSets,
+  mode,
+  presetCategory,
+  onAddKeyword,
+  onAddNegativeKeyword,
+  onEditChips,
+}) => {
+  const {keywords, negativeKeywords} = collectKeywords(
+    getActiveChipSets(chipSets, mode, presetCategory),
+  );
+
   return (
     <div className="flex flex-wrap gap-2 px-2">
-      {SUGGESTION_CHIPS.map((chip) => (
+      {keywords.map((chip) => (
         <button
           key={chip}
           type="button"
@@ -35,8 +40,25 @@ const SuggestionChips: React.FC<SuggestionChipsProps> = ({ onAddKeyword }) => {
           + {chip}
         </button>
       ))}
+      {negativeKeywords.map((chip) => (
+        <button
+          key={`negative-${chip}`}
+          type="button"
+          onClick={() => onAddNegativeKeyword(chip)}
+          className="px-3 py-1 text-xs font-medium text-red-300/70 bg-gray-800 border border-red-900/50 rounded-full hover:text-red-200 hover:border-red-500/50 hover:bg-gray-700 transition-colors"
+          title="Add to the negative prompt">
+          − {chip}
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={onEditChips}
+        className="p-1.5 text-gray-500 rounded-full hover:text-white hover:bg-gray-700 transition-colors"
+        aria-label="Edit suggestion chips">
+        <PencilIcon className="w-3.5 h-3.5" />
+      </button>
     </div>
   );
 };
 
-export default SuggestionChips;
\ No newline at end of file
+export default SuggestionChips;
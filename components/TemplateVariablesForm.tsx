@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {
+  countCombinations,
+  getOwnValue,
+  TemplateVariable,
+} from '../utils/promptTemplate';
+import {XMarkIcon} from './icons';
+
+interface TemplateVariablesFormProps {
+  variables: TemplateVariable[];
+  values: Record<string, string[]>;
+  onChange: (values: Record<string, string[]>) => void;
+}
+
+/**
+ * Fills the variables of a prompt template. Each variable takes one or
+ * more values; every combination becomes its own generation.
+ */
+const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({
+  variables,
+  values,
+  onChange,
+}) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const setValues = (name: string, next: string[]) =>
+    onChange({...values, [name]: next});
+
+  const addDraft = (name: string) => {
+    const draft = getOwnValue<string>(drafts, name)?.trim();
+    if (!draft) return;
+    const current = getOwnValue<string[]>(values, name) ?? [];
+    if (!current.includes(draft)) setValues(name, [...current, draft]);
+    setDrafts((prev) => ({...prev, [name]: ''}));
+  };
+
+  const handleKeyDown = (
+    name: string,
+    e: React.KeyboardEvent<HTMLInputElement>,
+  ) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addDraft(name);
+    } else if (e.key === 'Backspace' && !getOwnValue<string>(drafts, name)) {
+      setValues(name, (getOwnValue<string[]>(values, name) ?? []).slice(0, -1));
+    }
+  };
+
+  const count = countCombinations(variables, values);
+
+  return (
+    <div className="px-3 py-2 bg-[#1f1f1f] border border-gray-700 rounded-xl space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-gray-400">Template variables</span>
+        <span className="text-gray-500">
+          {count} video{count === 1 ? '' : 's'} will be queued
+        </span>
+      </div>
+      {variables.map((variable) => {
+        const given = getOwnValue<string[]>(values, variable.name) ?? [];
+        return (
+          <div key={variable.name} className="flex items-center gap-2">
+            <span className="shrink-0 w-28 truncate text-xs font-mono text-indigo-300">
+              {`{${variable.name}}`}
+            </span>
+            <div className="flex-grow flex flex-wrap items-center gap-1.5 min-w-0 bg-[#2c2c2e] border border-gray-600 rounded-lg px-2 py-1 focus-within:ring-1 focus-within:ring-indigo-500">
+              {given.map((value) => (
+                <span
+                  key={value}
+                  className="flex items-center gap-1 pl-2 pr-0.5 py-0.5 text-xs bg-indigo-600/20 text-indigo-200 rounded-full">
+                  {value}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setValues(
+                        variable.name,
+                        given.filter((v) => v !== value),
+                      )
+                    }
+                    className="p-0.5 rounded-full hover:bg-indigo-500/40"
+                    aria-label={`Remove ${value}`}>
+                    <XMarkIcon className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                value={getOwnValue<string>(drafts, variable.name) ?? ''}
+                onChange={(e) =>
+                  setDrafts((prev) => ({
+                    ...prev,
+                    [variable.name]: e.target.value,
+                  }))
+                }
+                onKeyDown={(e) => handleKeyDown(variable.name, e)}
+                onBlur={() => addDraft(variable.name)}
+                placeholder={
+                  given.length > 0
+                    ? ''
+                    : variable.options.length > 0
+                      ? variable.options.join(', ')
+                      : 'Type a value, then Enter'
+                }
+                className="flex-grow min-w-[8rem] bg-transparent text-xs text-gray-200 placeholder-gray-500 focus:outline-none py-0.5"
+                aria-label={`Values for ${variable.name}`}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TemplateVariablesForm;
@@ -0,0 +1,466 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo, useRef, useState} from 'react';
+import {Scene, Sequence, SequenceClip} from '../types';
+import {getVideoDuration} from '../utils/fileUtils';
+import {formatDuration} from '../utils/formatUtils';
+import {createId} from '../utils/ids';
+import {
+  createClip,
+  getClipDuration,
+  getSequenceDuration,
+  moveClip,
+  trimClip,
+} from '../utils/timeline';
+import ExportDialog from './ExportDialog';
+import SequencePlayer from './SequencePlayer';
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  DownloadIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from './icons';
+
+interface TimelineEditorProps {
+  scenes: Scene[];
+  sequences: Sequence[];
+  onSaveSequence: (sequence: Sequence) => void;
+  onDeleteSequence: (id: string) => void;
+  onClose: () => void;
+}
+
+// Track width per second of clip, and the narrowest a clip may get.
+const PIXELS_PER_SECOND = 24;
+const MIN_CLIP_WIDTH = 72;
+
+const TimelineEditor: React.FC<TimelineEditorProps> = ({
+  scenes,
+  sequences,
+  onSaveSequence,
+  onDeleteSequence,
+  onClose,
+}) => {
+  const [selectedSequenceId, setSelectedSequenceId] = useState<string | null>(
+    sequences[0]?.id ?? null,
+  );
+  const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // The latest sequences, for edits that finish after an await
+  const sequencesRef = useRef(sequences);
+  sequencesRef.current = sequences;
+
+  const sequence =
+    sequences.find((s) => s.id === selectedSequenceId) ?? sequences[0] ?? null;
+
+  const sceneUrls = useMemo(
+    () => Object.fromEntries(scenes.map((scene) => [scene.id, scene.url])),
+    [scenes],
+  );
+  // Clips of deleted scenes are skipped rather than breaking playback
+  const playableClips = useMemo(
+    () => sequence?.clips.filter((clip) => sceneUrls[clip.sceneId]) ?? [],
+    [sequence, sceneUrls],
+  );
+  const selectedClip = sequence?.clips.find((c) => c.id === selectedClipId);
+
+  const getExportClips = () =>
+    playableClips.map((clip) => ({
+      blob: scenes.find((scene) => scene.id === clip.sceneId)!.blob,
+      inPoint: clip.inPoint,
+      outPoint: clip.outPoint,
+    }));
+
+  const getSceneTitle = (sceneId: string) => {
+    const scene = scenes.find((s) => s.id === sceneId);
+    return scene ? scene.title || scene.prompt || 'Untitled Scene' : 'Missing scene';
+  };
+
+  const updateClips = (clips: SequenceClip[]) => {
+    if (!sequence) return;
+    onSaveSequence({...sequence, clips, updatedAt: Date.now()});
+  };
+
+  const handleCreateSequence = () => {
+    const now = Date.now();
+    const created: Sequence = {
+      id: createId(),
+      name: `Sequence ${sequences.length + 1}`,
+      clips: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    onSaveSequence(created);
+    setSelectedSequenceId(created.id);
+    setSelectedClipId(null);
+  };
+
+  const handleDeleteSequence = () => {
+    if (!sequence) return;
+    // Only the edit is deleted; its scenes stay in the library
+    onDeleteSequence(sequence.id);
+    setSelectedSequenceId(null);
+    setSelectedClipId(null);
+  };
+
+  const commitRename = () => {
+    if (sequence && draftName.trim()) {
+      onSaveSequence({...sequence, name: draftName.trim(), updatedAt: Date.now()});
+    }
+    setIsRenaming(false);
+  };
+
+  const addScene = async (sceneId: string, index?: number) => {
+    const scene = scenes.find((s) => s.id === sceneId);
+    if (!sequence || !scene) return;
+    try {
+      const clip = createClip(sceneId, await getVideoDuration(scene.url));
+      // Clips may have been added, trimmed or removed while the duration loaded
+      const latest = sequencesRef.current.find((s) => s.id === sequence.id);
+      if (!latest) return;
+      const clips = [...latest.clips];
+      clips.splice(Math.min(index ?? clips.length, clips.length), 0, clip);
+      const next = {...latest, clips, updatedAt: Date.now()};
+      // Seen by another drop that settles before the next render
+      sequencesRef.current = sequencesRef.current.map((s) =>
+        s.id === next.id ? next : s,
+      );
+      onSaveSequence(next);
+      setSelectedClipId(clip.id);
+    } catch (error) {
+      console.error('Failed to add scene to sequence:', error);
+    }
+  };
+
+  const handleTrackDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const index = dropIndex ?? sequence?.clips.length ?? 0;
+    setDropIndex(null);
+    if (!sequence) return;
+
+    const clipId = e.dataTransfer.getData('clipId');
+    if (clipId) {
+      const fromIndex = sequence.clips.findIndex((c) => c.id === clipId);
+      // Removing the clip first shifts everything after it one slot left
+      updateClips(
+        moveClip(sequence.clips, fromIndex, index > fromIndex ? index - 1 : index),
+      );
+      return;
+    }
+    const sceneId = e.dataTransfer.getData('sceneId');
+    if (sceneId) addScene(sceneId, index);
+  };
+
+  const handleClipDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const isRightHalf = e.clientX > rect.left + rect.width / 2;
+    setDropIndex(isRightHalf ? index + 1 : index);
+  };
+
+  const handleTrim = (changes: Partial<Pick<SequenceClip, 'inPoint' | 'outPoint'>>) => {
+    if (!sequence || !selectedClip) return;
+    updateClips(
+      sequence.clips.map((clip) =>
+        clip.id === selectedClip.id ? trimClip(clip, changes) : clip,
+      ),
+    );
+  };
+
+  const handleMoveSelected = (offset: number) => {
+    if (!sequence || !selectedClip) return;
+    const index = sequence.clips.indexOf(selectedClip);
+    updateClips(moveClip(sequence.clips, index, index + offset));
+  };
+
+  const handleRemoveSelected = () => {
+    if (!sequence || !selectedClip) return;
+    updateClips(sequence.clips.filter((clip) => clip.id !== selectedClip.id));
+    setSelectedClipId(null);
+  };
+
+  const renderDropMarker = (index: number) =>
+    dropIndex === index && (
+      <div className="flex-shrink-0 w-1 self-stretch bg-indigo-500 rounded-full" />
+    );
+
+  return (
+    <div className="w-full flex flex-col gap-6">
+      {isExportOpen && sequence && (
+        <ExportDialog
+          sequenceName={sequence.name}
+          clips={getExportClips()}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-2xl font-semibold text-gray-200 mr-auto">Timeline</h2>
+        {sequence && !isRenaming && (
+          <select
+            value={sequence.id}
+            onChange={(e) => {
+              setSelectedSequenceId(e.target.value);
+              setSelectedClipId(null);
+            }}
+            className="bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="Sequence">
+            {sequences.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {sequence && isRenaming && (
+          <input
+            type="text"
+            value={draftName}
+            autoFocus
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              else if (e.key === 'Escape') setIsRenaming(false);
+            }}
+            className="bg-[#1f1f1f] border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            aria-label="Sequence name"
+          />
+        )}
+        {sequence && (
+          <>
+            <button
+              type="button"
+              onClick={() => {
+                setDraftName(sequence.name);
+                setIsRenaming(true);
+              }}
+              className="p-2 rounded-full text-gray-300 hover:bg-gray-700"
+              aria-label="Rename sequence">
+              <PencilIcon className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={handleDeleteSequence}
+              className="p-2 rounded-full text-gray-300 hover:bg-red-600/80 hover:text-white"
+              aria-label="Delete sequence">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={handleCreateSequence}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors">
+          <PlusIcon className="w-4 h-4" />
+          New Sequence
+        </button>
+        {sequence && (
+          <button
+            type="button"
+            onClick={() => setIsExportOpen(true)}
+            disabled={playableClips.length === 0}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
+            <DownloadIcon className="w-4 h-4" />
+            Export
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-full text-gray-300 hover:bg-gray-700"
+          aria-label="Close timeline">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!sequence ? (
+        <div className="text-center text-gray-400 py-16 border border-dashed border-gray-700 rounded-lg">
+          <p>Sequences let you cut scenes together into a short film.</p>
+          <button
+            type="button"
+            onClick={handleCreateSequence}
+            className="mt-4 px-6 py-2 bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+            Create a Sequence
+          </button>
+        </div>
+      ) : (
+        <>
+          <SequencePlayer clips={playableClips} sceneUrls={sceneUrls} />
+
+          <div>
+            <div className="flex justify-between text-xs text-gray-400 mb-2">
+              <span>
+                {sequence.clips.length} clip{sequence.clips.length === 1 ? '' : 's'}
+              </span>
+              <span className="tabular-nums">
+                {formatDuration(getSequenceDuration(sequence.clips) * 1000)}
+              </span>
+            </div>
+            <div
+              className="flex gap-2 min-h-[5.5rem] p-2 bg-gray-800/50 border border-gray-700 rounded-lg overflow-x-auto"
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (e.target === e.currentTarget) {
+                  setDropIndex(sequence.clips.length);
+                }
+              }}
+              onDragLeave={(e) => {
+                if (e.target === e.currentTarget) setDropIndex(null);
+              }}
+              onDrop={handleTrackDrop}>
+              {sequence.clips.length === 0 && (
+                <p className="m-auto text-sm text-gray-500 pointer-events-none">
+                  Drag scenes here
+                </p>
+              )}
+              {sequence.clips.map((clip, index) => (
+                <React.Fragment key={clip.id}>
+                  {renderDropMarker(index)}
+                  <button
+                    type="button"
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('clipId', clip.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragOver={(e) => handleClipDragOver(e, index)}
+                    onClick={() => setSelectedClipId(clip.id)}
+                    style={{
+                      width: Math.max(
+                        MIN_CLIP_WIDTH,
+                        getClipDuration(clip) * PIXELS_PER_SECOND,
+                      ),
+                    }}
+                    className={`flex-shrink-0 h-[4.5rem] rounded-md overflow-hidden border text-left relative cursor-grab active:cursor-grabbing ${
+                      clip.id === selectedClipId
+                        ? 'border-indigo-400 ring-1 ring-indigo-400'
+                        : 'border-gray-600 hover:border-gray-400'
+                    } ${sceneUrls[clip.sceneId] ? '' : 'opacity-40'}`}>
+                    {sceneUrls[clip.sceneId] && (
+                      <video
+                        src={`${sceneUrls[clip.sceneId]}#t=${clip.inPoint}`}
+                        className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+                        muted
+                        preload="metadata"
+                      />
+                    )}
+                    <div className="absolute inset-x-0 bottom-0 px-1.5 py-0.5 bg-black/70 text-[10px] text-gray-200">
+                      <p className="truncate">{getSceneTitle(clip.sceneId)}</p>
+                      <p className="text-gray-400 tabular-nums">
+                        {getClipDuration(clip).toFixed(1)}s
+                      </p>
+                    </div>
+                  </button>
+                </React.Fragment>
+              ))}
+              {renderDropMarker(sequence.clips.length)}
+            </div>
+          </div>
+
+          {selectedClip && (
+            <div className="p-4 bg-[#2c2c2e] rounded-xl border border-gray-700">
+              <div className="flex items-center gap-2 mb-4">
+                <p className="text-sm text-gray-200 truncate mr-auto">
+                  {getSceneTitle(selectedClip.sceneId)}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => handleMoveSelected(-1)}
+                  disabled={sequence.clips[0] === selectedClip}
+                  className="p-1.5 rounded-full text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label="Move clip earlier">
+                  <ChevronLeftIcon className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMoveSelected(1)}
+                  disabled={sequence.clips[sequence.clips.length - 1] === selectedClip}
+                  className="p-1.5 rounded-full text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label="Move clip later">
+                  <ChevronRightIcon className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRemoveSelected}
+                  className="px-3 py-1.5 text-xs text-red-300 border border-red-500/40 rounded-lg hover:bg-red-500/10">
+                  Remove from Sequence
+                </button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="text-xs text-gray-400">
+                  In point: {selectedClip.inPoint.toFixed(1)}s
+                  <input
+                    type="range"
+                    min={0}
+                    max={selectedClip.sceneDuration}
+                    step={0.1}
+                    value={selectedClip.inPoint}
+                    onChange={(e) => handleTrim({inPoint: Number(e.target.value)})}
+                    className="w-full mt-1 accent-indigo-500"
+                  />
+                </label>
+                <label className="text-xs text-gray-400">
+                  Out point: {selectedClip.outPoint.toFixed(1)}s
+                  <input
+                    type="range"
+                    min={0}
+                    max={selectedClip.sceneDuration}
+                    step={0.1}
+                    value={selectedClip.outPoint}
+                    onChange={(e) => handleTrim({outPoint: Number(e.target.value)})}
+                    className="w-full mt-1 accent-indigo-500"
+                  />
+                </label>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-gray-400 text-sm font-medium mb-3">
+              Scenes (drag onto the track or click to append)
+            </h3>
+            {scenes.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Generated videos will show up here.
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+                {scenes.map((scene) => (
+                  <button
+                    key={scene.id}
+                    type="button"
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('sceneId', scene.id);
+                      e.dataTransfer.effectAllowed = 'copy';
+                    }}
+                    onClick={() => addScene(scene.id)}
+                    className="bg-gray-800 rounded-lg overflow-hidden border border-gray-700 hover:border-indigo-500 text-left cursor-grab active:cursor-grabbing">
+                    <video
+                      src={scene.url}
+                      className="w-full aspect-video object-cover pointer-events-none"
+                      muted
+                      preload="metadata"
+                    />
+                    <p className="p-1.5 text-[10px] text-gray-400 line-clamp-2 leading-tight">
+                      {scene.title || scene.prompt || 'Untitled Scene'}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimelineEditor;
@@ -5,32 +5,46 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import {ArrowPathIcon, DownloadIcon, PencilIcon, PlusIcon, SparklesIcon} from './icons';
+import {downloadUrl} from '../utils/fileUtils';
+import {
+  ArrowPathIcon,
+  ColumnsIcon,
+  DownloadIcon,
+  LinkIcon,
+  PencilIcon,
+  PlusIcon,
+  SparklesIcon,
+} from './icons';
 
 interface VideoResultProps {
   videoUrl: string;
   onRetry: () => void;
+  onCompare: () => void;
+  // Set when the video was picked in a comparison that can be reopened
+  onBackToComparison?: () => void;
   onIterate: () => void;
   onNewVideo: () => void;
   onExtend: () => void;
+  onExtendChain: () => void;
   canExtend: boolean;
+  // False when the video is not a saved scene a chain can start from
+  canExtendChain: boolean;
 }
 
 const VideoResult: React.FC<VideoResultProps> = ({
   videoUrl,
   onRetry,
+  onCompare,
+  onBackToComparison,
   onIterate,
   onNewVideo,
   onExtend,
+  onExtendChain,
   canExtend,
+  canExtendChain,
 }) => {
   const handleDownload = () => {
-    const a = document.createElement('a');
-    a.href = videoUrl;
-    a.download = `veo-creation-${Date.now()}.mp4`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    downloadUrl(videoUrl, `veo-creation-${Date.now()}.mp4`);
   };
 
   return (
@@ -69,6 +83,21 @@ const VideoResult: React.FC<VideoResultProps> = ({
           <ArrowPathIcon className="w-5 h-5" />
           Retry
         </button>
+        <button
+          onClick={onCompare}
+          className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors"
+          title="Generate several takes and watch them side by side">
+          <ColumnsIcon className="w-5 h-5" />
+          Compare
+        </button>
+        {onBackToComparison && (
+          <button
+            onClick={onBackToComparison}
+            className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors">
+            <ColumnsIcon className="w-5 h-5" />
+            Back to Comparison
+          </button>
+        )}
         {canExtend && (
           <button
             onClick={onExtend}
@@ -77,6 +106,15 @@ const VideoResult: React.FC<VideoResultProps> = ({
             Extend
           </button>
         )}
+        {canExtend && canExtendChain && (
+          <button
+            onClick={onExtendChain}
+            className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors"
+            title="Run several extensions in a row">
+            <LinkIcon className="w-5 h-5" />
+            Extend Chain
+          </button>
+        )}
         <button
           onClick={onNewVideo}
           className="flex items-center gap-2 px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">
@@ -8,25 +8,39 @@ import {
   ArrowDown,
   ArrowRight,
   Baseline,
+  BookmarkPlus,
   Building2,
   ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Clapperboard,
+  Columns2,
   Download,
   Film,
   Image,
   KeyRound,
+  LayoutList,
   Layers,
+  Link2,
   Mountain,
   Palette,
+  Pause,
   Pencil,
+  Play,
   Plus,
   RefreshCw,
   SlidersHorizontal,
   Smile,
   Sparkles,
   Trash2,
+  Trophy,
   Tv,
+  Upload,
   UserPlus,
   Users,
+  Volume2,
+  VolumeX,
   Wand2,
   X,
 } from 'lucide-react';
@@ -135,3 +149,59 @@ export const UserPlusIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) =>
 export const TrashIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   <Trash2 {...defaultProps} {...props} />
 );
+
+export const ClapperboardIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
+  props,
+) => <Clapperboard {...defaultProps} {...props} />;
+
+export const PlayIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Play {...defaultProps} {...props} />
+);
+
+export const PauseIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Pause {...defaultProps} {...props} />
+);
+
+export const ChevronLeftIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
+  props,
+) => <ChevronLeft {...defaultProps} {...props} />;
+
+export const ChevronRightIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
+  props,
+) => <ChevronRight {...defaultProps} {...props} />;
+
+export const LinkIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Link2 {...defaultProps} {...props} />
+);
+
+export const ChevronUpIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
+  props,
+) => <ChevronUp {...defaultProps} {...props} />;
+
+export const StoryboardIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
+  props,
+) => <LayoutList {...defaultProps} {...props} />;
+
+export const UploadIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Upload {...defaultProps} {...props} />
+);
+
+export const BookmarkPlusIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
+  props,
+) => <BookmarkPlus {...defaultProps} {...props} />;
+
+export const ColumnsIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Columns2 {...defaultProps} {...props} />
+);
+
+export const TrophyIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Trophy {...defaultProps} {...props} />
+);
+
+export const VolumeIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Volume2 {...defaultProps} {...props} />
+);
+
+export const VolumeOffIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
+  props,
+) => <VolumeX {...defaultProps} {...props} />;
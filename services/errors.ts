@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export enum VideoErrorCode {
+  AUTH = 'auth',
+  QUOTA = 'quota',
+  SAFETY_BLOCKED = 'safety_blocked',
+  TIMEOUT = 'timeout',
+  DOWNLOAD_FAILED = 'download_failed',
+  INVALID_INPUT = 'invalid_input',
+  NO_VIDEOS = 'no_videos',
+  CANCELLED = 'cancelled',
+  UNKNOWN = 'unknown',
+}
+
+const DEFAULT_REMEDIATION: Record<VideoErrorCode, string> = {
+  [VideoErrorCode.AUTH]:
+    'Select a valid API key from a paid Google Cloud project with billing enabled.',
+  [VideoErrorCode.QUOTA]:
+    'You have hit a rate limit or quota. Wait a minute, then try again.',
+  [VideoErrorCode.SAFETY_BLOCKED]:
+    'The request was blocked by safety filters. Rephrase the prompt or replace the images and try again.',
+  [VideoErrorCode.TIMEOUT]:
+    'The video is taking longer than usual. It may still finish, so you can keep waiting.',
+  [VideoErrorCode.DOWNLOAD_FAILED]:
+    'The video was generated but could not be downloaded. Retrying the download will not generate it again.',
+  [VideoErrorCode.INVALID_INPUT]:
+    'Some settings or inputs are not supported. Check the mode, resolution and attached media.',
+  [VideoErrorCode.NO_VIDEOS]:
+    'The model finished without returning a video. Try again, possibly with a different prompt.',
+  [VideoErrorCode.CANCELLED]: 'The generation was cancelled.',
+  [VideoErrorCode.UNKNOWN]: 'Please try again.',
+};
+
+interface VideoGenerationErrorOptions {
+  status?: number;
+  // Lets TIMEOUT and DOWNLOAD_FAILED resume the operation instead of paying
+  // for a new one.
+  operationName?: string;
+  remediation?: string;
+  cause?: unknown;
+}
+
+export class VideoGenerationError extends Error {
+  code: VideoErrorCode;
+  remediation: string;
+  status?: number;
+  operationName?: string;
+  cause?: unknown;
+
+  constructor(
+    code: VideoErrorCode,
+    message: string,
+    {status, operationName, remediation, cause}: VideoGenerationErrorOptions = {},
+  ) {
+    super(message);
+    this.name = 'VideoGenerationError';
+    this.code = code;
+    this.remediation = remediation ?? DEFAULT_REMEDIATION[code];
+    this.status = status;
+    this.operationName = operationName;
+    this.cause = cause;
+  }
+}
+
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof VideoGenerationError &&
+  error.code === VideoErrorCode.CANCELLED;
+
+const AUTH_MESSAGES = [
+  'API_KEY_INVALID',
+  'API key not valid',
+  'permission denied',
+  // Returned by Veo when the key's project cannot see the model
+  'Requested entity was not found',
+];
+
+const classify = (status: number | undefined, message: string): VideoErrorCode => {
+  const lowerMessage = message.toLowerCase();
+  if (
+    status === 401 ||
+    status === 403 ||
+    AUTH_MESSAGES.some((m) => lowerMessage.includes(m.toLowerCase()))
+  ) {
+    return VideoErrorCode.AUTH;
+  }
+  if (status === 429 || lowerMessage.includes('resource_exhausted') || lowerMessage.includes('quota')) {
+    return VideoErrorCode.QUOTA;
+  }
+  if (lowerMessage.includes('safety') || lowerMessage.includes('responsible ai')) {
+    return VideoErrorCode.SAFETY_BLOCKED;
+  }
+  if (status === 400 || lowerMessage.includes('invalid_argument')) {
+    return VideoErrorCode.INVALID_INPUT;
+  }
+  return VideoErrorCode.UNKNOWN;
+};
+
+/**
+ * Converts anything thrown during a generation (SDK ApiErrors, fetch
+ * failures, plain Errors) into a VideoGenerationError. Errors that are
+ * already classified pass through unchanged.
+ */
+export const toVideoGenerationError = (error: unknown): VideoGenerationError => {
+  if (error instanceof VideoGenerationError) return error;
+
+  const message =
+    error instanceof Error ? error.message : 'An unknown error occurred.';
+  const rawStatus = (error as {status?: unknown} | null)?.status;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+
+  return new VideoGenerationError(classify(status, message), message, {
+    status,
+    cause: error,
+  });
+};
+
+/**
+ * Classifies the `error` field of a finished long-running operation. Its
+ * `code` is a google.rpc status code rather than an HTTP status.
+ */
+export const fromOperationError = (
+  operationError: Record<string, unknown>,
+  operationName?: string,
+): VideoGenerationError => {
+  const message =
+    typeof operationError.message === 'string'
+      ? operationError.message
+      : 'The video generation operation failed.';
+  // google.rpc codes: 3 INVALID_ARGUMENT, 7 PERMISSION_DENIED,
+  // 8 RESOURCE_EXHAUSTED, 16 UNAUTHENTICATED
+  const rpcToHttp: Record<number, number> = {3: 400, 7: 403, 8: 429, 16: 401};
+  const status =
+    typeof operationError.code === 'number'
+      ? rpcToHttp[operationError.code]
+      : undefined;
+  return new VideoGenerationError(classify(status, message), message, {
+    status,
+    operationName,
+  });
+};
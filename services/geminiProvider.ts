@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideosOperation, GoogleGenAI, Type} from '@google/genai';
+import {AspectRatio, GenerationMode} from '../types';
+import {
+  buildEnhancementInstructions,
+  parseEnhancementCandidates,
+} from '../utils/enhancement';
+import {
+  buildImagePromptInstructions,
+  cleanSuggestedPrompt,
+  IMAGE_ROLE_LABELS,
+} from '../utils/imagePrompt';
+import {parseShotList} from '../utils/storyboard';
+import {ProviderId, ProviderOperation, VideoProvider} from './videoProvider';
+import {buildVideoPayload} from './videoPayload';
+
+// Fast text model used for prompt enhancement and script splitting
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+const SHOT_LIST_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      summary: {type: Type.STRING},
+      prompt: {type: Type.STRING},
+      aspectRatio: {type: Type.STRING, enum: Object.values(AspectRatio)},
+      mode: {
+        type: Type.STRING,
+        enum: [GenerationMode.TEXT_TO_VIDEO, GenerationMode.EXTEND_VIDEO],
+      },
+    },
+    required: ['summary', 'prompt', 'aspectRatio', 'mode'],
+  },
+};
+
+const CANDIDATES_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      label: {type: Type.STRING},
+      prompt: {type: Type.STRING},
+    },
+    required: ['label', 'prompt'],
+  },
+};
+
+const toProviderOperation = (
+  operation: GenerateVideosOperation,
+): ProviderOperation => ({
+  name: operation.name ?? '',
+  done: Boolean(operation.done),
+  video: operation.response?.generatedVideos?.[0]?.video,
+  error: operation.error,
+  filteredCount: operation.response?.raiMediaFilteredCount,
+  filteredReasons: operation.response?.raiMediaFilteredReasons,
+});
+
+/** Generates videos with Veo through the Gemini API. */
+export const createGeminiProvider = (): VideoProvider => {
+  // Created per call so a key picked in the key dialog is used right away.
+  const getClient = () => new GoogleGenAI({apiKey: process.env.API_KEY});
+
+  return {
+    id: ProviderId.GEMINI,
+    requiresApiKey: true,
+
+    submit: async (params, signal) => {
+      const payload = buildVideoPayload(params);
+      if (payload.model !== params.model) {
+        console.log(
+          'Switching to Standard Veo model (non-fast) for advanced features (Extension or References).',
+        );
+      }
+      console.log('Submitting video generation request...', payload);
+      const operation = await getClient().models.generateVideos({
+        ...payload,
+        config: {...payload.config, abortSignal: signal},
+      });
+      console.log('Video generation operation started:', operation);
+      return toProviderOperation(operation);
+    },
+
+    poll: async (operationName) => {
+      const pending = new GenerateVideosOperation();
+      pending.name = operationName;
+      const operation = await getClient().operations.getVideosOperation({
+        operation: pending,
+      });
+      return toProviderOperation(operation);
+    },
+
+    download: (video, signal) => {
+      const url = decodeURIComponent(video.uri ?? '');
+      console.log('Fetching video from:', url);
+      return fetch(`${url}&key=${process.env.API_KEY}`, {signal});
+    },
+
+    enhance: async (prompt, context) => {
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: buildEnhancementInstructions(prompt, context),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: CANDIDATES_SCHEMA,
+        },
+      });
+      return parseEnhancementCandidates(JSON.parse(response.text || '[]'), prompt);
+    },
+
+    describeImages: async (images, context) => {
+      // The text model is multimodal; each image follows its label
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: {
+          parts: [
+            {text: buildImagePromptInstructions(images, context)},
+            ...images.flatMap(({role, image}) => [
+              {text: `${IMAGE_ROLE_LABELS[role]}:`},
+              {inlineData: {mimeType: image.file.type, data: image.base64}},
+            ]),
+          ],
+        },
+      });
+      return cleanSuggestedPrompt(response.text || '');
+    },
+
+    splitScript: async (script) => {
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: `You are a storyboard artist for video generation AI. Split the following script into an ordered list of shots of about 8 seconds each. For every shot give:
+- summary: the script line or beat it covers, kept short
+- prompt: a self-contained, visual video prompt (subject, action, setting, lighting, camera)
+- aspectRatio: "16:9" unless the script asks for vertical video
+- mode: "${GenerationMode.EXTEND_VIDEO}" when the shot continues the previous shot's action without a cut, otherwise "${GenerationMode.TEXT_TO_VIDEO}"
+
+    Script: ${script}`,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: SHOT_LIST_SCHEMA,
+        },
+      });
+      return parseShotList(JSON.parse(response.text || '[]'));
+    },
+  };
+};
@@ -3,210 +3,358 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import {Video} from '@google/genai';
 import {
-  GoogleGenAI,
-  Video,
-  VideoGenerationReferenceImage,
-  VideoGenerationReferenceType,
-} from '@google/genai';
-import {AspectRatio, GenerateVideoParams, GenerationMode, Resolution, VeoModel} from '../types';
-
-interface VideoGenerationConfig {
-  numberOfVideos: number;
-  resolution: Resolution;
-  aspectRatio?: AspectRatio;
-  referenceImages?: VideoGenerationReferenceImage[];
-  lastFrame?: {
-    imageBytes: string;
-    mimeType: string;
-  };
-}
+  EnhancementCandidate,
+  EnhancementContext,
+  GenerateVideoParams,
+  GenerationProgress,
+  GenerationStage,
+  PromptImage,
+  ShotSuggestion,
+} from '../types';
+import {validateVideoParams} from '../utils/validation';
+import {
+  fromOperationError,
+  toVideoGenerationError,
+  VideoErrorCode,
+  VideoGenerationError,
+} from './errors';
+import {
+  getMaxPollAttempts,
+  getPollDelay,
+  getRetryDelay,
+  isRetryableError,
+  PollingPolicy,
+  resolvePollingPolicy,
+} from './pollingPolicy';
+import {getVideoProvider} from './providerSelection';
+import {ProviderOperation} from './videoProvider';
 
-interface GenerateVideosParameters {
-  model: string;
-  config: VideoGenerationConfig;
-  prompt?: string;
-  image?: {
-    imageBytes: string;
-    mimeType: string;
-  };
-  video?: Video;
+export interface GeneratedVideo {
+  objectUrl: string;
+  blob: Blob;
+  uri: string;
+  video: Video;
 }
 
-export const generateVideo = async (
-  params: GenerateVideoParams,
-): Promise<{objectUrl: string; blob: Blob; uri: string; video: Video}> => {
-  console.log('Starting video generation with params:', params);
+export interface GenerateVideoOptions {
+  // Aborting stops polling and skips the download. The operation itself keeps
+  // running on the server; it just stops being tracked.
+  signal?: AbortSignal;
+  // Called once the server has accepted the request, with the name needed to
+  // resume tracking the operation later (see resumeVideoGeneration).
+  onOperationStarted?: (operationName: string) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+  // When the generation was first submitted. Elapsed times are measured from
+  // here, which matters when resuming. Defaults to now.
+  startedAt?: number;
+  // Overrides for DEFAULT_POLLING_POLICY.
+  pollingPolicy?: Partial<PollingPolicy>;
+}
 
-  const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+const cancelledError = () =>
+  new VideoGenerationError(
+    VideoErrorCode.CANCELLED,
+    'Video generation was cancelled.',
+  );
 
-  const config: VideoGenerationConfig = {
-    numberOfVideos: 1,
-    resolution: params.resolution,
-    aspectRatio: params.aspectRatio, // Always include aspect ratio
-  };
-
-  // Force Veo 3.1 Pro (not fast) if reference images are present OR if extending a video.
-  // The Fast model often does not support the 'video' property for extension or complex reference inputs.
-  let model = params.model;
-  if (
-      (params.referenceImages && params.referenceImages.length > 0) ||
-      params.mode === GenerationMode.EXTEND_VIDEO
-  ) {
-      model = VeoModel.VEO; // 'veo-3.1-generate-preview'
-      console.log('Switching to Standard Veo model (non-fast) for advanced features (Extension or References).');
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw cancelledError();
   }
+};
 
-  // Handle Last Frame Logic (Common to FRAMES mode and EXTEND mode)
-  // We calculate this early so we can use it to modify the prompt if needed.
-  // For Frames mode: it's the target end frame or start frame (if looping).
-  // For Extend mode: it's an optional guide for the extension.
-  const endFrame = (params.mode === GenerationMode.FRAMES_TO_VIDEO && params.isLooping)
-      ? params.startFrame
-      : params.endFrame;
-
-  const generateVideoPayload: GenerateVideosParameters = {
-    model: model,
-    config: config,
-  };
-
-  // Only add the prompt if it's not empty.
-  if (params.prompt) {
-    let finalPrompt = params.prompt;
-    
-    // Auto-enhance prompt for Extend Video with End Frame to ensure smooth transition
-    if (params.mode === GenerationMode.EXTEND_VIDEO && endFrame) {
-       console.log('Adding smooth transition instruction to prompt');
-       finalPrompt += ". The video must seamlessly transition from the input video to the provided last frame. Correct any inconsistencies between the input video's end and the target frame so the camera moves in one unified approach to the final frame.";
+// Resolves after `ms`, or rejects as soon as the signal is aborted.
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
     }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(cancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
 
-    generateVideoPayload.prompt = finalPrompt;
+// Every error leaving this module is a VideoGenerationError.
+const withErrorClassification = async <T>(
+  run: () => Promise<T>,
+): Promise<T> => {
+  try {
+    return await run();
+  } catch (error) {
+    throw toVideoGenerationError(error);
   }
+};
 
-  // Handle Reference Images (Common to REF mode and EXTEND mode)
-  if (params.mode === GenerationMode.REFERENCES_TO_VIDEO || params.mode === GenerationMode.EXTEND_VIDEO) {
-    const referenceImagesPayload: VideoGenerationReferenceImage[] = [];
-
-    if (params.referenceImages) {
-      for (const img of params.referenceImages) {
-        console.log(`Adding reference image: ${img.file.name}`);
-        referenceImagesPayload.push({
-          image: {
-            imageBytes: img.base64,
-            mimeType: img.file.type,
-          },
-          referenceType: VideoGenerationReferenceType.ASSET,
-        });
+/**
+ * Runs `request`, retrying transient failures as allowed by the policy.
+ * Aborting the signal stops retrying and surfaces a cancellation.
+ */
+const withRetry = async <T>(
+  request: () => Promise<T>,
+  policy: PollingPolicy,
+  signal?: AbortSignal,
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await request();
+    } catch (error) {
+      // fetch rejects with its own AbortError; report it as a cancellation
+      throwIfAborted(signal);
+      if (retry >= policy.maxRetries || !isRetryableError(error, policy)) {
+        throw error;
       }
-    }
-
-    if (params.styleImage) {
-      console.log(
-        `Adding style image as a reference: ${params.styleImage.file.name}`,
+      const delay = getRetryDelay(policy, retry + 1);
+      console.warn(
+        `Transient error, retrying in ${delay}ms (${retry + 1}/${policy.maxRetries}):`,
+        error,
       );
-      referenceImagesPayload.push({
-        image: {
-          imageBytes: params.styleImage.base64,
-          mimeType: params.styleImage.file.type,
-        },
-        referenceType: VideoGenerationReferenceType.STYLE,
-      });
+      await sleep(delay, signal);
     }
+  }
+};
 
-    if (referenceImagesPayload.length > 0) {
-      generateVideoPayload.config.referenceImages = referenceImagesPayload;
-    }
+// Streams the response body so download progress can be reported.
+const readBlobWithProgress = async (
+  res: Response,
+  onBytes: (loadedBytes: number, totalBytes?: number) => void,
+): Promise<Blob> => {
+  const totalBytes = Number(res.headers.get('content-length')) || undefined;
+  if (!res.body) {
+    const blob = await res.blob();
+    onBytes(blob.size, blob.size);
+    return blob;
   }
 
-  // Add Last Frame to payload if it exists
-  if (endFrame) {
-      if (params.mode === GenerationMode.FRAMES_TO_VIDEO || params.mode === GenerationMode.EXTEND_VIDEO) {
-        generateVideoPayload.config.lastFrame = {
-            imageBytes: endFrame.base64,
-            mimeType: endFrame.file.type,
-        };
-        console.log(`Generating with last frame: ${endFrame.file.name}`);
-      }
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loadedBytes = 0;
+  while (true) {
+    const {done, value} = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loadedBytes += value.byteLength;
+    onBytes(loadedBytes, totalBytes);
+  }
+  return new Blob(chunks, {
+    type: res.headers.get('content-type') ?? 'video/mp4',
+  });
+};
+
+const runGeneration = async (
+  params: GenerateVideoParams,
+  options: GenerateVideoOptions,
+): Promise<GeneratedVideo> => {
+  const {signal, onOperationStarted, onProgress} = options;
+  const startedAt = options.startedAt ?? Date.now();
+  console.log('Starting video generation with params:', params);
+  throwIfAborted(signal);
+
+  // Catch what the form would have caught, for callers that bypass it
+  // (retries, presets, resumed drafts) before paying for a round trip.
+  const issues = validateVideoParams(params);
+  if (issues.length > 0) {
+    throw new VideoGenerationError(
+      VideoErrorCode.INVALID_INPUT,
+      issues.map((issue) => issue.message).join(' '),
+    );
   }
+  onProgress?.({stage: GenerationStage.SUBMITTING, elapsedMs: 0});
 
-  // Handle Mode Specific Inputs (Start Image vs Input Video)
-  if (params.mode === GenerationMode.FRAMES_TO_VIDEO) {
-    if (params.startFrame) {
-      generateVideoPayload.image = {
-        imageBytes: params.startFrame.base64,
-        mimeType: params.startFrame.file.type,
-      };
-      console.log(
-        `Generating with start frame: ${params.startFrame.file.name}`,
-      );
-    }
-  } else if (params.mode === GenerationMode.EXTEND_VIDEO) {
-    if (params.inputVideoObject) {
-      generateVideoPayload.video = params.inputVideoObject;
-      console.log(`Generating extension from input video object:`, params.inputVideoObject);
-    } else {
-      throw new Error('An input video object is required to extend a video.');
-    }
+  const operation = await getVideoProvider().submit(params, signal);
+  if (operation.name) {
+    onOperationStarted?.(operation.name);
   }
+  throwIfAborted(signal);
+  onProgress?.({
+    stage: GenerationStage.SUBMITTED,
+    elapsedMs: Date.now() - startedAt,
+  });
+
+  return pollAndDownload(operation, {...options, startedAt});
+};
+
+export const generateVideo = (
+  params: GenerateVideoParams,
+  options: GenerateVideoOptions = {},
+): Promise<GeneratedVideo> =>
+  withErrorClassification(() => runGeneration(params, options));
 
-  console.log('Submitting video generation request...', generateVideoPayload);
-  let operation = await ai.models.generateVideos(generateVideoPayload);
-  console.log('Video generation operation started:', operation);
+const runResume = async (
+  operationName: string,
+  options: GenerateVideoOptions,
+): Promise<GeneratedVideo> => {
+  const {signal} = options;
+  console.log('Resuming video generation operation:', operationName);
+  throwIfAborted(signal);
+
+  // Check right away; the video may have finished while the page was closed.
+  const operation = await withRetry(
+    () => getVideoProvider().poll(operationName, signal),
+    resolvePollingPolicy(options.pollingPolicy),
+    signal,
+  );
+  throwIfAborted(signal);
+
+  return pollAndDownload(operation, {
+    ...options,
+    startedAt: options.startedAt ?? Date.now(),
+  });
+};
 
-  const MAX_ATTEMPTS = 60; // 10 minutes (60 * 10s)
+/**
+ * Picks up an operation submitted by an earlier session (e.g. before a page
+ * reload, or after a timeout) and finishes it the same way generateVideo
+ * would.
+ */
+export const resumeVideoGeneration = (
+  operationName: string,
+  options: GenerateVideoOptions = {},
+): Promise<GeneratedVideo> =>
+  withErrorClassification(() => runResume(operationName, options));
+
+const pollAndDownload = async (
+  initialOperation: ProviderOperation,
+  {
+    signal,
+    onProgress,
+    startedAt,
+    pollingPolicy,
+  }: GenerateVideoOptions & {startedAt: number},
+): Promise<GeneratedVideo> => {
+  const provider = getVideoProvider();
+  const policy = resolvePollingPolicy(pollingPolicy);
+  const maxAttempts = getMaxPollAttempts(policy);
+  let operation = initialOperation;
   let attempts = 0;
 
-  while (!operation.done && attempts < MAX_ATTEMPTS) {
-    await new Promise((resolve) => setTimeout(resolve, 10000));
-    console.log('...Generating...');
-    operation = await ai.operations.getVideosOperation({operation: operation});
+  while (!operation.done && attempts < maxAttempts) {
     attempts++;
+    await sleep(getPollDelay(policy, attempts), signal);
+    console.log('...Generating...');
+    onProgress?.({
+      stage: GenerationStage.POLLING,
+      attempt: attempts,
+      maxAttempts,
+      elapsedMs: Date.now() - startedAt,
+    });
+    const current = operation;
+    operation = await withRetry(
+      () => provider.poll(current.name, signal),
+      policy,
+      signal,
+    );
+    throwIfAborted(signal);
   }
 
+  const operationName = operation.name;
+
   if (!operation.done) {
-     throw new Error('Video generation timed out after 10 minutes. Please try again.');
+     const minutes = Math.round(policy.maxWaitMs / 60000);
+     throw new VideoGenerationError(
+       VideoErrorCode.TIMEOUT,
+       `Video generation timed out after ${minutes} minutes.`,
+       {operationName},
+     );
   }
 
-  if (operation?.response) {
-    const videos = operation.response.generatedVideos;
-
-    if (!videos || videos.length === 0) {
-      throw new Error('Video generation completed but no videos were returned. This may indicate an issue with the API or the request parameters.');
-    }
+  if (operation.error) {
+    console.error('Operation failed:', operation);
+    throw fromOperationError(operation.error, operationName);
+  }
 
-    const firstVideo = videos[0];
-    if (!firstVideo?.video?.uri) {
-      throw new Error('Generated video is missing a URI.');
+  const videoObject = operation.video;
+  if (!videoObject) {
+    const filterReasons = operation.filteredReasons ?? [];
+    if (operation.filteredCount || filterReasons.length > 0) {
+      throw new VideoGenerationError(
+        VideoErrorCode.SAFETY_BLOCKED,
+        filterReasons.length > 0
+          ? `The video was blocked by safety filters: ${filterReasons.join(' ')}`
+          : 'The video was blocked by safety filters.',
+      );
     }
-    const videoObject = firstVideo.video;
-
-    const url = decodeURIComponent(videoObject.uri);
-    console.log('Fetching video from:', url);
+    throw new VideoGenerationError(
+      VideoErrorCode.NO_VIDEOS,
+      'Video generation completed but no videos were returned. This may indicate an issue with the API or the request parameters.',
+    );
+  }
+  if (!videoObject.uri) {
+    throw new VideoGenerationError(
+      VideoErrorCode.NO_VIDEOS,
+      'Generated video is missing a URI.',
+    );
+  }
 
-    const res = await fetch(`${url}&key=${process.env.API_KEY}`);
+  throwIfAborted(signal);
 
-    if (!res.ok) {
-      throw new Error(`Failed to fetch video: ${res.status} ${res.statusText}`);
-    }
+  // A failed download restarts from the first byte
+  const videoBlob = await withRetry(
+    async () => {
+      onProgress?.({
+        stage: GenerationStage.DOWNLOADING,
+        loadedBytes: 0,
+        elapsedMs: Date.now() - startedAt,
+      });
+      const res = await provider.download(videoObject, signal);
+      if (!res.ok) {
+        throw new VideoGenerationError(
+          VideoErrorCode.DOWNLOAD_FAILED,
+          `Failed to fetch video: ${res.status} ${res.statusText}`,
+          {status: res.status, operationName},
+        );
+      }
+      return readBlobWithProgress(res, (loadedBytes, totalBytes) =>
+        onProgress?.({
+          stage: GenerationStage.DOWNLOADING,
+          loadedBytes,
+          totalBytes,
+          elapsedMs: Date.now() - startedAt,
+        }),
+      );
+    },
+    policy,
+    signal,
+  ).catch((error) => {
+    const classified = toVideoGenerationError(error);
+    if (classified.code === VideoErrorCode.CANCELLED) throw classified;
+    // Whatever went wrong, the video exists and can be fetched again
+    throw new VideoGenerationError(
+      VideoErrorCode.DOWNLOAD_FAILED,
+      classified.message,
+      {status: classified.status, operationName, cause: error},
+    );
+  });
 
-    const videoBlob = await res.blob();
-    const objectUrl = URL.createObjectURL(videoBlob);
+  const objectUrl = URL.createObjectURL(videoBlob);
 
-    return {objectUrl, blob: videoBlob, uri: url, video: videoObject};
-  } else {
-    console.error('Operation failed:', operation);
-    throw new Error('No videos generated.');
-  }
+  return {
+    objectUrl,
+    blob: videoBlob,
+    uri: decodeURIComponent(videoObject.uri),
+    video: videoObject,
+  };
 };
 
-export const enhancePrompt = async (prompt: string): Promise<string> => {
-  const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
-  // Use gemini-2.5-flash for fast text enhancement
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: `You are an expert prompt engineer for video generation AI. Rewrite the following user prompt to be more descriptive, visual, and detailed to produce a high-quality video. Focus on lighting, camera angles, texture, and motion. Keep it concise (max 3 sentences). Output ONLY the enhanced prompt.
+export const enhancePrompt = (
+  prompt: string,
+  context: EnhancementContext,
+): Promise<EnhancementCandidate[]> =>
+  getVideoProvider().enhance(prompt, context);
 
-    User Prompt: ${prompt}`,
-  });
-  return response.text || prompt;
-};
+export const suggestPromptFromImages = (
+  images: PromptImage[],
+  context: EnhancementContext,
+): Promise<string> => getVideoProvider().describeImages(images, context);
+
+export const splitScriptIntoShots = (
+  script: string,
+): Promise<ShotSuggestion[]> => getVideoProvider().splitScript(script);
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationJob,
+  GenerationMode,
+  JobStatus,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {GeneratedVideo} from './geminiService';
+import {
+  clampConcurrency,
+  createJobQueue,
+  MAX_CONCURRENCY,
+  toPendingOperation,
+} from './jobQueue';
+
+const params: GenerateVideoParams = {
+  prompt: 'A heron in the reeds',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+const video: GeneratedVideo = {
+  objectUrl: 'blob:video',
+  blob: new Blob(['video']),
+  uri: 'https://example.com/video',
+  video: {uri: 'https://example.com/video'},
+};
+
+// Lets pending promise callbacks run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+interface Run {
+  job: GenerationJob;
+  signal: AbortSignal;
+  resolve: (result: GeneratedVideo) => void;
+  reject: (error: unknown) => void;
+}
+
+// A queue whose runs finish only when the test says so
+const setup = (
+  concurrency: number,
+  callbacks: {onSuccess?: (job: GenerationJob) => void} = {},
+) => {
+  const runs: Run[] = [];
+  const events: string[] = [];
+  let jobs: GenerationJob[] = [];
+  const queue = createJobQueue({
+    concurrency,
+    run: (job, {signal}) =>
+      new Promise<GeneratedVideo>((resolve, reject) => {
+        runs.push({job, signal, resolve, reject});
+        signal.addEventListener('abort', () =>
+          reject(new DOMException('Aborted', 'AbortError')),
+        );
+      }),
+    onChange: (next) => {
+      jobs = next;
+    },
+    onQueued: (job) => events.push(`queued:${job.id}`),
+    onSuccess: (job) => {
+      events.push(`success:${job.id}`);
+      callbacks.onSuccess?.(job);
+    },
+    onError: (job, error) => events.push(`error:${job.id}:${error.message}`),
+    onCancel: (job) => events.push(`cancel:${job.id}`),
+  });
+  const statusOf = (id: string) => jobs.find((job) => job.id === id)?.status;
+  return {queue, runs, events, statusOf};
+};
+
+describe('createJobQueue', () => {
+  it('runs at most `concurrency` jobs, in the order they were queued', async () => {
+    const {queue, runs, statusOf} = setup(1);
+    const first = queue.enqueue(params, {id: 'a'});
+    const second = queue.enqueue(params, {id: 'b'});
+    expect(runs.map((run) => run.job.id)).toEqual(['a']);
+    expect(statusOf(second.id)).toBe(JobStatus.QUEUED);
+
+    runs[0].resolve(video);
+    await flush();
+    expect(statusOf(first.id)).toBe(JobStatus.SUCCEEDED);
+    expect(runs.map((run) => run.job.id)).toEqual(['a', 'b']);
+  });
+
+  it('starts waiting jobs when the concurrency is raised', () => {
+    const {queue, runs} = setup(1);
+    queue.enqueue(params, {id: 'a'});
+    queue.enqueue(params, {id: 'b'});
+    queue.setConcurrency(2);
+    expect(runs).toHaveLength(2);
+  });
+
+  it('drops a queued job without running it', () => {
+    const {queue, runs, events, statusOf} = setup(1);
+    queue.enqueue(params, {id: 'a'});
+    queue.enqueue(params, {id: 'b'});
+    queue.cancel('b');
+    expect(statusOf('b')).toBe(JobStatus.CANCELLED);
+    expect(events).toEqual(['queued:a', 'queued:b', 'cancel:b']);
+    expect(runs).toHaveLength(1);
+  });
+
+  it('aborts a running job and reports it as cancelled', async () => {
+    const {queue, runs, events, statusOf} = setup(1);
+    queue.enqueue(params, {id: 'a'});
+    queue.cancel('a');
+    expect(runs[0].signal.aborted).toBe(true);
+    await flush();
+    expect(statusOf('a')).toBe(JobStatus.CANCELLED);
+    expect(events).toEqual(['queued:a', 'cancel:a']);
+  });
+
+  it('resumes a job under its old id, once', () => {
+    const {queue, runs, events} = setup(2);
+    queue.enqueue(params, {
+      id: 'old',
+      operationName: 'operations/1',
+      createdAt: 5,
+    });
+    expect(queue.enqueue(params, {id: 'old'})).toBe(queue.getJob('old'));
+    expect(events).toEqual(['queued:old']);
+    expect(runs).toHaveLength(1);
+    expect(runs[0].job).toMatchObject({
+      id: 'old',
+      operationName: 'operations/1',
+      createdAt: 5,
+    });
+  });
+
+  it('queues a timed-out operation again with its operation name', async () => {
+    const {queue, runs, events} = setup(1);
+    queue.enqueue(params, {id: 'a'});
+    runs[0].reject(new Error('Timed out waiting for the video.'));
+    await flush();
+
+    const resumed = queue.enqueue(params, {operationName: 'operations/1'});
+    expect(resumed.id).not.toBe('a');
+    expect(events).toContain(`queued:${resumed.id}`);
+    expect(toPendingOperation(resumed)).toMatchObject({
+      jobId: resumed.id,
+      operationName: 'operations/1',
+      params,
+    });
+    expect(runs[1].job.operationName).toBe('operations/1');
+  });
+
+  it('marks failed jobs and carries on with the next one', async () => {
+    const {queue, runs, events, statusOf} = setup(1);
+    queue.enqueue(params, {id: 'a'});
+    queue.enqueue(params, {id: 'b'});
+    runs[0].reject(new Error('Quota exceeded'));
+    await flush();
+    expect(statusOf('a')).toBe(JobStatus.FAILED);
+    expect(queue.getJob('a')?.error?.message).toBe('Quota exceeded');
+    expect(events).toEqual([
+      'queued:a',
+      'queued:b',
+      'error:a:Quota exceeded',
+    ]);
+    expect(runs).toHaveLength(2);
+  });
+
+  it('wraps failures that are not errors', async () => {
+    const {queue, runs, events} = setup(1);
+    queue.enqueue(params, {id: 'a'});
+    runs[0].reject('nope');
+    await flush();
+    expect(events).toEqual([
+      'queued:a',
+      'error:a:An unknown error occurred.',
+    ]);
+  });
+
+  it('keeps a job succeeded when its success callback throws', async () => {
+    const {queue, runs, events, statusOf} = setup(1, {
+      onSuccess: () => {
+        throw new Error('Saving failed');
+      },
+    });
+    queue.enqueue(params, {id: 'a'});
+    queue.enqueue(params, {id: 'b'});
+    runs[0].resolve(video);
+    await flush();
+    expect(statusOf('a')).toBe(JobStatus.SUCCEEDED);
+    expect(events).toEqual(['queued:a', 'queued:b', 'success:a']);
+    expect(runs).toHaveLength(2);
+  });
+
+  it('only dismisses finished jobs', async () => {
+    const {queue, runs} = setup(1);
+    queue.enqueue(params, {id: 'a'});
+    queue.dismiss('a');
+    expect(queue.getJob('a')).toBeDefined();
+    runs[0].resolve(video);
+    await flush();
+    queue.dismiss('a');
+    expect(queue.getJob('a')).toBeUndefined();
+  });
+});
+
+describe('clampConcurrency', () => {
+  it('keeps whole numbers within the allowed range', () => {
+    expect(clampConcurrency(0)).toBe(1);
+    expect(clampConcurrency(2.7)).toBe(2);
+    expect(clampConcurrency(99)).toBe(MAX_CONCURRENCY);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerateVideoParams,
+  GenerationJob,
+  GenerationProgress,
+  JobStatus,
+  PendingOperation,
+} from '../types';
+import {createId} from '../utils/ids';
+import {GeneratedVideo} from './geminiService';
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 4;
+
+interface JobQueueOptions {
+  concurrency: number;
+  run: (
+    job: GenerationJob,
+    options: {
+      signal: AbortSignal;
+      onProgress: (progress: GenerationProgress) => void;
+    },
+  ) => Promise<GeneratedVideo>;
+  // Called with a fresh array every time any job changes.
+  onChange: (jobs: GenerationJob[]) => void;
+  // Called once for every job added, before it can start.
+  onQueued: (job: GenerationJob) => void;
+  onSuccess: (job: GenerationJob, result: GeneratedVideo) => void;
+  onError: (job: GenerationJob, error: Error) => void;
+  onCancel: (job: GenerationJob) => void;
+}
+
+interface EnqueueOptions {
+  // Reuse an existing id, e.g. when resuming a job from an earlier session.
+  id?: string;
+  operationName?: string;
+  createdAt?: number;
+}
+
+export interface JobQueue {
+  enqueue: (
+    params: GenerateVideoParams,
+    options?: EnqueueOptions,
+  ) => GenerationJob;
+  setConcurrency: (concurrency: number) => void;
+  // Drops a queued job, or aborts a running one.
+  cancel: (id: string) => void;
+  // Removes a finished job from the list. Queued or running jobs are kept.
+  dismiss: (id: string) => void;
+  getJob: (id: string) => GenerationJob | undefined;
+}
+
+export const clampConcurrency = (value: number) =>
+  Math.min(Math.max(1, Math.floor(value)), MAX_CONCURRENCY);
+
+export const isJobFinished = (job: GenerationJob) =>
+  job.status === JobStatus.SUCCEEDED ||
+  job.status === JobStatus.FAILED ||
+  job.status === JobStatus.CANCELLED;
+
+/** What to save so a job can be picked up again after a reload. */
+export const toPendingOperation = (job: GenerationJob): PendingOperation => ({
+  jobId: job.id,
+  operationName: job.operationName,
+  params: job.params,
+  submittedAt: job.createdAt,
+});
+
+/**
+ * Runs video generations in the background, at most `concurrency` at a time,
+ * in the order they were submitted.
+ */
+export const createJobQueue = ({
+  concurrency,
+  run,
+  onChange,
+  onQueued,
+  onSuccess,
+  onError,
+  onCancel,
+}: JobQueueOptions): JobQueue => {
+  let jobs: GenerationJob[] = [];
+  let limit = clampConcurrency(concurrency);
+  const controllers = new Map<string, AbortController>();
+
+  const getJob = (id: string) => jobs.find((job) => job.id === id);
+
+  const update = (id: string, changes: Partial<GenerationJob>) => {
+    jobs = jobs.map((job) => (job.id === id ? {...job, ...changes} : job));
+    onChange(jobs);
+  };
+
+  // A job's state is settled before its callback runs, so a callback that
+  // throws must neither change the state nor stop the queue.
+  const notify = (callback: () => void) => {
+    try {
+      callback();
+    } catch (error) {
+      console.error('Failed to handle a job update:', error);
+    }
+  };
+
+  const start = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, {status: JobStatus.RUNNING, startedAt: Date.now()});
+    let result: GeneratedVideo;
+    try {
+      result = await run(job, {
+        signal: controller.signal,
+        onProgress: (progress) => update(job.id, {progress}),
+      });
+    } catch (caught) {
+      controllers.delete(job.id);
+      if (controller.signal.aborted) {
+        update(job.id, {status: JobStatus.CANCELLED, finishedAt: Date.now()});
+        notify(() => onCancel(getJob(job.id) ?? job));
+      } else {
+        const error =
+          caught instanceof Error ? caught : new Error('An unknown error occurred.');
+        update(job.id, {
+          status: JobStatus.FAILED,
+          finishedAt: Date.now(),
+          error,
+        });
+        notify(() => onError(getJob(job.id) ?? job, error));
+      }
+      pump();
+      return;
+    }
+    controllers.delete(job.id);
+    update(job.id, {status: JobStatus.SUCCEEDED, finishedAt: Date.now()});
+    notify(() => onSuccess(getJob(job.id) ?? job, result));
+    pump();
+  };
+
+  const pump = () => {
+    let running = jobs.filter((job) => job.status === JobStatus.RUNNING).length;
+    for (const job of jobs) {
+      if (running >= limit) break;
+      if (job.status === JobStatus.QUEUED) {
+        running++;
+        start(job);
+      }
+    }
+  };
+
+  return {
+    enqueue: (params, {id, operationName, createdAt} = {}) => {
+      const existing = id ? getJob(id) : undefined;
+      if (existing) return existing;
+
+      const job: GenerationJob = {
+        id: id ?? createId(),
+        params,
+        status: JobStatus.QUEUED,
+        createdAt: createdAt ?? Date.now(),
+        operationName,
+      };
+      jobs = [...jobs, job];
+      onChange(jobs);
+      notify(() => onQueued(job));
+      pump();
+      return job;
+    },
+    cancel: (id) => {
+      const job = getJob(id);
+      if (job?.status === JobStatus.QUEUED) {
+        update(id, {status: JobStatus.CANCELLED, finishedAt: Date.now()});
+        notify(() => onCancel(getJob(id) ?? job));
+      } else if (job?.status === JobStatus.RUNNING) {
+        controllers.get(id)?.abort();
+      }
+    },
+    setConcurrency: (value) => {
+      limit = clampConcurrency(value);
+      pump();
+    },
+    dismiss: (id) => {
+      const job = getJob(id);
+      if (job && isJobFinished(job)) {
+        jobs = jobs.filter((j) => j.id !== id);
+        onChange(jobs);
+      }
+    },
+    getJob,
+  };
+};
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  EnhancementCandidate,
+  EnhancementContext,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageRole,
+  PromptImage,
+  ShotSuggestion,
+} from '../types';
+import {parseEnhancementCandidates} from '../utils/enhancement';
+import {parseShotList} from '../utils/storyboard';
+import {VideoErrorCode, VideoGenerationError} from './errors';
+import {ProviderId, ProviderOperation, VideoProvider} from './videoProvider';
+
+export interface MockProviderOptions {
+  // How long each operation "renders" before it is reported as done.
+  latencyMs: number;
+  // Makes every generation fail this way. A `[mock:<code>]` directive in the
+  // prompt does the same for a single generation.
+  failure: VideoErrorCode | null;
+}
+
+const DEFAULT_MOCK_OPTIONS: MockProviderOptions = {
+  latencyMs: 8000,
+  failure: null,
+};
+
+const CLIPS: Record<AspectRatio, string> = {
+  [AspectRatio.LANDSCAPE]: new URL('../assets/mock/landscape.mp4', import.meta.url)
+    .href,
+  [AspectRatio.PORTRAIT]: new URL('../assets/mock/portrait.mp4', import.meta.url)
+    .href,
+};
+
+const FAILURE_DIRECTIVE = /\[mock:([a-z_]+)\]/i;
+
+// Paragraphs opening like this continue the previous shot
+const CONTINUATION = /^(then|next|continu|later)/i;
+
+// One shot per paragraph, or per sentence if the script is one paragraph.
+const splitScriptLocally = (script: string): ShotSuggestion[] => {
+  const paragraphs = script.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  const parts =
+    paragraphs.length > 1
+      ? paragraphs
+      : script.split(/(?<=[.!?])\s+/).map((p) => p.trim()).filter(Boolean);
+  return parseShotList(
+    parts.map((part) => ({
+      summary: part.split('\n')[0],
+      prompt: part.replace(/\s+/g, ' '),
+      aspectRatio: AspectRatio.LANDSCAPE,
+      mode: CONTINUATION.test(part)
+        ? GenerationMode.EXTEND_VIDEO
+        : GenerationMode.TEXT_TO_VIDEO,
+    })),
+  );
+};
+
+// Canned detail per mode, so enhancement visibly follows the form
+const MODE_DETAILS: Record<GenerationMode, string> = {
+  [GenerationMode.TEXT_TO_VIDEO]: 'soft golden-hour lighting, shallow depth of field',
+  [GenerationMode.FRAMES_TO_VIDEO]:
+    'moving smoothly and continuously from the first frame to the last',
+  [GenerationMode.REFERENCES_TO_VIDEO]:
+    'the referenced subjects staying true to their look',
+  [GenerationMode.EXTEND_VIDEO]:
+    'continuing the previous shot without a cut',
+};
+
+const enhanceLocally = (
+  prompt: string,
+  context: EnhancementContext,
+): EnhancementCandidate[] => {
+  const base = prompt.trim().replace(/[.!]+$/, '');
+  const framing =
+    context.aspectRatio === AspectRatio.PORTRAIT
+      ? 'framed for vertical video'
+      : 'wide cinematic framing';
+  return parseEnhancementCandidates(
+    [
+      {label: 'Faithful', prompt: `${base}, ${MODE_DETAILS[context.mode]}.`},
+      {
+        label: 'Cinematic',
+        prompt: `${base}. Slow dolly-in camera motion, ${framing}, ${MODE_DETAILS[context.mode]}.`,
+      },
+      {
+        label: 'Bold',
+        prompt: `${base}, reimagined with dramatic contrast and a sweeping handheld camera, ${framing}.`,
+      },
+    ],
+    prompt,
+  );
+};
+
+// Canned prompt built from which images are attached, not what they show
+const describeImagesLocally = (
+  images: PromptImage[],
+  context: EnhancementContext,
+): string => {
+  const has = (role: ImageRole) => images.some((image) => image.role === role);
+  const references = images.filter((image) => image.role === ImageRole.REFERENCE);
+  const subject =
+    references.length > 0
+      ? `The ${references.length === 1 ? 'referenced subject' : 'referenced subjects'}`
+      : 'The subject of the frame';
+  const motion = has(ImageRole.END_FRAME)
+    ? 'moves steadily toward the pose of the end frame while the camera glides alongside'
+    : context.isLooping
+      ? 'sways gently and settles back into its opening pose'
+      : 'comes to life with subtle motion as the camera slowly pushes in';
+  const style = has(ImageRole.STYLE) ? ', rendered in the style reference' : '';
+  return `${subject} ${motion}, in a softly lit setting with natural light${style}.`;
+};
+
+interface MockOperation {
+  submittedAt: number;
+  aspectRatio: AspectRatio;
+  failure: VideoErrorCode | null;
+}
+
+const getFailure = (
+  params: GenerateVideoParams,
+  fallback: VideoErrorCode | null,
+): VideoErrorCode | null => {
+  const code = params.prompt.match(FAILURE_DIRECTIVE)?.[1].toLowerCase();
+  return code && Object.values(VideoErrorCode).includes(code as VideoErrorCode)
+    ? (code as VideoErrorCode)
+    : fallback;
+};
+
+// Failures the real API reports when the request is submitted.
+const SUBMIT_FAILURES: Partial<
+  Record<VideoErrorCode, {message: string; status?: number}>
+> = {
+  [VideoErrorCode.AUTH]: {message: 'Mock provider: API key not valid.', status: 401},
+  [VideoErrorCode.QUOTA]: {message: 'Mock provider: RESOURCE_EXHAUSTED.', status: 429},
+  [VideoErrorCode.INVALID_INPUT]: {message: 'Mock provider: INVALID_ARGUMENT.', status: 400},
+  [VideoErrorCode.UNKNOWN]: {message: 'Mock provider: something went wrong.'},
+};
+
+/**
+ * Simulates the Veo API in memory and returns bundled sample clips, so the UI
+ * can be developed and demoed without an API key or quota. Failures can be
+ * forced per generation or for the whole session.
+ */
+export const createMockProvider = (
+  overrides: Partial<MockProviderOptions> = {},
+): VideoProvider => {
+  const options = {...DEFAULT_MOCK_OPTIONS, ...overrides};
+  const operations = new Map<string, MockOperation>();
+  let nextId = 1;
+
+  const toProviderOperation = (name: string): ProviderOperation => {
+    const operation = operations.get(name);
+    // Operations from before a page reload are treated as finished.
+    if (!operation) {
+      return {
+        name,
+        done: true,
+        video: {uri: CLIPS[AspectRatio.LANDSCAPE], mimeType: 'video/mp4'},
+      };
+    }
+
+    const done =
+      operation.failure !== VideoErrorCode.TIMEOUT &&
+      Date.now() - operation.submittedAt >= options.latencyMs;
+    if (!done) return {name, done};
+
+    switch (operation.failure) {
+      case VideoErrorCode.SAFETY_BLOCKED:
+        return {
+          name,
+          done,
+          filteredCount: 1,
+          filteredReasons: ['Mock provider: the prompt was flagged.'],
+        };
+      case VideoErrorCode.NO_VIDEOS:
+        return {name, done};
+      default:
+        return {
+          name,
+          done,
+          // The fragment lets download() find the operation again.
+          video: {
+            uri: `${CLIPS[operation.aspectRatio]}#${name}`,
+            mimeType: 'video/mp4',
+          },
+        };
+    }
+  };
+
+  return {
+    id: ProviderId.MOCK,
+    requiresApiKey: false,
+
+    submit: async (params) => {
+      const failure = getFailure(params, options.failure);
+      const submitFailure = failure && SUBMIT_FAILURES[failure];
+      if (submitFailure) {
+        throw new VideoGenerationError(failure, submitFailure.message, {
+          status: submitFailure.status,
+        });
+      }
+
+      const name = `mock-operations/${Date.now()}-${nextId++}`;
+      operations.set(name, {
+        submittedAt: Date.now(),
+        aspectRatio: params.aspectRatio,
+        failure,
+      });
+      console.log('Mock video generation operation started:', name);
+      return toProviderOperation(name);
+    },
+
+    poll: async (operationName) => toProviderOperation(operationName),
+
+    download: async (video, signal) => {
+      const [url, name] = (video.uri ?? '').split('#');
+      const operation = operations.get(name);
+      if (
+        options.failure === VideoErrorCode.DOWNLOAD_FAILED ||
+        operation?.failure === VideoErrorCode.DOWNLOAD_FAILED
+      ) {
+        return new Response(null, {
+          status: 503,
+          statusText: 'Mock provider: download unavailable',
+        });
+      }
+      return fetch(url, {signal});
+    },
+
+    enhance: async (prompt, context) => enhanceLocally(prompt, context),
+
+    describeImages: async (images, context) =>
+      describeImagesLocally(images, context),
+
+    splitScript: async (script) => splitScriptLocally(script),
+  };
+};
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  DEFAULT_POLLING_POLICY,
+  getMaxPollAttempts,
+  getPollDelay,
+  getRetryDelay,
+  isRetryableError,
+  resolvePollingPolicy,
+} from './pollingPolicy';
+
+describe('resolvePollingPolicy', () => {
+  it('applies overrides on top of the defaults', () => {
+    expect(resolvePollingPolicy({maxRetries: 1})).toEqual({
+      ...DEFAULT_POLLING_POLICY,
+      maxRetries: 1,
+    });
+  });
+
+  it('clamps intervals and backoff that would never use up the wait', () => {
+    const policy = resolvePollingPolicy({
+      initialIntervalMs: 0,
+      backoffFactor: 0.5,
+      maxIntervalMs: 0,
+    });
+    expect(policy.initialIntervalMs).toBe(1);
+    expect(policy.backoffFactor).toBe(1);
+    expect(policy.maxIntervalMs).toBe(1);
+    expect(
+      getMaxPollAttempts(
+        resolvePollingPolicy({initialIntervalMs: 0, backoffFactor: 1, maxWaitMs: 50}),
+      ),
+    ).toBe(50);
+  });
+
+  it('treats values that are not numbers as the minimum', () => {
+    expect(resolvePollingPolicy({initialIntervalMs: NaN}).initialIntervalMs).toBe(
+      1,
+    );
+  });
+});
+
+describe('getPollDelay', () => {
+  it('backs off from the initial interval up to the maximum', () => {
+    const policy = resolvePollingPolicy({
+      initialIntervalMs: 1000,
+      backoffFactor: 2,
+      maxIntervalMs: 3000,
+    });
+    expect([1, 2, 3, 4].map((attempt) => getPollDelay(policy, attempt))).toEqual(
+      [1000, 2000, 3000, 3000],
+    );
+  });
+});
+
+describe('getMaxPollAttempts', () => {
+  it('counts the checks that start within the maximum wait', () => {
+    const policy = resolvePollingPolicy({
+      initialIntervalMs: 1000,
+      backoffFactor: 1,
+      maxWaitMs: 3500,
+    });
+    expect(getMaxPollAttempts(policy)).toBe(4);
+  });
+
+  it('stops counting at a cap for an unbounded wait', () => {
+    expect(
+      getMaxPollAttempts(resolvePollingPolicy({maxWaitMs: Infinity})),
+    ).toBe(10000);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles on every retry up to the maximum interval', () => {
+    const policy = resolvePollingPolicy({
+      initialIntervalMs: 1000,
+      retryDelayMs: 1000,
+      maxIntervalMs: 3000,
+    });
+    expect([1, 2, 3].map((retry) => getRetryDelay(policy, retry))).toEqual([
+      1000, 2000, 3000,
+    ]);
+  });
+});
+
+describe('isRetryableError', () => {
+  const policy = DEFAULT_POLLING_POLICY;
+
+  it('retries the statuses the policy lists', () => {
+    expect(isRetryableError({status: 503}, policy)).toBe(true);
+    expect(isRetryableError({status: 400}, policy)).toBe(false);
+  });
+
+  it('retries fetch network failures', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'), policy)).toBe(true);
+    expect(
+      isRetryableError(
+        new TypeError('NetworkError when attempting to fetch resource.'),
+        policy,
+      ),
+    ).toBe(true);
+  });
+
+  it('does not retry other TypeErrors, which are bugs', () => {
+    expect(
+      isRetryableError(
+        new TypeError("Cannot read properties of undefined (reading 'uri')"),
+        policy,
+      ),
+    ).toBe(false);
+    expect(isRetryableError(new Error('Failed to fetch'), policy)).toBe(false);
+    expect(isRetryableError(null, policy)).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface PollingPolicy {
+  // Delay before the first status check.
+  initialIntervalMs: number;
+  // Each subsequent status check waits this many times longer...
+  backoffFactor: number;
+  // ...but never longer than this.
+  maxIntervalMs: number;
+  // Total polling time before the generation is reported as timed out.
+  maxWaitMs: number;
+  // How often a single status check or download may be retried after a
+  // transient failure before the error is surfaced.
+  maxRetries: number;
+  // Delay before the first retry. Doubles on every further retry.
+  retryDelayMs: number;
+  // HTTP statuses that indicate a transient failure worth retrying.
+  retryableStatuses: number[];
+}
+
+export const DEFAULT_POLLING_POLICY: PollingPolicy = {
+  initialIntervalMs: 10000,
+  backoffFactor: 1.2,
+  maxIntervalMs: 30000,
+  maxWaitMs: 10 * 60 * 1000,
+  maxRetries: 4,
+  retryDelayMs: 2000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+// Upper bound on status checks, whatever the policy says
+const MAX_POLL_ATTEMPTS = 10000;
+
+// `value` if it is a number no smaller than `min`, otherwise `min`
+const atLeast = (value: number, min: number) => (value >= min ? value : min);
+
+/**
+ * The default policy with `overrides` applied. Intervals and the backoff
+ * factor are clamped so that polling always moves forward; a zero interval
+ * or a shrinking backoff would never use up `maxWaitMs`.
+ */
+export const resolvePollingPolicy = (
+  overrides?: Partial<PollingPolicy>,
+): PollingPolicy => {
+  const policy = {...DEFAULT_POLLING_POLICY, ...overrides};
+  const initialIntervalMs = atLeast(policy.initialIntervalMs, 1);
+  return {
+    ...policy,
+    initialIntervalMs,
+    backoffFactor: atLeast(policy.backoffFactor, 1),
+    maxIntervalMs: atLeast(policy.maxIntervalMs, initialIntervalMs),
+    maxWaitMs: atLeast(policy.maxWaitMs, 0),
+    maxRetries: atLeast(policy.maxRetries, 0),
+    retryDelayMs: atLeast(policy.retryDelayMs, 0),
+  };
+};
+
+/** Delay before status check number `attempt` (1-based). */
+export const getPollDelay = (policy: PollingPolicy, attempt: number): number =>
+  Math.min(
+    policy.initialIntervalMs * policy.backoffFactor ** (attempt - 1),
+    policy.maxIntervalMs,
+  );
+
+/** How many status checks fit into `maxWaitMs`, up to a fixed cap. */
+export const getMaxPollAttempts = (policy: PollingPolicy): number => {
+  let attempts = 0;
+  let waited = 0;
+  while (waited < policy.maxWaitMs && attempts < MAX_POLL_ATTEMPTS) {
+    attempts++;
+    waited += getPollDelay(policy, attempts);
+  }
+  return attempts;
+};
+
+/** Delay before retry number `retry` (1-based) of a failed request. */
+export const getRetryDelay = (policy: PollingPolicy, retry: number): number =>
+  Math.min(policy.retryDelayMs * 2 ** (retry - 1), policy.maxIntervalMs);
+
+// What fetch rejects with when the request never got a response, in
+// Chrome, Firefox, Safari and Node respectively
+const FETCH_FAILURE = /failed to fetch|networkerror|load failed|fetch failed/i;
+
+/**
+ * Transient failures are network errors and HTTP errors whose status is
+ * listed in the policy. Both the SDK's ApiError and our own download errors
+ * carry a numeric `status`. fetch reports network errors as a TypeError,
+ * but so are plenty of bugs, so only its own messages count.
+ */
+export const isRetryableError = (
+  error: unknown,
+  policy: PollingPolicy,
+): boolean => {
+  const status = (error as {status?: unknown} | null)?.status;
+  if (typeof status === 'number') {
+    return policy.retryableStatuses.includes(status);
+  }
+  return error instanceof TypeError && FETCH_FAILURE.test(error.message);
+};
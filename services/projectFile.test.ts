@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  ReferenceAngle,
+  Resolution,
+  Scene,
+  VeoModel,
+} from '../types';
+import {DEFAULT_CHIP_SETS} from '../utils/chipSets';
+import {
+  createProjectFile,
+  migrateProject,
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  ProjectContents,
+  readProjectFile,
+} from './projectFile';
+
+const image: ImageFile = {
+  file: new File(['png'], 'frame.png', {type: 'image/png'}),
+  base64: btoa('png'),
+};
+
+const params: GenerateVideoParams = {
+  prompt: 'A lighthouse at dusk',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.FRAMES_TO_VIDEO,
+  startFrame: image,
+};
+
+const scene: Scene = {
+  id: 's1',
+  url: 'blob:stale',
+  blob: new Blob(['video'], {type: 'video/mp4'}),
+  videoObject: {uri: 'https://example.com/video'},
+  prompt: params.prompt,
+  timestamp: 1,
+  params,
+};
+
+const contents: ProjectContents = {
+  scenes: [scene],
+  characters: [],
+  sequences: [],
+  storyboards: [],
+  presets: [],
+  chipSets: [],
+  lastConfig: params,
+};
+
+// What actually happens on disk
+const throughJson = async (project: ProjectContents) =>
+  JSON.parse(JSON.stringify(await createProjectFile(project)));
+
+describe('project files', () => {
+  it('round-trips scenes and their media through JSON', async () => {
+    const opened = readProjectFile(await throughJson(contents));
+
+    const [restored] = opened.scenes;
+    expect(restored.prompt).toBe(scene.prompt);
+    expect(restored.url).not.toBe(scene.url);
+    expect(restored.blob.type).toBe('video/mp4');
+    expect(await restored.blob.text()).toBe('video');
+
+    const frame = restored.params.startFrame!;
+    expect(frame.file).toBeInstanceOf(File);
+    expect(frame.file.name).toBe('frame.png');
+    expect(await frame.file.text()).toBe('png');
+    expect(frame.base64).toBe(image.base64);
+    expect(opened.lastConfig?.prompt).toBe(params.prompt);
+  });
+
+  it('stores media used in several places once', async () => {
+    const project = await createProjectFile(contents);
+    // The frame is on both the scene params and the last config
+    expect(Object.keys(project.media)).toHaveLength(2);
+  });
+
+  it('upgrades legacy character avatars', async () => {
+    const opened = readProjectFile(
+      await throughJson({
+        ...contents,
+        characters: [{id: 'c1', name: 'Mira', description: '', avatar: image}],
+      }),
+    );
+    const [mira] = opened.characters;
+    expect(mira.avatar).toBeUndefined();
+    expect(mira.references?.[0].angle).toBe(ReferenceAngle.FRONT);
+  });
+
+  it('opens projects saved before presets existed', async () => {
+    const saved = await throughJson(contents);
+    const {presets: _presets, ...manifest} = saved.manifest;
+    const opened = readProjectFile({...saved, version: 1, manifest});
+    expect(opened.presets).toEqual([]);
+    expect(opened.chipSets).toEqual([]);
+    expect(opened.scenes).toHaveLength(1);
+  });
+
+  it('opens projects saved before the chip library existed', async () => {
+    const saved = await throughJson({...contents, chipSets: DEFAULT_CHIP_SETS});
+    expect(readProjectFile(saved).chipSets).toEqual(DEFAULT_CHIP_SETS);
+
+    const {chipSets: _chipSets, ...manifest} = saved.manifest;
+    expect(readProjectFile({...saved, version: 2, manifest}).chipSets).toEqual([]);
+  });
+
+  it('rejects files it cannot open', () => {
+    expect(() => readProjectFile({format: 'something-else'})).toThrow(
+      'not a Veo Studio project',
+    );
+    expect(() =>
+      migrateProject({format: PROJECT_FORMAT, version: PROJECT_VERSION + 1}),
+    ).toThrow('newer version');
+    expect(() =>
+      readProjectFile({
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        manifest: {scenes: [{blob: {$media: 'm9'}}]},
+        media: {},
+      }),
+    ).toThrow('missing media');
+  });
+});
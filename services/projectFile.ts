@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Character,
+  ChipSet,
+  GenerateVideoParams,
+  Preset,
+  Scene,
+  Sequence,
+  Storyboard,
+} from '../types';
+import {normalizeCharacter} from '../utils/characters';
+import {base64ToBlob, base64ToFile, blobToBase64} from '../utils/fileUtils';
+import {isRecord} from '../utils/json';
+
+export const PROJECT_FORMAT = 'veo-studio-project';
+export const PROJECT_VERSION = 3;
+
+/** Everything a project file holds. */
+export interface ProjectContents {
+  scenes: Scene[];
+  characters: Character[];
+  sequences: Sequence[];
+  storyboards: Storyboard[];
+  presets: Preset[];
+  chipSets: ChipSet[];
+  // The settings last used to generate, to pick up where the project left off
+  lastConfig: GenerateVideoParams | null;
+}
+
+interface ProjectMedia {
+  type: string;
+  // Set for files, so they come back with their name
+  name?: string;
+  // Base64 contents
+  data: string;
+}
+
+/**
+ * A project as saved to disk: a JSON manifest of the contents, in which
+ * every blob is replaced by a `{$media: id}` reference into `media`. The
+ * base64 copy kept next to an image's file becomes `{$base64: id}` rather
+ * than storing the data twice.
+ */
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: number;
+  manifest: Record<string, unknown>;
+  media: Record<string, ProjectMedia>;
+}
+
+// Upgrades a project from the version it is keyed by to the next one.
+// Add one here whenever a change to types.ts alters the saved shape.
+type ProjectMigration = (project: ProjectFile) => ProjectFile;
+const MIGRATIONS: Record<number, ProjectMigration> = {
+  // Version 2 added the preset library
+  1: (project) => ({
+    ...project,
+    manifest: {...project.manifest, presets: []},
+  }),
+  // Version 3 added the suggestion chip library
+  2: (project) => ({
+    ...project,
+    manifest: {...project.manifest, chipSets: []},
+  }),
+};
+
+const isMediaRef = (
+  value: unknown,
+  key: '$media' | '$base64',
+): value is Record<string, string> =>
+  isRecord(value) &&
+  typeof value[key] === 'string' &&
+  Object.keys(value).length === 1;
+
+/** Replaces blobs with media references, collecting the blobs as it goes. */
+const encode = (value: unknown, blobs: Map<Blob, string>): unknown => {
+  if (value instanceof Blob) {
+    if (!blobs.has(value)) blobs.set(value, `m${blobs.size + 1}`);
+    return {$media: blobs.get(value)};
+  }
+  if (Array.isArray(value)) return value.map((item) => encode(item, blobs));
+  if (!isRecord(value)) return value;
+
+  const encoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    encoded[key] = encode(item, blobs);
+  }
+  // An ImageFile or VideoFile; its base64 is the file's contents
+  if (value.file instanceof Blob && typeof value.base64 === 'string' && value.base64) {
+    encoded.base64 = {$base64: blobs.get(value.file)};
+  }
+  return encoded;
+};
+
+const decode = (value: unknown, media: Record<string, ProjectMedia>): unknown => {
+  if (Array.isArray(value)) return value.map((item) => decode(item, media));
+  if (!isRecord(value)) return value;
+  if (isMediaRef(value, '$media')) {
+    const entry = media[value.$media];
+    if (!entry) throw new Error(`The project is missing media "${value.$media}".`);
+    return entry.name !== undefined
+      ? base64ToFile(entry.data, entry.name, entry.type)
+      : base64ToBlob(entry.data, entry.type);
+  }
+  if (isMediaRef(value, '$base64')) {
+    const entry = media[value.$base64];
+    if (!entry) throw new Error(`The project is missing media "${value.$base64}".`);
+    return entry.data;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, decode(item, media)]),
+  );
+};
+
+/** Serializes a workspace. Reads every video and image, so it can be slow. */
+export const createProjectFile = async (
+  contents: ProjectContents,
+): Promise<ProjectFile> => {
+  const blobs = new Map<Blob, string>();
+  const manifest = encode(
+    {
+      ...contents,
+      // Object URLs only live as long as the page
+      scenes: contents.scenes.map(({url: _url, ...scene}) => scene),
+    },
+    blobs,
+  ) as Record<string, unknown>;
+
+  const media: Record<string, ProjectMedia> = {};
+  for (const [blob, id] of blobs) {
+    media[id] = {
+      type: blob.type,
+      name: blob instanceof File ? blob.name : undefined,
+      data: await blobToBase64(blob),
+    };
+  }
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: Date.now(),
+    manifest,
+    media,
+  };
+};
+
+/** Brings a project saved by any earlier version up to the current one. */
+export const migrateProject = (data: unknown): ProjectFile => {
+  if (!isRecord(data) || data.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not a Veo Studio project.');
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_VERSION) {
+    throw new Error(
+      'This project was saved by a newer version of the app and cannot be opened.',
+    );
+  }
+  let project = {
+    ...data,
+    manifest: isRecord(data.manifest) ? data.manifest : {},
+    media: isRecord(data.media) ? data.media : {},
+  } as ProjectFile;
+  while (project.version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[project.version];
+    if (!migrate) {
+      throw new Error(`Projects from version ${project.version} cannot be opened.`);
+    }
+    project = {...migrate(project), version: project.version + 1};
+  }
+  return project;
+};
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Reads a parsed project file back into a workspace, migrating it first.
+ * Scenes get fresh object URLs.
+ */
+export const readProjectFile = (data: unknown): ProjectContents => {
+  const project = migrateProject(data);
+  const manifest = decode(project.manifest, project.media) as Record<string, unknown>;
+  return {
+    scenes: asArray<Omit<Scene, 'url'>>(manifest.scenes).map((scene) => ({
+      ...scene,
+      url: URL.createObjectURL(scene.blob),
+    })),
+    characters: asArray<Character>(manifest.characters).map(normalizeCharacter),
+    sequences: asArray<Sequence>(manifest.sequences),
+    storyboards: asArray<Storyboard>(manifest.storyboards),
+    presets: asArray<Preset>(manifest.presets),
+    chipSets: asArray<ChipSet>(manifest.chipSets),
+    lastConfig: isRecord(manifest.lastConfig)
+      ? (manifest.lastConfig as unknown as GenerateVideoParams)
+      : null,
+  };
+};
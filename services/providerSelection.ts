@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {VideoErrorCode} from './errors';
+import {createGeminiProvider} from './geminiProvider';
+import {createMockProvider, MockProviderOptions} from './mockProvider';
+import {ProviderId, VideoProvider} from './videoProvider';
+
+const PROVIDER_STORAGE_KEY = 'veo-studio:provider';
+
+/**
+ * The provider is chosen, in order of precedence, by the `?provider=` query
+ * parameter, a `veo-studio:provider` localStorage entry, or the
+ * VIDEO_PROVIDER variable at build time. Gemini is the default.
+ */
+const readProviderSelection = (): {
+  id: ProviderId;
+  mockOptions: Partial<MockProviderOptions>;
+} => {
+  const query = new URLSearchParams(window.location.search);
+  const selected =
+    query.get('provider') ??
+    localStorage.getItem(PROVIDER_STORAGE_KEY) ??
+    process.env.VIDEO_PROVIDER;
+
+  const mockOptions: Partial<MockProviderOptions> = {};
+  const latency = Number(query.get('mockLatency'));
+  if (latency >= 0 && query.has('mockLatency')) {
+    mockOptions.latencyMs = latency;
+  }
+  const failure = query.get('mockFailure');
+  if (failure && Object.values(VideoErrorCode).includes(failure as VideoErrorCode)) {
+    mockOptions.failure = failure as VideoErrorCode;
+  }
+
+  return {
+    id: selected === ProviderId.MOCK ? ProviderId.MOCK : ProviderId.GEMINI,
+    mockOptions,
+  };
+};
+
+let provider: VideoProvider | null = null;
+
+export const getVideoProvider = (): VideoProvider => {
+  if (!provider) {
+    const {id, mockOptions} = readProviderSelection();
+    provider =
+      id === ProviderId.MOCK
+        ? createMockProvider(mockOptions)
+        : createGeminiProvider();
+    console.log(`Using ${provider.id} video provider.`);
+  }
+  return provider;
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  ExportContainer,
+  fitRect,
+  getSupportedContainers,
+  pickRecorderMimeType,
+} from './sequenceExport';
+
+// Chrome records both containers, Firefox only WebM, Safari only MP4.
+const chrome = (mimeType: string) => /^video\/(mp4|webm)/.test(mimeType);
+const firefox = (mimeType: string) => mimeType.startsWith('video/webm');
+const safari = (mimeType: string) => mimeType === 'video/mp4';
+
+describe('getSupportedContainers', () => {
+  it('lists every container the browser can record', () => {
+    expect(getSupportedContainers(chrome)).toEqual([
+      ExportContainer.MP4,
+      ExportContainer.WEBM,
+    ]);
+    expect(getSupportedContainers(firefox)).toEqual([ExportContainer.WEBM]);
+    expect(getSupportedContainers(() => false)).toEqual([]);
+  });
+});
+
+describe('pickRecorderMimeType', () => {
+  it('prefers the most specific MIME type for the requested container', () => {
+    expect(pickRecorderMimeType(ExportContainer.MP4, chrome)).toEqual({
+      container: ExportContainer.MP4,
+      mimeType: 'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+    });
+    expect(pickRecorderMimeType(ExportContainer.WEBM, chrome)).toEqual({
+      container: ExportContainer.WEBM,
+      mimeType: 'video/webm;codecs=vp9,opus',
+    });
+  });
+
+  it('falls back to a plain MIME type', () => {
+    expect(pickRecorderMimeType(ExportContainer.MP4, safari)).toEqual({
+      container: ExportContainer.MP4,
+      mimeType: 'video/mp4',
+    });
+  });
+
+  it('falls back to another container', () => {
+    expect(pickRecorderMimeType(ExportContainer.MP4, firefox)?.container).toBe(
+      ExportContainer.WEBM,
+    );
+  });
+
+  it('returns null when nothing can be recorded', () => {
+    expect(pickRecorderMimeType(ExportContainer.WEBM, () => false)).toBeNull();
+  });
+});
+
+describe('fitRect', () => {
+  it('fills a target with the same aspect ratio', () => {
+    expect(fitRect(640, 360, 1280, 720)).toEqual({
+      x: 0,
+      y: 0,
+      width: 1280,
+      height: 720,
+    });
+  });
+
+  it('pillarboxes portrait clips in a landscape frame', () => {
+    expect(fitRect(720, 1280, 1280, 720)).toEqual({
+      x: 438,
+      y: 0,
+      width: 405,
+      height: 720,
+    });
+  });
+
+  it('letterboxes wider clips', () => {
+    expect(fitRect(2000, 500, 1000, 1000)).toEqual({
+      x: 0,
+      y: 375,
+      width: 1000,
+      height: 250,
+    });
+  });
+});
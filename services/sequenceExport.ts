@@ -0,0 +1,315 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export enum ExportContainer {
+  MP4 = 'mp4',
+  WEBM = 'webm',
+}
+
+// Most specific first. The first one MediaRecorder supports is used.
+const CONTAINER_MIME_TYPES: Record<ExportContainer, string[]> = {
+  [ExportContainer.MP4]: [
+    'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+    'video/mp4;codecs=avc1,opus',
+    'video/mp4',
+  ],
+  [ExportContainer.WEBM]: [
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm',
+  ],
+};
+
+export interface ExportClip {
+  blob: Blob;
+  // Seconds into the clip's video
+  inPoint: number;
+  outPoint: number;
+}
+
+export interface ExportProgress {
+  clipIndex: number;
+  clipCount: number;
+  // Share of the sequence already recorded, from 0 to 1.
+  fraction: number;
+}
+
+export interface ExportOptions {
+  container: ExportContainer;
+  frameRate?: number;
+  videoBitsPerSecond?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  container: ExportContainer;
+  mimeType: string;
+  // Everything that did not go as requested, e.g. a container the browser
+  // cannot record or clips it cannot decode.
+  warnings: string[];
+}
+
+type IsTypeSupported = (mimeType: string) => boolean;
+
+const defaultIsTypeSupported: IsTypeSupported = (mimeType) =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+
+export const getSupportedContainers = (
+  isTypeSupported: IsTypeSupported = defaultIsTypeSupported,
+): ExportContainer[] =>
+  Object.values(ExportContainer).filter((container) =>
+    CONTAINER_MIME_TYPES[container].some(isTypeSupported),
+  );
+
+/**
+ * Picks the recorder MIME type for `container`, falling back to any other
+ * container the browser can record. Returns null if it can record none.
+ */
+export const pickRecorderMimeType = (
+  container: ExportContainer,
+  isTypeSupported: IsTypeSupported = defaultIsTypeSupported,
+): {container: ExportContainer; mimeType: string} | null => {
+  const candidates = [
+    container,
+    ...Object.values(ExportContainer).filter((c) => c !== container),
+  ];
+  for (const candidate of candidates) {
+    const mimeType = CONTAINER_MIME_TYPES[candidate].find(isTypeSupported);
+    if (mimeType) return {container: candidate, mimeType};
+  }
+  return null;
+};
+
+/** Largest rectangle with the source's aspect ratio centered in the target. */
+export const fitRect = (
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+): {x: number; y: number; width: number; height: number} => {
+  const scale = Math.min(targetWidth / sourceWidth, targetHeight / sourceHeight);
+  const width = Math.round(sourceWidth * scale);
+  const height = Math.round(sourceHeight * scale);
+  return {
+    x: Math.round((targetWidth - width) / 2),
+    y: Math.round((targetHeight - height) / 2),
+    width,
+    height,
+  };
+};
+
+const abortError = () => new DOMException('The export was cancelled.', 'AbortError');
+
+const waitForEvent = (
+  target: HTMLMediaElement,
+  type: string,
+  signal?: AbortSignal,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(type, onEvent);
+      target.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(target.error ?? new Error('The video could not be decoded.'));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    target.addEventListener(type, onEvent, {once: true});
+    target.addEventListener('error', onError, {once: true});
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+const loadClip = async (
+  video: HTMLVideoElement,
+  url: string,
+  inPoint: number,
+  signal?: AbortSignal,
+) => {
+  const loaded = waitForEvent(video, 'loadeddata', signal);
+  video.src = url;
+  await loaded;
+  const seeked = waitForEvent(video, 'seeked', signal);
+  video.currentTime = inPoint;
+  await seeked;
+};
+
+/**
+ * Renders the clips one after another into a single file, in real time.
+ *
+ * Every clip is decoded by a video element and drawn onto one canvas, whose
+ * stream is recorded together with the clips' audio. Re-encoding this way
+ * means clips with different codecs or sizes still end up in one consistent
+ * stream; clips the browser cannot decode at all are skipped with a warning
+ * rather than failing the export. The tab should stay in the foreground,
+ * since browsers throttle animation frames in background tabs.
+ */
+export const exportSequence = async (
+  clips: ExportClip[],
+  {
+    container,
+    frameRate = 30,
+    videoBitsPerSecond = 8_000_000,
+    signal,
+    onProgress,
+  }: ExportOptions,
+): Promise<ExportResult> => {
+  if (clips.length === 0) {
+    throw new Error('There is nothing to export.');
+  }
+  const format = pickRecorderMimeType(container);
+  if (!format) {
+    throw new Error('This browser cannot record video. Try a recent Chrome, Edge or Firefox.');
+  }
+
+  const warnings: string[] = [];
+  if (format.container !== container) {
+    warnings.push(
+      `This browser cannot record ${container.toUpperCase()}, so the sequence was exported as ${format.container.toUpperCase()}.`,
+    );
+  }
+
+  const urls = clips.map((clip) => URL.createObjectURL(clip.blob));
+  const video = document.createElement('video');
+  video.playsInline = true;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  const audioContext = new AudioContext();
+  let recorder: MediaRecorder | null = null;
+
+  try {
+    // The output takes the size of the first clip that can be decoded.
+    let firstIndex = 0;
+    for (; firstIndex < clips.length; firstIndex++) {
+      try {
+        await loadClip(video, urls[firstIndex], clips[firstIndex].inPoint, signal);
+        break;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        warnings.push(`Clip ${firstIndex + 1} could not be decoded and was skipped.`);
+      }
+    }
+    if (firstIndex === clips.length) {
+      throw new Error('None of the clips could be decoded by this browser.');
+    }
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+
+    // Route the clip audio into the recording instead of the speakers
+    const audioDestination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(audioDestination);
+    const stream = new MediaStream([
+      ...canvas.captureStream(frameRate).getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ]);
+
+    const chunks: Blob[] = [];
+    recorder = new MediaRecorder(stream, {
+      mimeType: format.mimeType,
+      videoBitsPerSecond,
+    });
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder!.onstop = () => resolve();
+    });
+    recorder.start(1000);
+
+    const totalDuration = clips.reduce(
+      (total, clip) => total + clip.outPoint - clip.inPoint,
+      0,
+    );
+    let recordedBefore = clips
+      .slice(0, firstIndex)
+      .reduce((total, clip) => total + clip.outPoint - clip.inPoint, 0);
+
+    for (let index = firstIndex; index < clips.length; index++) {
+      const clip = clips[index];
+      if (index > firstIndex) {
+        // Loading and seeking take real time; recording through them would
+        // freeze the last frame at every boundary. A clip that is skipped
+        // leaves the recorder paused until the next one has loaded.
+        recorder.pause();
+        try {
+          await loadClip(video, urls[index], clip.inPoint, signal);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          warnings.push(`Clip ${index + 1} could not be decoded and was skipped.`);
+          recordedBefore += clip.outPoint - clip.inPoint;
+          continue;
+        }
+      }
+
+      const frame = fitRect(
+        video.videoWidth,
+        video.videoHeight,
+        canvas.width,
+        canvas.height,
+      );
+      const drawFrame = () => {
+        context.fillStyle = 'black';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(video, frame.x, frame.y, frame.width, frame.height);
+      };
+      // Show the new clip before the recording picks up again
+      drawFrame();
+      if (recorder.state === 'paused') recorder.resume();
+      await video.play();
+      await new Promise<void>((resolve, reject) => {
+        const draw = () => {
+          if (signal?.aborted) {
+            reject(abortError());
+            return;
+          }
+          drawFrame();
+          onProgress?.({
+            clipIndex: index,
+            clipCount: clips.length,
+            fraction: Math.min(
+              (recordedBefore + video.currentTime - clip.inPoint) / totalDuration,
+              1,
+            ),
+          });
+          if (video.ended || video.currentTime >= clip.outPoint) {
+            resolve();
+          } else {
+            requestAnimationFrame(draw);
+          }
+        };
+        requestAnimationFrame(draw);
+      });
+      video.pause();
+      recordedBefore += clip.outPoint - clip.inPoint;
+    }
+
+    recorder.stop();
+    await stopped;
+    onProgress?.({clipIndex: clips.length - 1, clipCount: clips.length, fraction: 1});
+
+    return {
+      blob: new Blob(chunks, {type: format.mimeType.split(';')[0]}),
+      container: format.container,
+      mimeType: format.mimeType,
+      warnings,
+    };
+  } finally {
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    video.pause();
+    video.removeAttribute('src');
+    urls.forEach((url) => URL.revokeObjectURL(url));
+    audioContext.close().catch(() => {});
+  }
+};
@@ -0,0 +1,314 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Character,
+  ChipSet,
+  ExtensionChain,
+  PendingOperation,
+  Preset,
+  Scene,
+  Sequence,
+  Storyboard,
+} from '../types';
+import {normalizeCharacter} from '../utils/characters';
+import {DEFAULT_CHIP_SETS} from '../utils/chipSets';
+import {DEFAULT_PRESETS} from '../utils/presets';
+
+const DB_NAME = 'veo-studio';
+const DB_VERSION = 7;
+
+const SCENES_STORE = 'scenes';
+const CHARACTERS_STORE = 'characters';
+const OPERATIONS_STORE = 'operations';
+const SEQUENCES_STORE = 'sequences';
+const STORYBOARDS_STORE = 'storyboards';
+const PRESETS_STORE = 'presets';
+const CHIP_SETS_STORE = 'chipSets';
+const CHAINS_STORE = 'chains';
+
+// Object URLs are only valid for the current page, so they are never stored.
+// A fresh URL is created from the blob whenever a scene is rehydrated.
+type StoredScene = Omit<Scene, 'url'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SCENES_STORE)) {
+        db.createObjectStore(SCENES_STORE, {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains(CHARACTERS_STORE)) {
+        db.createObjectStore(CHARACTERS_STORE, {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains(OPERATIONS_STORE)) {
+        db.createObjectStore(OPERATIONS_STORE, {keyPath: 'jobId'});
+      }
+      if (!db.objectStoreNames.contains(SEQUENCES_STORE)) {
+        db.createObjectStore(SEQUENCES_STORE, {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains(STORYBOARDS_STORE)) {
+        db.createObjectStore(STORYBOARDS_STORE, {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+        // Start the library off with the built-in presets
+        const store = db.createObjectStore(PRESETS_STORE, {keyPath: 'id'});
+        DEFAULT_PRESETS.forEach((preset) => store.put(preset));
+      }
+      if (!db.objectStoreNames.contains(CHIP_SETS_STORE)) {
+        const store = db.createObjectStore(CHIP_SETS_STORE, {keyPath: 'id'});
+        DEFAULT_CHIP_SETS.forEach((chipSet) => store.put(chipSet));
+      }
+      if (!db.objectStoreNames.contains(CHAINS_STORE)) {
+        db.createObjectStore(CHAINS_STORE, {keyPath: 'id'});
+      }
+    };
+    // Another tab holds an older version open. Waiting would hang every
+    // storage call, so fail instead and let a later call try again.
+    let isBlocked = false;
+    request.onblocked = () => {
+      isBlocked = true;
+      reject(
+        new Error(
+          'The library is open in another tab running an older version. Close that tab and try again.',
+        ),
+      );
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (isBlocked) {
+        db.close();
+        return;
+      }
+      // Step aside when another tab needs to upgrade; the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().catch((error) => {
+      // Allow a later call to retry instead of caching the failure forever.
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await getDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+};
+
+const updateRecord = async <T extends {id: string}>(
+  storeName: string,
+  id: string,
+  update: (record: T) => T,
+): Promise<void> => {
+  const record = await runRequest<T | undefined>(storeName, 'readonly', (store) =>
+    store.get(id),
+  );
+  if (!record) {
+    throw new Error(`No record with id "${id}" in ${storeName}.`);
+  }
+  await runRequest(storeName, 'readwrite', (store) => store.put(update(record)));
+};
+
+// --- Scenes ---
+
+export const saveScene = async (scene: Scene): Promise<void> => {
+  const {url: _url, ...stored} = scene;
+  await runRequest(SCENES_STORE, 'readwrite', (store) =>
+    store.put(stored as StoredScene),
+  );
+};
+
+/** Loads every stored scene, newest first, with fresh object URLs. */
+export const loadScenes = async (): Promise<Scene[]> => {
+  const records = await runRequest<StoredScene[]>(
+    SCENES_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map((record) => ({...record, url: URL.createObjectURL(record.blob)}));
+};
+
+export const deleteScene = async (id: string): Promise<void> => {
+  await runRequest(SCENES_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const renameScene = (id: string, title: string): Promise<void> =>
+  updateRecord<StoredScene>(SCENES_STORE, id, (scene) => ({...scene, title}));
+
+// --- Characters ---
+
+export const saveCharacter = async (character: Character): Promise<void> => {
+  await runRequest(CHARACTERS_STORE, 'readwrite', (store) =>
+    store.put(character),
+  );
+};
+
+export const loadCharacters = async (): Promise<Character[]> => {
+  const records = await runRequest<Character[]>(
+    CHARACTERS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  // Character ids are creation timestamps, so this keeps creation order.
+  return records
+    .map(normalizeCharacter)
+    .sort((a, b) => a.id.localeCompare(b.id));
+};
+
+export const deleteCharacter = async (id: string): Promise<void> => {
+  await runRequest(CHARACTERS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const renameCharacter = (id: string, name: string): Promise<void> =>
+  updateRecord<Character>(CHARACTERS_STORE, id, (character) => ({
+    ...character,
+    name,
+  }));
+
+// --- Sequences ---
+
+export const saveSequence = async (sequence: Sequence): Promise<void> => {
+  await runRequest(SEQUENCES_STORE, 'readwrite', (store) =>
+    store.put(sequence),
+  );
+};
+
+export const loadSequences = async (): Promise<Sequence[]> => {
+  const records = await runRequest<Sequence[]>(
+    SEQUENCES_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteSequence = async (id: string): Promise<void> => {
+  await runRequest(SEQUENCES_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+// --- Storyboards ---
+
+export const saveStoryboard = async (storyboard: Storyboard): Promise<void> => {
+  await runRequest(STORYBOARDS_STORE, 'readwrite', (store) =>
+    store.put(storyboard),
+  );
+};
+
+export const loadStoryboards = async (): Promise<Storyboard[]> => {
+  const records = await runRequest<Storyboard[]>(
+    STORYBOARDS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteStoryboard = async (id: string): Promise<void> => {
+  await runRequest(STORYBOARDS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+// --- Presets ---
+
+export const savePreset = async (preset: Preset): Promise<void> => {
+  await runRequest(PRESETS_STORE, 'readwrite', (store) => store.put(preset));
+};
+
+export const loadPresets = async (): Promise<Preset[]> => {
+  const records = await runRequest<Preset[]>(
+    PRESETS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await runRequest(PRESETS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+// --- Suggestion chips ---
+
+export const saveChipSet = async (chipSet: ChipSet): Promise<void> => {
+  await runRequest(CHIP_SETS_STORE, 'readwrite', (store) => store.put(chipSet));
+};
+
+export const loadChipSets = async (): Promise<ChipSet[]> => {
+  const records = await runRequest<ChipSet[]>(
+    CHIP_SETS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteChipSet = async (id: string): Promise<void> => {
+  await runRequest(CHIP_SETS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+// --- Extension chains ---
+
+export const saveChain = async (chain: ExtensionChain): Promise<void> => {
+  await runRequest(CHAINS_STORE, 'readwrite', (store) => store.put(chain));
+};
+
+export const loadChains = async (): Promise<ExtensionChain[]> =>
+  runRequest<ExtensionChain[]>(CHAINS_STORE, 'readonly', (store) =>
+    store.getAll(),
+  );
+
+export const deleteChain = async (id: string): Promise<void> => {
+  await runRequest(CHAINS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+// --- In-flight operations ---
+
+export const savePendingOperation = async (
+  operation: PendingOperation,
+): Promise<void> => {
+  await runRequest(OPERATIONS_STORE, 'readwrite', (store) =>
+    store.put(operation),
+  );
+};
+
+export const loadPendingOperations = async (): Promise<PendingOperation[]> => {
+  const records = await runRequest<PendingOperation[]>(
+    OPERATIONS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records.sort((a, b) => a.submittedAt - b.submittedAt);
+};
+
+export const deletePendingOperation = async (jobId: string): Promise<void> => {
+  await runRequest(OPERATIONS_STORE, 'readwrite', (store) =>
+    store.delete(jobId),
+  );
+};
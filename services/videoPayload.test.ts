@@ -0,0 +1,276 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {VideoGenerationReferenceType} from '@google/genai';
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {VideoErrorCode, VideoGenerationError} from './errors';
+import {
+  buildVideoPayload,
+  getEffectiveModel,
+  TRANSITION_INSTRUCTION,
+} from './videoPayload';
+
+const image = (name: string, type = 'image/png'): ImageFile => ({
+  file: new File([], name, {type}),
+  base64: `${name}-bytes`,
+});
+
+const inline = (img: ImageFile) => ({
+  imageBytes: img.base64,
+  mimeType: img.file.type,
+});
+
+const START = image('start.png');
+const END = image('end.jpg', 'image/jpeg');
+const REF_A = image('ref-a.png');
+const REF_B = image('ref-b.png');
+const STYLE = image('style.png');
+const INPUT_VIDEO = {uri: 'https://example.com/input.mp4'};
+
+const params = (overrides: Partial<GenerateVideoParams>): GenerateVideoParams => ({
+  prompt: 'A cat surfing a wave',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+  ...overrides,
+});
+
+describe('getEffectiveModel', () => {
+  it('keeps the selected model for plain generations', () => {
+    expect(getEffectiveModel(params({}))).toBe(VeoModel.VEO_FAST);
+  });
+
+  it('forces the standard model when reference images are attached', () => {
+    expect(
+      getEffectiveModel(
+        params({
+          mode: GenerationMode.REFERENCES_TO_VIDEO,
+          referenceImages: [REF_A],
+        }),
+      ),
+    ).toBe(VeoModel.VEO);
+  });
+
+  it('keeps the selected model for references mode without images', () => {
+    expect(
+      getEffectiveModel(
+        params({mode: GenerationMode.REFERENCES_TO_VIDEO, referenceImages: []}),
+      ),
+    ).toBe(VeoModel.VEO_FAST);
+  });
+
+  it('forces the standard model when extending a video', () => {
+    expect(
+      getEffectiveModel(
+        params({
+          mode: GenerationMode.EXTEND_VIDEO,
+          inputVideoObject: INPUT_VIDEO,
+        }),
+      ),
+    ).toBe(VeoModel.VEO);
+  });
+});
+
+describe('buildVideoPayload', () => {
+  describe('text to video', () => {
+    it('sends the prompt, model and output settings only', () => {
+      expect(
+        buildVideoPayload(
+          params({aspectRatio: AspectRatio.PORTRAIT, resolution: Resolution.P1080}),
+        ),
+      ).toEqual({
+        model: VeoModel.VEO_FAST,
+        prompt: 'A cat surfing a wave',
+        config: {
+          numberOfVideos: 1,
+          resolution: Resolution.P1080,
+          aspectRatio: AspectRatio.PORTRAIT,
+        },
+      });
+    });
+
+    it('omits an empty prompt', () => {
+      expect(buildVideoPayload(params({prompt: ''}))).not.toHaveProperty('prompt');
+    });
+
+    it('sends the negative prompt in the config unless it is blank', () => {
+      expect(
+        buildVideoPayload(params({negativePrompt: ' blurry, watermark '})).config
+          .negativePrompt,
+      ).toBe('blurry, watermark');
+      expect(
+        buildVideoPayload(params({negativePrompt: '  '})).config,
+      ).not.toHaveProperty('negativePrompt');
+    });
+
+    it('ignores frames, references and videos left over from other modes', () => {
+      const payload = buildVideoPayload(
+        params({
+          startFrame: START,
+          endFrame: END,
+          referenceImages: [REF_A],
+          styleImage: STYLE,
+          inputVideoObject: INPUT_VIDEO,
+        }),
+      );
+      expect(payload.image).toBeUndefined();
+      expect(payload.video).toBeUndefined();
+      expect(payload.config.lastFrame).toBeUndefined();
+      expect(payload.config.referenceImages).toBeUndefined();
+    });
+  });
+
+  describe('frames to video', () => {
+    const frames = (overrides: Partial<GenerateVideoParams>) =>
+      params({mode: GenerationMode.FRAMES_TO_VIDEO, ...overrides});
+
+    it('sends the start frame as the image', () => {
+      const payload = buildVideoPayload(frames({startFrame: START}));
+      expect(payload.image).toEqual(inline(START));
+      expect(payload.config.lastFrame).toBeUndefined();
+      expect(payload.model).toBe(VeoModel.VEO_FAST);
+    });
+
+    it('sends the end frame as the last frame', () => {
+      const payload = buildVideoPayload(frames({startFrame: START, endFrame: END}));
+      expect(payload.image).toEqual(inline(START));
+      expect(payload.config.lastFrame).toEqual(inline(END));
+    });
+
+    it('supports an end frame without a start frame', () => {
+      const payload = buildVideoPayload(frames({endFrame: END}));
+      expect(payload.image).toBeUndefined();
+      expect(payload.config.lastFrame).toEqual(inline(END));
+    });
+
+    it('reuses the start frame as the last frame when looping', () => {
+      const payload = buildVideoPayload(
+        frames({startFrame: START, endFrame: END, isLooping: true}),
+      );
+      expect(payload.image).toEqual(inline(START));
+      expect(payload.config.lastFrame).toEqual(inline(START));
+    });
+
+    it('does not append the transition instruction', () => {
+      const payload = buildVideoPayload(frames({startFrame: START, endFrame: END}));
+      expect(payload.prompt).toBe('A cat surfing a wave');
+    });
+
+    it('ignores reference and style images', () => {
+      const payload = buildVideoPayload(
+        frames({startFrame: START, styleImage: STYLE}),
+      );
+      expect(payload.config.referenceImages).toBeUndefined();
+    });
+  });
+
+  describe('references to video', () => {
+    const references = (overrides: Partial<GenerateVideoParams>) =>
+      params({mode: GenerationMode.REFERENCES_TO_VIDEO, ...overrides});
+
+    it('sends reference images as ASSET references on the standard model', () => {
+      const payload = buildVideoPayload(references({referenceImages: [REF_A, REF_B]}));
+      expect(payload.model).toBe(VeoModel.VEO);
+      expect(payload.config.referenceImages).toEqual([
+        {image: inline(REF_A), referenceType: VideoGenerationReferenceType.ASSET},
+        {image: inline(REF_B), referenceType: VideoGenerationReferenceType.ASSET},
+      ]);
+    });
+
+    it('appends the style image as a STYLE reference', () => {
+      const payload = buildVideoPayload(
+        references({referenceImages: [REF_A], styleImage: STYLE}),
+      );
+      expect(payload.config.referenceImages).toEqual([
+        {image: inline(REF_A), referenceType: VideoGenerationReferenceType.ASSET},
+        {image: inline(STYLE), referenceType: VideoGenerationReferenceType.STYLE},
+      ]);
+    });
+
+    it('sends a style image on its own without forcing the model', () => {
+      const payload = buildVideoPayload(references({styleImage: STYLE}));
+      expect(payload.model).toBe(VeoModel.VEO_FAST);
+      expect(payload.config.referenceImages).toEqual([
+        {image: inline(STYLE), referenceType: VideoGenerationReferenceType.STYLE},
+      ]);
+    });
+
+    it('omits referenceImages when there are none', () => {
+      const payload = buildVideoPayload(references({referenceImages: []}));
+      expect(payload.config).not.toHaveProperty('referenceImages');
+    });
+
+    it('ignores start and end frames', () => {
+      const payload = buildVideoPayload(
+        references({referenceImages: [REF_A], startFrame: START, endFrame: END}),
+      );
+      expect(payload.image).toBeUndefined();
+      expect(payload.config.lastFrame).toBeUndefined();
+    });
+  });
+
+  describe('extend video', () => {
+    const extend = (overrides: Partial<GenerateVideoParams>) =>
+      params({
+        mode: GenerationMode.EXTEND_VIDEO,
+        inputVideoObject: INPUT_VIDEO,
+        ...overrides,
+      });
+
+    it('sends the input video on the standard model', () => {
+      const payload = buildVideoPayload(extend({}));
+      expect(payload.model).toBe(VeoModel.VEO);
+      expect(payload.video).toBe(INPUT_VIDEO);
+      expect(payload.prompt).toBe('A cat surfing a wave');
+      expect(payload.config.lastFrame).toBeUndefined();
+    });
+
+    it('appends the transition instruction when an end frame guides the extension', () => {
+      const payload = buildVideoPayload(extend({endFrame: END}));
+      expect(payload.prompt).toBe(`A cat surfing a wave${TRANSITION_INSTRUCTION}`);
+      expect(payload.config.lastFrame).toEqual(inline(END));
+    });
+
+    it('does not add a prompt for the transition when the prompt is empty', () => {
+      const payload = buildVideoPayload(extend({prompt: '', endFrame: END}));
+      expect(payload).not.toHaveProperty('prompt');
+      expect(payload.config.lastFrame).toEqual(inline(END));
+    });
+
+    it('does not loop back to the start frame', () => {
+      const payload = buildVideoPayload(
+        extend({startFrame: START, isLooping: true}),
+      );
+      expect(payload.image).toBeUndefined();
+      expect(payload.config.lastFrame).toBeUndefined();
+    });
+
+    it('sends reference and style images', () => {
+      const payload = buildVideoPayload(
+        extend({referenceImages: [REF_A], styleImage: STYLE}),
+      );
+      expect(payload.config.referenceImages).toEqual([
+        {image: inline(REF_A), referenceType: VideoGenerationReferenceType.ASSET},
+        {image: inline(STYLE), referenceType: VideoGenerationReferenceType.STYLE},
+      ]);
+    });
+
+    it('rejects a missing input video as invalid input', () => {
+      const build = () => buildVideoPayload(extend({inputVideoObject: undefined}));
+      expect(build).toThrow(VideoGenerationError);
+      expect(build).toThrow(
+        expect.objectContaining({code: VideoErrorCode.INVALID_INPUT}),
+      );
+    });
+  });
+});
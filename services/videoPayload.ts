@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Video,
+  VideoGenerationReferenceImage,
+  VideoGenerationReferenceType,
+} from '@google/genai';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {VideoErrorCode, VideoGenerationError} from './errors';
+
+interface InlineImage {
+  imageBytes: string;
+  mimeType: string;
+}
+
+export interface VideoGenerationConfig {
+  numberOfVideos: number;
+  resolution: Resolution;
+  aspectRatio?: AspectRatio;
+  referenceImages?: VideoGenerationReferenceImage[];
+  lastFrame?: InlineImage;
+  negativePrompt?: string;
+}
+
+export interface GenerateVideosParameters {
+  model: string;
+  config: VideoGenerationConfig;
+  prompt?: string;
+  image?: InlineImage;
+  video?: Video;
+}
+
+// Appended to EXTEND prompts that have an end frame, so the extension heads
+// for that frame in one continuous move instead of cutting to it.
+export const TRANSITION_INSTRUCTION =
+  ". The video must seamlessly transition from the input video to the provided last frame. Correct any inconsistencies between the input video's end and the target frame so the camera moves in one unified approach to the final frame.";
+
+// Force Veo 3.1 Pro (not fast) if reference images are present OR if extending a video.
+// The Fast model often does not support the 'video' property for extension or complex reference inputs.
+export const getEffectiveModel = (params: GenerateVideoParams): VeoModel => {
+  if (
+      (params.referenceImages && params.referenceImages.length > 0) ||
+      params.mode === GenerationMode.EXTEND_VIDEO
+  ) {
+      return VeoModel.VEO; // 'veo-3.1-generate-preview'
+  }
+  return params.model;
+};
+
+const toInlineImage = (image: ImageFile): InlineImage => ({
+  imageBytes: image.base64,
+  mimeType: image.file.type,
+});
+
+/**
+ * Translates the form's parameters into a generateVideos request. Pure, so
+ * every mode's quirks can be tested without calling the API.
+ */
+export const buildVideoPayload = (
+  params: GenerateVideoParams,
+): GenerateVideosParameters => {
+  const payload: GenerateVideosParameters = {
+    model: getEffectiveModel(params),
+    config: {
+      numberOfVideos: 1,
+      resolution: params.resolution,
+      aspectRatio: params.aspectRatio, // Always include aspect ratio
+    },
+  };
+
+  // For Frames mode the last frame is the target end frame, or the start
+  // frame again when looping. For Extend mode it is an optional guide.
+  const endFrame =
+    params.mode === GenerationMode.FRAMES_TO_VIDEO && params.isLooping
+      ? params.startFrame
+      : params.endFrame;
+
+  // Only add the prompt if it's not empty.
+  if (params.prompt) {
+    payload.prompt =
+      params.mode === GenerationMode.EXTEND_VIDEO && endFrame
+        ? params.prompt + TRANSITION_INSTRUCTION
+        : params.prompt;
+  }
+
+  if (params.negativePrompt?.trim()) {
+    payload.config.negativePrompt = params.negativePrompt.trim();
+  }
+
+  // Reference images are shared by REF mode and EXTEND mode
+  if (
+    params.mode === GenerationMode.REFERENCES_TO_VIDEO ||
+    params.mode === GenerationMode.EXTEND_VIDEO
+  ) {
+    const referenceImages: VideoGenerationReferenceImage[] = (
+      params.referenceImages ?? []
+    ).map((img) => ({
+      image: toInlineImage(img),
+      referenceType: VideoGenerationReferenceType.ASSET,
+    }));
+
+    if (params.styleImage) {
+      referenceImages.push({
+        image: toInlineImage(params.styleImage),
+        referenceType: VideoGenerationReferenceType.STYLE,
+      });
+    }
+
+    if (referenceImages.length > 0) {
+      payload.config.referenceImages = referenceImages;
+    }
+  }
+
+  if (
+    endFrame &&
+    (params.mode === GenerationMode.FRAMES_TO_VIDEO ||
+      params.mode === GenerationMode.EXTEND_VIDEO)
+  ) {
+    payload.config.lastFrame = toInlineImage(endFrame);
+  }
+
+  // Mode specific inputs: start image vs input video
+  if (params.mode === GenerationMode.FRAMES_TO_VIDEO) {
+    if (params.startFrame) {
+      payload.image = toInlineImage(params.startFrame);
+    }
+  } else if (params.mode === GenerationMode.EXTEND_VIDEO) {
+    if (!params.inputVideoObject) {
+      throw new VideoGenerationError(
+        VideoErrorCode.INVALID_INPUT,
+        'An input video object is required to extend a video.',
+      );
+    }
+    payload.video = params.inputVideoObject;
+  }
+
+  return payload;
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '@google/genai';
+import {
+  EnhancementCandidate,
+  EnhancementContext,
+  GenerateVideoParams,
+  PromptImage,
+  ShotSuggestion,
+} from '../types';
+
+/** Provider-neutral view of a long-running video generation. */
+export interface ProviderOperation {
+  name: string;
+  done: boolean;
+  video?: Video;
+  // Set when the backend reports the operation itself failed.
+  error?: Record<string, unknown>;
+  // Set when videos were withheld by safety filters.
+  filteredCount?: number;
+  filteredReasons?: string[];
+}
+
+/**
+ * A backend that can generate videos. generateVideo handles polling,
+ * retries, progress and error classification on top of these primitives.
+ */
+export interface VideoProvider {
+  readonly id: ProviderId;
+  // Whether the user has to pick an API key before generating.
+  readonly requiresApiKey: boolean;
+  submit: (
+    params: GenerateVideoParams,
+    signal?: AbortSignal,
+  ) => Promise<ProviderOperation>;
+  poll: (operationName: string, signal?: AbortSignal) => Promise<ProviderOperation>;
+  // Resolves with the raw response so the caller can stream it.
+  download: (video: Video, signal?: AbortSignal) => Promise<Response>;
+  // Rewrites of the prompt suited to the mode and media in `context`
+  enhance: (
+    prompt: string,
+    context: EnhancementContext,
+  ) => Promise<EnhancementCandidate[]>;
+  // A prompt suggested from the attached images, in the order given
+  describeImages: (
+    images: PromptImage[],
+    context: EnhancementContext,
+  ) => Promise<string>;
+  // Splits a script into shots, in order.
+  splitScript: (script: string) => Promise<ShotSuggestion[]>;
+}
+
+export enum ProviderId {
+  GEMINI = 'gemini',
+  MOCK = 'mock',
+}
@@ -10,6 +10,11 @@ export enum AppState {
   LOADING,
   SUCCESS,
   ERROR,
+  CANCELLED,
+  TIMELINE,
+  LINEAGE,
+  STORYBOARD,
+  COMPARE,
 }
 
 export enum VeoModel {
@@ -44,6 +49,20 @@ export interface VideoFile {
   base64: string;
 }
 
+// How a scene relates to the scene(s) it was made from
+export enum SceneOrigin {
+  ORIGINAL = 'original',
+  EXTENSION = 'extension',
+  RETRY = 'retry',
+  ITERATION = 'iteration',
+}
+
+export interface SceneLineage {
+  origin: SceneOrigin;
+  // Empty for originals. Sources may since have been deleted.
+  sourceSceneIds: string[];
+}
+
 export interface Scene {
   id: string;
   url: string;
@@ -51,17 +70,149 @@ export interface Scene {
   videoObject: Video;
   prompt: string;
   timestamp: number;
+  // User-supplied display name. Falls back to the prompt when absent.
+  title?: string;
+  params: GenerateVideoParams;
+  // Missing on scenes saved before lineage was tracked; treat as originals.
+  lineage?: SceneLineage;
+  // Set on scenes produced by an extension chain
+  chainId?: string;
+}
+
+// A trimmed use of a scene inside a sequence. Times are in seconds.
+export interface SequenceClip {
+  id: string;
+  sceneId: string;
+  inPoint: number;
+  outPoint: number;
+  // Length of the whole scene, so trims can be clamped without loading it.
+  sceneDuration: number;
+}
+
+export interface Sequence {
+  id: string;
+  name: string;
+  clips: SequenceClip[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A shot proposed by the text model when splitting a script
+export interface ShotSuggestion {
+  // The part of the script the shot covers
+  summary: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  mode: GenerationMode;
+}
+
+export interface StoryboardShot {
+  id: string;
+  summary: string;
+  // Extension shots continue the previous shot's scene, which is only known
+  // once it finishes, so their params carry no input video.
+  params: GenerateVideoParams;
+  // The shot's latest generation and the scene it produced
+  jobId?: string;
+  sceneId?: string;
+  // Set on extension shots queued before the previous shot finished
+  awaitingPrevious?: boolean;
+  error?: string;
+}
+
+export interface Storyboard {
+  id: string;
+  title: string;
+  script: string;
+  shots: StoryboardShot[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One take in a comparison. Its id is both the job's and, once it
+// succeeds, the scene's.
+export interface ComparisonEntry {
+  id: string;
+  label: string;
+}
+
+// Takes of the same generation shown side by side to pick the best one
+export interface Comparison {
+  id: string;
+  entries: ComparisonEntry[];
+  winnerId?: string;
+  createdAt: number;
+}
+
+export enum ChainStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// Successive extensions of one scene, one hop per continuation prompt.
+// Chains live for the session only; their scenes are saved like any other.
+export interface ExtensionChain {
+  id: string;
+  sourceSceneId: string;
+  prompts: string[];
+  // One scene per finished hop, in order
+  sceneIds: string[];
+  // The job running the current hop
+  jobId: string | null;
+  status: ChainStatus;
+  error?: string;
+}
+
+export enum ReferenceAngle {
+  FRONT = 'front',
+  THREE_QUARTER = 'three-quarter',
+  PROFILE = 'profile',
+  BACK = 'back',
+  FULL_BODY = 'full-body',
+  CLOSE_UP = 'close-up',
+}
+
+export interface CharacterReference {
+  id: string;
+  image: ImageFile;
+  angle: ReferenceAngle;
+  // The wardrobe variant the image shows, if it shows a specific one
+  wardrobeId?: string;
+}
+
+export interface WardrobeVariant {
+  id: string;
+  name: string;
+  description: string;
 }
 
 export interface Character {
   id: string;
   name: string;
   description: string;
+  // Replaced by references; only found on characters saved before them.
   avatar?: ImageFile | null;
+  references?: CharacterReference[];
+  wardrobe?: WardrobeVariant[];
+  // Voice, mannerisms and personality
+  notes?: string;
+  // Canonical wording used in prompts. Falls back to the description.
+  promptFragment?: string;
+}
+
+// A character cast in the video being composed
+export interface CastMember {
+  characterId: string;
+  // Outfit to show. When unset, a variant named in the prompt is used.
+  wardrobeId?: string;
 }
 
 export interface GenerateVideoParams {
   prompt: string;
+  // What the video should not show, sent alongside the prompt
+  negativePrompt?: string;
   model: VeoModel;
   aspectRatio: AspectRatio;
   resolution: Resolution;
@@ -73,4 +224,130 @@ export interface GenerateVideoParams {
   inputVideo?: VideoFile | null;
   inputVideoObject?: Video | null;
   isLooping?: boolean;
+  // Where the generation came from. Copied onto the resulting scene.
+  lineage?: SceneLineage;
+  // Characters picked in the character panel. They and any @mentions in
+  // the prompt are expanded right before the request is sent, so the
+  // prompt is kept as typed.
+  cast?: CastMember[];
+  // Set on generations expanded from a prompt template: the value each
+  // variable took, keyed by variable name
+  templateValues?: Record<string, string>;
+}
+
+export enum PresetIcon {
+  MOUNTAIN = 'mountain',
+  BUILDING = 'building',
+  SMILE = 'smile',
+  PALETTE = 'palette',
+  FILM = 'film',
+  SPARKLES = 'sparkles',
+}
+
+// A saved form state to start new generations from
+export interface Preset {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  icon: PresetIcon;
+  // Never carries lineage, an input video or a cast; see toPresetParams
+  params: GenerateVideoParams;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Keywords offered as chips under the prompt. A set shows in the listed
+// modes (every mode when empty) and, when it names a preset category, only
+// while a preset from that category is loaded.
+export interface ChipSet {
+  id: string;
+  name: string;
+  modes: GenerationMode[];
+  presetCategory?: string;
+  keywords: string[];
+  // Offered for the negative prompt instead
+  negativeKeywords: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What the form holds besides the prompt, so enhancement can suit it
+export interface EnhancementContext {
+  mode: GenerationMode;
+  aspectRatio: AspectRatio;
+  hasStartFrame: boolean;
+  hasEndFrame: boolean;
+  referenceCount: number;
+  hasStyleImage: boolean;
+  isLooping: boolean;
+}
+
+// One rewrite of a prompt, with a short name for the direction it takes
+export interface EnhancementCandidate {
+  label: string;
+  prompt: string;
+}
+
+// What an image attached to the form is used as
+export enum ImageRole {
+  START_FRAME = 'start-frame',
+  END_FRAME = 'end-frame',
+  REFERENCE = 'reference',
+  STYLE = 'style',
+}
+
+// An attached image, sent to the text model to suggest a prompt
+export interface PromptImage {
+  role: ImageRole;
+  image: ImageFile;
+}
+
+export enum GenerationStage {
+  SUBMITTING = 'submitting',
+  SUBMITTED = 'submitted',
+  POLLING = 'polling',
+  DOWNLOADING = 'downloading',
+}
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  // Time since the request was first submitted
+  elapsedMs: number;
+  // POLLING only
+  attempt?: number;
+  maxAttempts?: number;
+  // DOWNLOADING only. totalBytes is missing when the server omits it.
+  loadedBytes?: number;
+  totalBytes?: number;
+}
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface GenerationJob {
+  id: string;
+  params: GenerateVideoParams;
+  status: JobStatus;
+  createdAt: number;
+  // Set when the job picks up an operation submitted by an earlier session.
+  operationName?: string;
+  startedAt?: number;
+  finishedAt?: number;
+  progress?: GenerationProgress;
+  error?: Error;
+}
+
+// A generation whose result has not been downloaded yet. Jobs still waiting
+// for a free slot have no operation name.
+export interface PendingOperation {
+  jobId: string;
+  operationName?: string;
+  params: GenerateVideoParams;
+  submittedAt: number;
 }
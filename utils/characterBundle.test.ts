@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {Character, ReferenceAngle} from '../types';
+import {
+  CHARACTER_BUNDLE_FORMAT,
+  ConflictResolution,
+  createCharacterBundle,
+  findConflicts,
+  getUniqueName,
+  parseCharacterBundle,
+  resolveImport,
+} from './characterBundle';
+
+const character = (id: string, name: string): Character => ({
+  id,
+  name,
+  description: `${name} description`,
+  references: [],
+  wardrobe: [],
+});
+
+describe('character bundles', () => {
+  it('round-trips characters with their images through JSON', async () => {
+    const mira: Character = {
+      ...character('1', 'Mira'),
+      notes: 'Dry wit',
+      wardrobe: [{id: 'suit', name: 'Flight suit', description: ''}],
+      references: [
+        {
+          id: 'r1',
+          angle: ReferenceAngle.PROFILE,
+          wardrobeId: 'suit',
+          image: {
+            file: new File(['png'], 'mira.png', {type: 'image/png'}),
+            base64: btoa('png'),
+          },
+        },
+      ],
+    };
+    const [parsed] = parseCharacterBundle(
+      JSON.parse(JSON.stringify(createCharacterBundle([mira]))),
+    );
+    expect({...parsed, references: []}).toEqual({
+      ...mira,
+      references: [],
+      promptFragment: undefined,
+    });
+    const [reference] = parsed.references!;
+    expect(reference).toMatchObject({id: 'r1', angle: 'profile', wardrobeId: 'suit'});
+    expect(reference.image.file.name).toBe('mira.png');
+    expect(reference.image.file.type).toBe('image/png');
+    expect(await reference.image.file.text()).toBe('png');
+  });
+
+  it('exports legacy avatars as references', () => {
+    const bundle = createCharacterBundle([
+      {
+        id: '1',
+        name: 'Old',
+        description: '',
+        avatar: {file: new File([''], 'a.png', {type: 'image/png'}), base64: ''},
+      },
+    ]);
+    expect(bundle.characters[0].references).toHaveLength(1);
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(() => parseCharacterBundle({characters: []})).toThrow(
+      'not a character bundle',
+    );
+    expect(() =>
+      parseCharacterBundle({format: CHARACTER_BUNDLE_FORMAT, version: 99}),
+    ).toThrow('newer version');
+  });
+
+  it('drops unusable entries', () => {
+    const parsed = parseCharacterBundle({
+      format: CHARACTER_BUNDLE_FORMAT,
+      version: 1,
+      characters: [
+        {name: ''},
+        {
+          id: '5',
+          name: 'Jun',
+          references: [
+            {angle: 'sideways', wardrobeId: 'gone', image: {type: 'image/png', data: btoa('x')}},
+            {image: {type: 'image/png'}},
+          ],
+        },
+      ],
+    });
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0].references).toHaveLength(1);
+    expect(parsed[0].references![0]).toMatchObject({
+      angle: ReferenceAngle.FRONT,
+      wardrobeId: undefined,
+    });
+  });
+});
+
+describe('import conflicts', () => {
+  const existing = [character('1', 'Mira'), character('2', 'Jun')];
+
+  it('matches by id, then by name', () => {
+    const incoming = [character('1', 'Renamed'), character('9', 'jun'), character('8', 'New')];
+    expect(
+      findConflicts(incoming, existing).map((c) => [c.incoming.id, c.existing.id]),
+    ).toEqual([
+      ['1', '1'],
+      ['9', '2'],
+    ]);
+  });
+
+  it('numbers names that are taken', () => {
+    expect(getUniqueName('Mira', ['mira', 'Mira (2)'])).toBe('Mira (3)');
+    expect(getUniqueName('Ana', ['Mira'])).toBe('Ana');
+  });
+
+  it('applies the chosen resolutions', () => {
+    const incoming = [
+      character('1', 'Mira'),
+      character('9', 'Jun'),
+      character('7', 'Mira'),
+      character('8', 'New'),
+    ];
+    const imported = resolveImport(incoming, existing, {
+      '1': ConflictResolution.KEEP_BOTH,
+      '9': ConflictResolution.REPLACE,
+    });
+    expect(imported.map((c) => c.name)).toEqual(['Mira (2)', 'Jun', 'New']);
+    expect(imported[0].id).not.toBe('1');
+    expect(imported[1].id).toBe('2');
+    expect(imported[2].id).toBe('8');
+  });
+
+  it('skips conflicts whose id is an object member name', () => {
+    const incoming = [character('constructor', 'Mira'), character('toString', 'Jun')];
+    expect(resolveImport(incoming, existing, {})).toEqual([]);
+  });
+
+  it('catches characters repeated within the bundle', () => {
+    const parsed = parseCharacterBundle({
+      format: CHARACTER_BUNDLE_FORMAT,
+      version: 1,
+      characters: [
+        {id: '5', name: 'Ana'},
+        {id: '5', name: 'ana'},
+      ],
+    });
+    expect(parsed[0].id).toBe('5');
+    expect(parsed[1].id).not.toBe('5');
+    expect(findConflicts(parsed, existing)).toEqual([
+      {incoming: parsed[1], existing: parsed[0], inBundle: true},
+    ]);
+
+    expect(resolveImport(parsed, existing, {}).map((c) => c.name)).toEqual([
+      'Ana',
+    ]);
+    const replaced = resolveImport(parsed, existing, {
+      [parsed[1].id]: ConflictResolution.REPLACE,
+    });
+    expect(replaced.map((c) => [c.id, c.name])).toEqual([['5', 'ana']]);
+    const kept = resolveImport(parsed, existing, {
+      [parsed[1].id]: ConflictResolution.KEEP_BOTH,
+    });
+    expect(kept.map((c) => c.name)).toEqual(['Ana', 'ana (2)']);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Character,
+  CharacterReference,
+  ImageFile,
+  ReferenceAngle,
+  WardrobeVariant,
+} from '../types';
+import {getCharacterReferences} from './characters';
+import {base64ToFile} from './fileUtils';
+import {createId} from './ids';
+import {isRecord} from './json';
+
+export const CHARACTER_BUNDLE_FORMAT = 'veo-studio-characters';
+export const CHARACTER_BUNDLE_VERSION = 1;
+
+export interface BundledImage {
+  name: string;
+  type: string;
+  // Base64 file contents
+  data: string;
+}
+
+interface BundledReference {
+  id: string;
+  angle: ReferenceAngle;
+  wardrobeId?: string;
+  image: BundledImage;
+}
+
+interface BundledCharacter {
+  id: string;
+  name: string;
+  description: string;
+  promptFragment?: string;
+  notes?: string;
+  wardrobe: WardrobeVariant[];
+  references: BundledReference[];
+}
+
+/** Characters with their images inlined, for sharing as one JSON file. */
+export interface CharacterBundle {
+  format: typeof CHARACTER_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  characters: BundledCharacter[];
+}
+
+export enum ConflictResolution {
+  SKIP = 'skip',
+  REPLACE = 'replace',
+  KEEP_BOTH = 'keep-both',
+}
+
+// An imported character with the same id or name as one already saved, or
+// as an earlier character in the same bundle
+export interface CharacterConflict {
+  incoming: Character;
+  existing: Character;
+  inBundle: boolean;
+}
+
+export const bundleImage = (image: ImageFile): BundledImage => ({
+  name: image.file.name,
+  type: image.file.type,
+  data: image.base64,
+});
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+/** Reads an inlined image back, or null if it is missing or not valid. */
+export const parseBundledImage = (
+  value: unknown,
+  fallbackName: string,
+): ImageFile | null => {
+  if (!isRecord(value)) return null;
+  const {name, type, data} = value;
+  if (typeof data !== 'string' || !data || typeof type !== 'string') return null;
+  try {
+    return {
+      file: base64ToFile(data, optionalString(name) ?? fallbackName, type),
+      base64: data,
+    };
+  } catch {
+    // Not valid base64
+    return null;
+  }
+};
+
+export const createCharacterBundle = (
+  characters: Character[],
+): CharacterBundle => ({
+  format: CHARACTER_BUNDLE_FORMAT,
+  version: CHARACTER_BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  characters: characters.map((character) => ({
+    id: character.id,
+    name: character.name,
+    description: character.description,
+    promptFragment: character.promptFragment,
+    notes: character.notes,
+    wardrobe: character.wardrobe ?? [],
+    references: getCharacterReferences(character).map((reference) => ({
+      id: reference.id,
+      angle: reference.angle,
+      wardrobeId: reference.wardrobeId,
+      image: bundleImage(reference.image),
+    })),
+  })),
+});
+
+const parseReference = (value: unknown): CharacterReference | null => {
+  if (!isRecord(value)) return null;
+  const image = parseBundledImage(value.image, 'reference');
+  if (!image) return null;
+  return {
+    id: optionalString(value.id) ?? createId(),
+    angle: Object.values(ReferenceAngle).includes(value.angle as ReferenceAngle)
+      ? (value.angle as ReferenceAngle)
+      : ReferenceAngle.FRONT,
+    wardrobeId: optionalString(value.wardrobeId),
+    image,
+  };
+};
+
+const parseWardrobe = (value: unknown): WardrobeVariant[] =>
+  Array.isArray(value)
+    ? value.flatMap((variant) =>
+        isRecord(variant) && optionalString(variant.id) && optionalString(variant.name)
+          ? [
+              {
+                id: variant.id as string,
+                name: variant.name as string,
+                description: optionalString(variant.description) ?? '',
+              },
+            ]
+          : [],
+      )
+    : [];
+
+/**
+ * Reads a bundle back into characters. Throws if the data is not a bundle
+ * this version understands; characters without a name and images that
+ * cannot be decoded are dropped, and a repeated id is replaced by a new one.
+ */
+export const parseCharacterBundle = (data: unknown): Character[] => {
+  if (!isRecord(data) || data.format !== CHARACTER_BUNDLE_FORMAT) {
+    throw new Error('This file is not a character bundle.');
+  }
+  if (typeof data.version !== 'number' || data.version > CHARACTER_BUNDLE_VERSION) {
+    throw new Error(
+      'This bundle was made by a newer version of the app and cannot be imported.',
+    );
+  }
+  if (!Array.isArray(data.characters)) return [];
+
+  const seenIds = new Set<string>();
+  return data.characters.flatMap((value): Character[] => {
+    if (!isRecord(value) || !optionalString(value.name)) return [];
+    const bundledId = optionalString(value.id);
+    const id = bundledId && !seenIds.has(bundledId) ? bundledId : createId();
+    seenIds.add(id);
+    const wardrobe = parseWardrobe(value.wardrobe);
+    const references = Array.isArray(value.references)
+      ? value.references.flatMap((reference) => {
+          const parsed = parseReference(reference);
+          if (!parsed) return [];
+          // Drop tags pointing at outfits that did not survive parsing
+          return wardrobe.some((variant) => variant.id === parsed.wardrobeId)
+            ? [parsed]
+            : [{...parsed, wardrobeId: undefined}];
+        })
+      : [];
+    return [
+      {
+        id,
+        name: (value.name as string).trim(),
+        description: typeof value.description === 'string' ? value.description : '',
+        promptFragment: optionalString(value.promptFragment),
+        notes: optionalString(value.notes),
+        wardrobe,
+        references,
+      },
+    ];
+  });
+};
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const findMatch = (character: Character, candidates: Character[]) =>
+  candidates.find((c) => c.id === character.id) ??
+  candidates.find((c) => sameName(c.name, character.name));
+
+/**
+ * Pairs imported characters with saved ones sharing their id or name, or
+ * failing that with an earlier imported one.
+ */
+export const findConflicts = (
+  incoming: Character[],
+  existing: Character[],
+): CharacterConflict[] =>
+  incoming.flatMap((character, index): CharacterConflict[] => {
+    const saved = findMatch(character, existing);
+    if (saved) {
+      return [{incoming: character, existing: saved, inBundle: false}];
+    }
+    const earlier = findMatch(character, incoming.slice(0, index));
+    return earlier
+      ? [{incoming: character, existing: earlier, inBundle: true}]
+      : [];
+  });
+
+/** `name`, or "name (2)", "name (3)"... if it is taken. */
+export const getUniqueName = (name: string, taken: string[]): string => {
+  let candidate = name;
+  for (let n = 2; taken.some((t) => sameName(t, candidate)); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+};
+
+/**
+ * The characters to save for an import. `resolutions` says what to do with
+ * each conflicting character, keyed by its incoming id; unresolved
+ * conflicts are skipped. Replacing takes over the saved character's id, or
+ * the place of the earlier imported one, and keeping both gives the import
+ * a new id and, if needed, a numbered name.
+ */
+export const resolveImport = (
+  incoming: Character[],
+  existing: Character[],
+  resolutions: Record<string, ConflictResolution>,
+): Character[] => {
+  const conflicts = findConflicts(incoming, existing);
+  const takenNames = existing.map((character) => character.name);
+  const imported: Character[] = [];
+  // Where each incoming character ended up in `imported`
+  const positions = new Map<Character, number>();
+  const add = (source: Character, character: Character) => {
+    positions.set(source, imported.length);
+    imported.push(character);
+  };
+
+  incoming.forEach((character) => {
+    const conflict = conflicts.find((c) => c.incoming === character);
+    if (!conflict) {
+      add(character, character);
+      takenNames.push(character.name);
+      return;
+    }
+    const resolution = Object.hasOwn(resolutions, character.id)
+      ? resolutions[character.id]
+      : ConflictResolution.SKIP;
+    const earlier = conflict.inBundle
+      ? positions.get(conflict.existing)
+      : undefined;
+    if (resolution === ConflictResolution.REPLACE && earlier !== undefined) {
+      imported[earlier] = {...character, id: imported[earlier].id};
+      positions.set(character, earlier);
+    } else if (resolution === ConflictResolution.REPLACE) {
+      add(character, {...character, id: conflict.existing.id});
+    } else if (resolution === ConflictResolution.KEEP_BOTH) {
+      const name = getUniqueName(character.name, takenNames);
+      takenNames.push(name);
+      add(character, {...character, id: createId(), name});
+    }
+  });
+  return imported;
+};
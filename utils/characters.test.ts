@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  Character,
+  CharacterReference,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  ReferenceAngle,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {
+  applyCast,
+  buildCharacterPrompt,
+  getPreferredAngles,
+  normalizeCharacter,
+  resolveWardrobe,
+  selectCastReferences,
+} from './characters';
+
+const image = (name: string): ImageFile => ({
+  file: new File([''], name, {type: 'image/png'}),
+  base64: name,
+});
+
+const reference = (
+  id: string,
+  angle: ReferenceAngle,
+  wardrobeId?: string,
+): CharacterReference => ({id, image: image(id), angle, wardrobeId});
+
+const MIRA: Character = {
+  id: '1',
+  name: 'Mira',
+  description: 'A tall pilot with silver hair',
+  references: [
+    reference('mira-back', ReferenceAngle.BACK),
+    reference('mira-front', ReferenceAngle.FRONT),
+    reference('mira-front-suit', ReferenceAngle.FRONT, 'suit'),
+    reference('mira-close', ReferenceAngle.CLOSE_UP),
+  ],
+  wardrobe: [
+    {id: 'suit', name: 'Flight suit', description: 'an orange flight suit'},
+    {id: 'gown', name: 'Gala gown', description: ''},
+  ],
+};
+
+const JUN: Character = {
+  id: '2',
+  name: 'Jun',
+  description: 'A small robot',
+  references: [
+    reference('jun-front', ReferenceAngle.FRONT),
+    reference('jun-profile', ReferenceAngle.PROFILE),
+  ],
+};
+
+const ids = (selected: {reference: CharacterReference}[]) =>
+  selected.map(({reference: r}) => r.id);
+
+describe('normalizeCharacter', () => {
+  it('turns a legacy avatar into a front reference', () => {
+    const avatar = image('avatar');
+    const normalized = normalizeCharacter({
+      id: '1',
+      name: 'Old',
+      description: 'Saved long ago',
+      avatar,
+    });
+    expect(normalized.avatar).toBeUndefined();
+    expect(normalized.references).toEqual([
+      {id: '1-avatar', image: avatar, angle: ReferenceAngle.FRONT},
+    ]);
+  });
+
+  it('leaves characters with references alone', () => {
+    expect(normalizeCharacter(MIRA)).toBe(MIRA);
+  });
+});
+
+describe('getPreferredAngles', () => {
+  it('puts the angles the prompt asks for first', () => {
+    expect(getPreferredAngles('A close-up, seen from behind').slice(0, 3)).toEqual([
+      ReferenceAngle.CLOSE_UP,
+      ReferenceAngle.BACK,
+      ReferenceAngle.FRONT,
+    ]);
+    expect(getPreferredAngles('A calm scene')[0]).toBe(ReferenceAngle.FRONT);
+  });
+});
+
+describe('resolveWardrobe', () => {
+  it('prefers the explicit choice, then an outfit named in the prompt', () => {
+    expect(resolveWardrobe(MIRA, 'In her flight suit', 'gown')?.id).toBe('gown');
+    expect(resolveWardrobe(MIRA, 'In her flight suit')?.id).toBe('suit');
+    expect(resolveWardrobe(MIRA, 'On the runway')).toBeUndefined();
+    expect(resolveWardrobe(JUN, 'Anything', 'suit')).toBeUndefined();
+  });
+});
+
+describe('selectCastReferences', () => {
+  it('picks the outfit and angles that suit the prompt', () => {
+    const suit = MIRA.wardrobe![0];
+    expect(
+      ids(selectCastReferences([{character: MIRA, wardrobe: suit}], 'A close-up', 2)),
+    ).toEqual(['mira-front-suit', 'mira-close']);
+    expect(ids(selectCastReferences([{character: MIRA}], 'A close-up', 2))).toEqual([
+      'mira-close',
+      'mira-front',
+    ]);
+  });
+
+  it('prefers new angles over repeats', () => {
+    expect(ids(selectCastReferences([{character: MIRA}], '', 3))).toEqual([
+      'mira-front',
+      'mira-close',
+      'mira-back',
+    ]);
+  });
+
+  it('gives each character a turn before seconds', () => {
+    expect(
+      ids(selectCastReferences([{character: MIRA}, {character: JUN}], '', 3)),
+    ).toEqual(['mira-front', 'jun-front', 'mira-close']);
+    expect(selectCastReferences([{character: MIRA}], '', 0)).toEqual([]);
+  });
+});
+
+describe('buildCharacterPrompt', () => {
+  it('uses the prompt fragment, outfit and notes', () => {
+    expect(
+      buildCharacterPrompt(
+        {...MIRA, promptFragment: 'silver-haired pilot', notes: 'Dry wit.'},
+        MIRA.wardrobe![1],
+      ),
+    ).toBe(
+      'Character: Mira (silver-haired pilot, wearing Gala gown). Personality and voice: Dry wit.',
+    );
+    expect(buildCharacterPrompt(JUN)).toBe('Character: Jun (A small robot).');
+  });
+});
+
+describe('applyCast', () => {
+  const params = (
+    mode: GenerationMode,
+    prompt = 'A hangar at dawn',
+  ): GenerateVideoParams => ({
+    prompt,
+    model: VeoModel.VEO,
+    aspectRatio: AspectRatio.LANDSCAPE,
+    resolution: Resolution.P720,
+    mode,
+    referenceImages: [image('manual')],
+    cast: [{characterId: '1'}, {characterId: '2'}, {characterId: 'gone'}],
+  });
+
+  it('fills the free reference slots after the manual ones', () => {
+    const applied = applyCast(params(GenerationMode.REFERENCES_TO_VIDEO), [
+      MIRA,
+      JUN,
+    ]);
+    expect(applied.prompt).toBe(
+      'A hangar at dawn\n\nCharacter: Mira (A tall pilot with silver hair).\n\nCharacter: Jun (A small robot).',
+    );
+    expect(applied.referenceImages?.map((i) => i.base64)).toEqual([
+      'manual',
+      'mira-front',
+      'jun-front',
+    ]);
+    expect(applied.cast).toBeUndefined();
+  });
+
+  it('only adds text in modes without references', () => {
+    const applied = applyCast(params(GenerationMode.TEXT_TO_VIDEO), [MIRA]);
+    expect(applied.referenceImages?.map((i) => i.base64)).toEqual(['manual']);
+    expect(applied.prompt).toContain('Character: Mira');
+  });
+
+  it('casts mentioned characters and writes their names out', () => {
+    const applied = applyCast(
+      {
+        ...params(GenerationMode.TEXT_TO_VIDEO, '@jun waves at @Mira and @Nobody'),
+        cast: [{characterId: '1', wardrobeId: 'gown'}],
+      },
+      [MIRA, JUN],
+    );
+    expect(applied.prompt).toBe(
+      'Jun waves at Mira and @Nobody\n\nCharacter: Mira (A tall pilot with silver hair, wearing Gala gown).\n\nCharacter: Jun (A small robot).',
+    );
+  });
+
+  it('leaves params without characters alone', () => {
+    const original = {...params(GenerationMode.TEXT_TO_VIDEO), cast: []};
+    expect(applyCast(original, [MIRA]).prompt).toBe('A hangar at dawn');
+    const applied = applyCast(params(GenerationMode.REFERENCES_TO_VIDEO), [
+      MIRA,
+      JUN,
+    ]);
+    expect(applyCast(applied, [MIRA, JUN])).toBe(applied);
+  });
+});
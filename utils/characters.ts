@@ -0,0 +1,278 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  CastMember,
+  Character,
+  CharacterReference,
+  GenerateVideoParams,
+  GenerationMode,
+  ReferenceAngle,
+  WardrobeVariant,
+} from '../types';
+import {createId} from './ids';
+import {resolveMentions} from './mentions';
+import {MAX_REFERENCE_IMAGES} from './validation';
+
+export const REFERENCE_ANGLE_LABELS: Record<ReferenceAngle, string> = {
+  [ReferenceAngle.FRONT]: 'Front',
+  [ReferenceAngle.THREE_QUARTER]: 'Three-quarter',
+  [ReferenceAngle.PROFILE]: 'Profile',
+  [ReferenceAngle.BACK]: 'Back',
+  [ReferenceAngle.FULL_BODY]: 'Full body',
+  [ReferenceAngle.CLOSE_UP]: 'Close-up',
+};
+
+// Most generally useful first: a front view identifies a character best.
+const DEFAULT_ANGLE_ORDER = [
+  ReferenceAngle.FRONT,
+  ReferenceAngle.THREE_QUARTER,
+  ReferenceAngle.FULL_BODY,
+  ReferenceAngle.CLOSE_UP,
+  ReferenceAngle.PROFILE,
+  ReferenceAngle.BACK,
+];
+
+// Prompt wording that calls for a particular view of the character
+const ANGLE_CUES: Array<[ReferenceAngle, RegExp]> = [
+  [ReferenceAngle.CLOSE_UP, /\b(close[- ]?up|headshot|face|expression)/i],
+  [ReferenceAngle.PROFILE, /\b(profile|side view|from the side)\b/i],
+  [ReferenceAngle.BACK, /\b(from behind|back view|walks away|over the shoulder)\b/i],
+  [ReferenceAngle.FULL_BODY, /\b(full[- ]body|wide shot|head to toe|walk|run|danc)/i],
+  [ReferenceAngle.THREE_QUARTER, /\bthree[- ]quarter/i],
+];
+
+export const createReference = (
+  image: CharacterReference['image'],
+  angle = ReferenceAngle.FRONT,
+): CharacterReference => ({id: createId(), image, angle});
+
+export const createWardrobeVariant = (name = ''): WardrobeVariant => ({
+  id: createId(),
+  name,
+  description: '',
+});
+
+/** A character's reference images, including a legacy single avatar. */
+export const getCharacterReferences = (
+  character: Character,
+): CharacterReference[] =>
+  character.references ??
+  (character.avatar
+    ? [
+        {
+          id: `${character.id}-avatar`,
+          image: character.avatar,
+          angle: ReferenceAngle.FRONT,
+        },
+      ]
+    : []);
+
+/** Moves a character saved before references existed onto them. */
+export const normalizeCharacter = (character: Character): Character => {
+  if (character.references) return character;
+  const references = getCharacterReferences(character);
+  const {avatar, ...rest} = character;
+  return {...rest, references};
+};
+
+/**
+ * Angles in the order they suit `prompt`: angles the prompt asks for, e.g.
+ * "close-up" or "from behind", followed by the rest in the default order.
+ */
+export const getPreferredAngles = (prompt: string): ReferenceAngle[] => {
+  const cued = ANGLE_CUES.filter(([, cue]) => cue.test(prompt)).map(
+    ([angle]) => angle,
+  );
+  return [...cued, ...DEFAULT_ANGLE_ORDER.filter((a) => !cued.includes(a))];
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The outfit a character should wear: the one picked explicitly, otherwise
+ * the first variant whose name appears in the prompt.
+ */
+export const resolveWardrobe = (
+  character: Character,
+  prompt: string,
+  wardrobeId?: string,
+): WardrobeVariant | undefined => {
+  const wardrobe = character.wardrobe ?? [];
+  if (wardrobeId) {
+    const chosen = wardrobe.find((variant) => variant.id === wardrobeId);
+    if (chosen) return chosen;
+  }
+  return wardrobe.find(
+    (variant) =>
+      variant.name.trim() &&
+      new RegExp(`\\b${escapeRegExp(variant.name.trim())}\\b`, 'i').test(prompt),
+  );
+};
+
+export interface CastReference {
+  characterId: string;
+  reference: CharacterReference;
+}
+
+/**
+ * Ranks one character's references for a scene. References showing the
+ * chosen outfit come first, untagged ones next and other outfits last;
+ * within each group the angles the prompt suits best win. After the first
+ * pick, angles not yet used are preferred so extra slots add new views.
+ */
+const rankReferences = (
+  references: CharacterReference[],
+  angles: ReferenceAngle[],
+  wardrobeId?: string,
+): CharacterReference[] => {
+  const wardrobeRank = (reference: CharacterReference) => {
+    if (!reference.wardrobeId) return wardrobeId ? 1 : 0;
+    return reference.wardrobeId === wardrobeId ? 0 : 2;
+  };
+  const sorted = [...references].sort(
+    (a, b) =>
+      wardrobeRank(a) - wardrobeRank(b) ||
+      angles.indexOf(a.angle) - angles.indexOf(b.angle),
+  );
+
+  const ranked: CharacterReference[] = [];
+  while (sorted.length > 0) {
+    const usedAngles = new Set(ranked.map((reference) => reference.angle));
+    const index = Math.max(
+      0,
+      sorted.findIndex((reference) => !usedAngles.has(reference.angle)),
+    );
+    ranked.push(...sorted.splice(index, 1));
+  }
+  return ranked;
+};
+
+export interface ResolvedCastMember {
+  character: Character;
+  wardrobe?: WardrobeVariant;
+}
+
+/** Looks up the cast's characters, dropping any that have been deleted. */
+export const resolveCast = (
+  cast: CastMember[],
+  characters: Character[],
+  prompt: string,
+): ResolvedCastMember[] =>
+  cast.flatMap((member) => {
+    const character = characters.find((c) => c.id === member.characterId);
+    return character
+      ? [{character, wardrobe: resolveWardrobe(character, prompt, member.wardrobeId)}]
+      : [];
+  });
+
+/**
+ * Picks the reference images to send for the cast when only `slots` fit.
+ * Characters take turns so everyone gets their best image before anyone
+ * gets a second one.
+ */
+export const selectCastReferences = (
+  cast: ResolvedCastMember[],
+  prompt: string,
+  slots: number,
+): CastReference[] => {
+  const angles = getPreferredAngles(prompt);
+  const queues = cast.map(({character, wardrobe}) =>
+    rankReferences(getCharacterReferences(character), angles, wardrobe?.id).map(
+      (reference) => ({characterId: character.id, reference}),
+    ),
+  );
+
+  const selected: CastReference[] = [];
+  while (selected.length < slots && queues.some((queue) => queue.length > 0)) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next && selected.length < slots) selected.push(next);
+    }
+  }
+  return selected;
+};
+
+const toSentence = (text: string) => `${text.trim().replace(/[.\s]+$/, '')}.`;
+
+/** The text added to a prompt for a cast character. */
+export const buildCharacterPrompt = (
+  character: Character,
+  wardrobe?: WardrobeVariant,
+): string => {
+  const details = [
+    character.promptFragment?.trim() || character.description.trim(),
+    wardrobe && `wearing ${wardrobe.description.trim() || wardrobe.name.trim()}`,
+  ].filter(Boolean);
+  const text = `Character: ${character.name} (${details.join(', ')}).`;
+  return character.notes?.trim()
+    ? `${text} Personality and voice: ${toSentence(character.notes)}`
+    : text;
+};
+
+/** The cast followed by characters only @mentioned in the prompt. */
+export const collectCast = (
+  params: Pick<GenerateVideoParams, 'prompt' | 'cast'>,
+  characters: Character[],
+): CastMember[] => {
+  const explicit = params.cast ?? [];
+  const mentioned = resolveMentions(params.prompt, characters).characterIds;
+  return [
+    ...explicit,
+    ...mentioned
+      .filter((id) => !explicit.some((member) => member.characterId === id))
+      .map((characterId) => ({characterId})),
+  ];
+};
+
+/**
+ * Expands the characters in generation parameters: the cast and everyone
+ * @mentioned in the prompt. Mentions become plain names, each character's
+ * description is appended to the prompt, and in modes that take reference
+ * images the best of their references fill the slots left after the ones
+ * added by hand. The result has no cast left, so expanding it again is a
+ * no-op.
+ */
+export const applyCast = (
+  params: GenerateVideoParams,
+  characters: Character[],
+): GenerateVideoParams => {
+  const mentions = resolveMentions(params.prompt, characters);
+  const members = resolveCast(
+    collectCast(params, characters),
+    characters,
+    params.prompt,
+  );
+  if (members.length === 0) {
+    return params.cast ? {...params, cast: undefined} : params;
+  }
+
+  const prompt = [
+    mentions.text.trim(),
+    ...members.map(({character, wardrobe}) =>
+      buildCharacterPrompt(character, wardrobe),
+    ),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const usesReferences =
+    params.mode === GenerationMode.REFERENCES_TO_VIDEO ||
+    params.mode === GenerationMode.EXTEND_VIDEO;
+  if (!usesReferences) return {...params, prompt, cast: undefined};
+
+  const manual = params.referenceImages ?? [];
+  const selected = selectCastReferences(
+    members,
+    params.prompt,
+    MAX_REFERENCE_IMAGES - manual.length,
+  );
+  return {
+    ...params,
+    prompt,
+    referenceImages: [...manual, ...selected.map(({reference}) => reference.image)],
+    cast: undefined,
+  };
+};
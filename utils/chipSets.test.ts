@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {ChipSet, GenerationMode} from '../types';
+import {
+  appendKeyword,
+  collectKeywords,
+  DEFAULT_CHIP_SETS,
+  getActiveChipSets,
+  parseKeywordList,
+} from './chipSets';
+
+const chipSet = (
+  name: string,
+  overrides: Partial<ChipSet> = {},
+): ChipSet => ({
+  id: name,
+  name,
+  modes: [],
+  keywords: [],
+  negativeKeywords: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('getActiveChipSets', () => {
+  it('offers the general set and the one for the mode', () => {
+    expect(
+      getActiveChipSets(
+        DEFAULT_CHIP_SETS,
+        GenerationMode.FRAMES_TO_VIDEO,
+        null,
+      ).map((set) => set.name),
+    ).toEqual(['Frame Motion', 'General']);
+    expect(
+      getActiveChipSets(DEFAULT_CHIP_SETS, GenerationMode.TEXT_TO_VIDEO, null).map(
+        (set) => set.name,
+      ),
+    ).toEqual(['General']);
+  });
+
+  it('offers category sets only for a preset from that category', () => {
+    const sets = [
+      chipSet('Any'),
+      chipSet('Anime', {presetCategory: 'Anime'}),
+      chipSet('Anime frames', {
+        presetCategory: 'Anime',
+        modes: [GenerationMode.FRAMES_TO_VIDEO],
+      }),
+    ];
+    expect(
+      getActiveChipSets(sets, GenerationMode.TEXT_TO_VIDEO, null).map(
+        (set) => set.name,
+      ),
+    ).toEqual(['Any']);
+    expect(
+      getActiveChipSets(sets, GenerationMode.FRAMES_TO_VIDEO, 'Anime').map(
+        (set) => set.name,
+      ),
+    ).toEqual(['Anime frames', 'Anime', 'Any']);
+  });
+});
+
+describe('collectKeywords', () => {
+  it('merges the sets in order without repeats', () => {
+    expect(
+      collectKeywords([
+        chipSet('A', {keywords: ['Bokeh', 'Macro'], negativeKeywords: ['Blurry']}),
+        chipSet('B', {keywords: ['bokeh', 'Fog'], negativeKeywords: ['Blurry']}),
+      ]),
+    ).toEqual({keywords: ['Bokeh', 'Macro', 'Fog'], negativeKeywords: ['Blurry']});
+  });
+});
+
+describe('appendKeyword', () => {
+  it('appends unless the text already has the keyword', () => {
+    expect(appendKeyword('', 'Bokeh')).toBe('Bokeh');
+    expect(appendKeyword('A fox ', 'Bokeh')).toBe('A fox, Bokeh');
+    expect(appendKeyword('A fox, bokeh', 'Bokeh')).toBe('A fox, bokeh');
+  });
+});
+
+describe('parseKeywordList', () => {
+  it('splits on commas and lines and drops blanks and repeats', () => {
+    expect(parseKeywordList('Fog, Rain\n\nfog ,  Snow,')).toEqual([
+      'Fog',
+      'Rain',
+      'Snow',
+    ]);
+  });
+});
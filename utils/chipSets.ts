@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ChipSet, GenerationMode} from '../types';
+import {createId} from './ids';
+
+// Put in the library the first time it is opened, like the default presets
+export const DEFAULT_CHIP_SETS: ChipSet[] = [
+  {
+    id: 'chips-general',
+    name: 'General',
+    modes: [],
+    keywords: [
+      'Cinematic',
+      '4k',
+      'Photorealistic',
+      'Slow Motion',
+      'Drone Shot',
+      'Golden Hour',
+      'Cyberpunk',
+      'Studio Lighting',
+      'Macro',
+      'Wide Angle',
+      'Volumetric Lighting',
+      'Bokeh',
+    ],
+    negativeKeywords: ['Blurry', 'Watermark', 'Text Overlay', 'Distorted Faces'],
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'chips-frames',
+    name: 'Frame Motion',
+    modes: [GenerationMode.FRAMES_TO_VIDEO],
+    keywords: [
+      'Smooth Transition',
+      'Slow Push-In',
+      'Orbit Shot',
+      'Parallax',
+      'Time-lapse',
+      'Morph',
+    ],
+    negativeKeywords: ['Sudden Cuts', 'Camera Shake'],
+    createdAt: 1,
+    updatedAt: 1,
+  },
+  {
+    id: 'chips-references',
+    name: 'Subjects',
+    modes: [GenerationMode.REFERENCES_TO_VIDEO],
+    keywords: [
+      'Consistent Character',
+      'Same Outfit',
+      'Full Body Shot',
+      'Close-Up Portrait',
+      'Over-the-Shoulder',
+    ],
+    negativeKeywords: ['Extra Limbs', 'Changing Outfits'],
+    createdAt: 2,
+    updatedAt: 2,
+  },
+  {
+    id: 'chips-extend',
+    name: 'Continuity',
+    modes: [GenerationMode.EXTEND_VIDEO],
+    keywords: [
+      'Continuous Shot',
+      'Same Lighting',
+      'Camera Keeps Moving',
+      'Natural Pacing',
+    ],
+    negativeKeywords: ['Scene Change', 'Jump Cut', 'Fade to Black'],
+    createdAt: 3,
+    updatedAt: 3,
+  },
+];
+
+/** An unsaved, empty chip set for the library editor. */
+export const createChipSet = (): ChipSet => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name: '',
+    modes: [],
+    keywords: [],
+    negativeKeywords: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Sets tied to a preset category come first, then those tied to modes
+const specificity = (set: ChipSet) =>
+  (set.presetCategory ? 2 : 0) + (set.modes.length > 0 ? 1 : 0);
+
+/**
+ * The sets that apply to `mode` and the category of the loaded preset, the
+ * most specific first.
+ */
+export const getActiveChipSets = (
+  chipSets: ChipSet[],
+  mode: GenerationMode,
+  presetCategory: string | null,
+): ChipSet[] =>
+  chipSets
+    .filter(
+      (set) =>
+        (set.modes.length === 0 || set.modes.includes(mode)) &&
+        (!set.presetCategory || set.presetCategory === presetCategory),
+    )
+    .sort((a, b) => specificity(b) - specificity(a) || a.createdAt - b.createdAt);
+
+const dedupe = (keywords: string[]) => {
+  const seen = new Set<string>();
+  return keywords.filter((keyword) => {
+    const key = keyword.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** The chips of `sets`, in order, without repeats. */
+export const collectKeywords = (
+  sets: ChipSet[],
+): {keywords: string[]; negativeKeywords: string[]} => ({
+  keywords: dedupe(sets.flatMap((set) => set.keywords)),
+  negativeKeywords: dedupe(sets.flatMap((set) => set.negativeKeywords)),
+});
+
+/** `text` with `keyword` added to the end, unless it already has it. */
+export const appendKeyword = (text: string, keyword: string): string => {
+  const trimmed = text.trim();
+  if (!trimmed) return keyword;
+  if (trimmed.toLowerCase().includes(keyword.toLowerCase())) return text;
+  return `${trimmed}, ${keyword}`;
+};
+
+/** Keywords typed as a comma- or line-separated list. */
+export const parseKeywordList = (text: string): string[] =>
+  dedupe(
+    text
+      .split(/[,\n]/)
+      .map((keyword) => keyword.trim())
+      .filter(Boolean),
+  );
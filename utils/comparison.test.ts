@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {buildVariations, countVariations, createComparison} from './comparison';
+
+const params: GenerateVideoParams = {
+  prompt: 'A lighthouse at dusk',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+describe('buildVariations', () => {
+  it('repeats the same settings for plain takes', () => {
+    const variations = buildVariations(params, {
+      takes: 2,
+      models: [],
+      resolutions: [],
+    });
+    expect(variations.map((v) => v.label)).toEqual(['Take 1', 'Take 2']);
+    expect(variations.every((v) => v.params.model === VeoModel.VEO_FAST)).toBe(
+      true,
+    );
+  });
+
+  it('crosses models and resolutions, naming only what varies', () => {
+    const options = {
+      takes: 1,
+      models: [VeoModel.VEO_FAST, VeoModel.VEO],
+      resolutions: [Resolution.P1080],
+    };
+    const variations = buildVariations(params, options);
+    expect(countVariations(options)).toBe(2);
+    expect(variations.map((v) => v.label)).toEqual(['Veo 3.1 Fast', 'Veo 3.1']);
+    expect(variations.map((v) => [v.params.model, v.params.resolution])).toEqual([
+      [VeoModel.VEO_FAST, Resolution.P1080],
+      [VeoModel.VEO, Resolution.P1080],
+    ]);
+  });
+});
+
+describe('createComparison', () => {
+  it('puts the scene it was started from first', () => {
+    const variations = buildVariations(params, {
+      takes: 2,
+      models: [],
+      resolutions: [],
+    });
+    expect(createComparison(['j1', 'j2'], variations, 's0').entries).toEqual([
+      {id: 's0', label: 'Current'},
+      {id: 'j1', label: 'Take 1'},
+      {id: 'j2', label: 'Take 2'},
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Comparison,
+  ComparisonEntry,
+  GenerateVideoParams,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {MODEL_LABELS} from './formatUtils';
+import {createId} from './ids';
+
+// Every take is a paid generation and a tile on screen
+export const MAX_COMPARISON_TAKES = 6;
+
+export interface ComparisonOptions {
+  // Takes of each model and resolution
+  takes: number;
+  models: VeoModel[];
+  resolutions: Resolution[];
+}
+
+export interface Variation {
+  label: string;
+  params: GenerateVideoParams;
+}
+
+export const countVariations = ({takes, models, resolutions}: ComparisonOptions) =>
+  takes * Math.max(models.length, 1) * Math.max(resolutions.length, 1);
+
+/**
+ * `params` once per take of every model and resolution picked. Axes left
+ * empty keep the value from `params`. Labels only name what varies.
+ */
+export const buildVariations = (
+  params: GenerateVideoParams,
+  options: ComparisonOptions,
+): Variation[] => {
+  const models = options.models.length > 0 ? options.models : [params.model];
+  const resolutions =
+    options.resolutions.length > 0 ? options.resolutions : [params.resolution];
+  const variations: Variation[] = [];
+  for (const model of models) {
+    for (const resolution of resolutions) {
+      for (let take = 1; take <= options.takes; take++) {
+        const label = [
+          models.length > 1 && MODEL_LABELS[model],
+          resolutions.length > 1 && resolution,
+          options.takes > 1 && `Take ${take}`,
+        ]
+          .filter(Boolean)
+          .join(' · ');
+        variations.push({
+          label: label || `Take ${take}`,
+          params: {...params, model, resolution},
+        });
+      }
+    }
+  }
+  return variations;
+};
+
+/**
+ * A comparison of the jobs queued for `variations`, keyed by their job ids,
+ * after the scene it was started from if there is one.
+ */
+export const createComparison = (
+  jobIds: string[],
+  variations: Variation[],
+  sourceSceneId?: string,
+): Comparison => {
+  const entries: ComparisonEntry[] = jobIds.map((id, index) => ({
+    id,
+    label: variations[index].label,
+  }));
+  return {
+    id: createId(),
+    entries: sourceSceneId
+      ? [{id: sourceSceneId, label: 'Current'}, ...entries]
+      : entries,
+    createdAt: Date.now(),
+  };
+};
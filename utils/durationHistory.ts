@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Resolution, VeoModel } from '../types';
+
+const STORAGE_KEY = 'veo-studio:generation-durations';
+// Only the most recent runs are kept so the estimate follows API speed changes.
+const MAX_SAMPLES = 10;
+
+type DurationHistory = Record<string, number[]>;
+
+const historyKey = (model: VeoModel, resolution: Resolution) =>
+  `${model}|${resolution}`;
+
+const readHistory = (): DurationHistory => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const recordGenerationDuration = (
+  model: VeoModel,
+  resolution: Resolution,
+  durationMs: number,
+) => {
+  const history = readHistory();
+  const key = historyKey(model, resolution);
+  history[key] = [...(history[key] ?? []), durationMs].slice(-MAX_SAMPLES);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+};
+
+/**
+ * Median duration of past generations with the same model and resolution,
+ * or null when there is no history yet.
+ */
+export const estimateGenerationDuration = (
+  model: VeoModel,
+  resolution: Resolution,
+): number | null => {
+  const samples = readHistory()[historyKey(model, resolution)];
+  if (!samples || samples.length === 0) return null;
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {
+  buildEnhancementInstructions,
+  getEnhancementContext,
+  parseEnhancementCandidates,
+} from './enhancement';
+
+const image: ImageFile = {
+  file: new File([''], 'frame.png', {type: 'image/png'}),
+  base64: '',
+};
+
+const params: GenerateVideoParams = {
+  prompt: 'A kite over the dunes',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+describe('getEnhancementContext', () => {
+  it('only counts media the mode uses', () => {
+    const context = getEnhancementContext({
+      ...params,
+      startFrame: image,
+      referenceImages: [image],
+    });
+    expect(context.hasStartFrame).toBe(false);
+    expect(context.referenceCount).toBe(0);
+  });
+
+  it('describes the frames of a frames-to-video generation', () => {
+    expect(
+      getEnhancementContext({
+        ...params,
+        mode: GenerationMode.FRAMES_TO_VIDEO,
+        startFrame: image,
+        endFrame: image,
+      }),
+    ).toMatchObject({hasStartFrame: true, hasEndFrame: true, isLooping: false});
+  });
+});
+
+describe('buildEnhancementInstructions', () => {
+  it('asks for motion between the frames in frames mode', () => {
+    const instructions = buildEnhancementInstructions(
+      'A kite',
+      getEnhancementContext({
+        ...params,
+        mode: GenerationMode.FRAMES_TO_VIDEO,
+        startFrame: image,
+        endFrame: image,
+      }),
+    );
+    expect(instructions).toContain('ends on the attached end frame');
+    expect(instructions).toContain('carry the first frame to the last');
+  });
+
+  it('asks for a continuation when extending', () => {
+    const instructions = buildEnhancementInstructions(
+      'The kite dives',
+      getEnhancementContext({
+        ...params,
+        mode: GenerationMode.EXTEND_VIDEO,
+        aspectRatio: AspectRatio.PORTRAIT,
+      }),
+    );
+    expect(instructions).toContain('continues an existing video');
+    expect(instructions).toContain('vertical (9:16)');
+    expect(instructions).toContain('User prompt: The kite dives');
+  });
+});
+
+describe('parseEnhancementCandidates', () => {
+  it('drops blank, repeated and unchanged rewrites', () => {
+    expect(
+      parseEnhancementCandidates(
+        [
+          {label: 'Faithful', prompt: 'A kite'},
+          {label: 'Cinematic', prompt: ' A red kite at dawn '},
+          {label: 'Bold', prompt: 'A red kite at dawn'},
+          {label: 'Empty', prompt: '  '},
+          {prompt: 'A kite in a storm'},
+        ],
+        'A kite',
+      ),
+    ).toEqual([
+      {label: 'Cinematic', prompt: 'A red kite at dawn'},
+      {label: 'Option 2', prompt: 'A kite in a storm'},
+    ]);
+  });
+
+  it('accepts an object wrapping the candidates', () => {
+    expect(
+      parseEnhancementCandidates(
+        {candidates: [{label: 'Bold', prompt: 'A kite made of fire'}]},
+        'A kite',
+      ),
+    ).toHaveLength(1);
+    expect(parseEnhancementCandidates('not json', 'A kite')).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  EnhancementCandidate,
+  EnhancementContext,
+  GenerateVideoParams,
+  GenerationMode,
+} from '../types';
+
+export const MAX_ENHANCEMENT_CANDIDATES = 3;
+
+/** The context for enhancing `params`; pass them with the cast applied. */
+export const getEnhancementContext = (
+  params: GenerateVideoParams,
+): EnhancementContext => {
+  const usesReferences =
+    params.mode === GenerationMode.REFERENCES_TO_VIDEO ||
+    params.mode === GenerationMode.EXTEND_VIDEO;
+  return {
+    mode: params.mode,
+    aspectRatio: params.aspectRatio,
+    hasStartFrame:
+      params.mode === GenerationMode.FRAMES_TO_VIDEO && Boolean(params.startFrame),
+    hasEndFrame:
+      (params.mode === GenerationMode.FRAMES_TO_VIDEO ||
+        params.mode === GenerationMode.EXTEND_VIDEO) &&
+      Boolean(params.endFrame),
+    referenceCount: usesReferences ? (params.referenceImages?.length ?? 0) : 0,
+    hasStyleImage: usesReferences && Boolean(params.styleImage),
+    isLooping:
+      params.mode === GenerationMode.FRAMES_TO_VIDEO && Boolean(params.isLooping),
+  };
+};
+
+// What a prompt has to do in each mode, for the text model
+const describeTask = (context: EnhancementContext): string[] => {
+  switch (context.mode) {
+    case GenerationMode.FRAMES_TO_VIDEO:
+      if (context.isLooping) {
+        return [
+          'The video starts and ends on the attached start frame, so it loops.',
+          'Describe motion that leaves the frame and returns to it seamlessly; do not describe what the frame already shows.',
+        ];
+      }
+      return context.hasEndFrame
+        ? [
+            'The video starts on the attached start frame and ends on the attached end frame.',
+            'Describe the motion, action and camera movement that carry the first frame to the last; do not describe what the frames already show.',
+          ]
+        : [
+            'The video starts on the attached start frame.',
+            'Describe what moves and how the camera moves from there; do not describe what the frame already shows.',
+          ];
+    case GenerationMode.REFERENCES_TO_VIDEO:
+      return [
+        `${context.referenceCount || 'Some'} reference image(s) of subjects${
+          context.hasStyleImage ? ' and a style image' : ''
+        } are attached.`,
+        'Refer to the subjects by role rather than re-describing their looks, and focus on action, setting, lighting and camera.',
+      ];
+    case GenerationMode.EXTEND_VIDEO:
+      return [
+        'The prompt continues an existing video in one unbroken shot.',
+        `Describe only what happens next, keeping subjects, setting and camera continuous with what came before; no cuts or new scenes.${
+          context.hasEndFrame ? ' The continuation must end on the attached end frame.' : ''
+        }`,
+      ];
+    default:
+      return [
+        'Describe a complete shot: subject, action, setting, lighting, texture and camera.',
+      ];
+  }
+};
+
+/** Instructions for the text model, suited to the mode and attached media. */
+export const buildEnhancementInstructions = (
+  prompt: string,
+  context: EnhancementContext,
+): string =>
+  [
+    'You are an expert prompt engineer for the Veo video generation model. Rewrite the user prompt below.',
+    ...describeTask(context),
+    context.aspectRatio === AspectRatio.PORTRAIT
+      ? 'The video is vertical (9:16): compose for a tall frame.'
+      : 'The video is widescreen (16:9): compose for a wide frame.',
+    'Keep the user\'s intent. Keep words starting with "@" (character names) and {placeholders} in braces exactly as written.',
+    `Give ${MAX_ENHANCEMENT_CANDIDATES} rewrites of at most 3 sentences each, taking different directions: "Faithful" polishes the wording and adds only what is missing, "Cinematic" adds camera work and lighting, "Bold" takes a more creative angle. Label each with its direction.`,
+    '',
+    `User prompt: ${prompt}`,
+  ].join('\n');
+
+/**
+ * Turns the text model's answer into candidates. Blank rewrites, repeats and
+ * rewrites identical to the original are dropped.
+ */
+export const parseEnhancementCandidates = (
+  data: unknown,
+  original: string,
+): EnhancementCandidate[] => {
+  const entries = Array.isArray(data)
+    ? data
+    : Array.isArray((data as {candidates?: unknown})?.candidates)
+      ? (data as {candidates: unknown[]}).candidates
+      : [];
+
+  const candidates: EnhancementCandidate[] = [];
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const {label, prompt} = entry as Record<string, unknown>;
+    if (typeof prompt !== 'string' || !prompt.trim()) continue;
+    const rewritten = prompt.trim();
+    if (
+      rewritten === original.trim() ||
+      candidates.some((c) => c.prompt === rewritten)
+    ) {
+      continue;
+    }
+    candidates.push({
+      label:
+        typeof label === 'string' && label.trim()
+          ? label.trim()
+          : `Option ${candidates.length + 1}`,
+      prompt: rewritten,
+    });
+  }
+  return candidates.slice(0, MAX_ENHANCEMENT_CANDIDATES);
+};
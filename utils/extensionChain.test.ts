@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  ChainStatus,
+  GenerationMode,
+  Resolution,
+  SceneOrigin,
+  VeoModel,
+} from '../types';
+import {
+  buildExtensionParams,
+  createChain,
+  endChain,
+  getNextPrompt,
+  recordHop,
+  restoreChains,
+} from './extensionChain';
+
+describe('buildExtensionParams', () => {
+  const source = {
+    params: {
+      prompt: 'A red fox in the snow',
+      model: VeoModel.VEO,
+      aspectRatio: AspectRatio.PORTRAIT,
+      resolution: Resolution.P1080,
+      mode: GenerationMode.FRAMES_TO_VIDEO,
+      startFrame: {file: new File([], 'start.png'), base64: 'AAAA'},
+      isLooping: true,
+      lineage: {origin: SceneOrigin.ORIGINAL, sourceSceneIds: []},
+    },
+    blob: new Blob(['video'], {type: 'video/mp4'}),
+    videoObject: {uri: 'https://example.com/fox.mp4'},
+  };
+
+  it('extends the source video at 720p with the new prompt', () => {
+    const params = buildExtensionParams(source, 'The fox starts running');
+    expect(params).toMatchObject({
+      prompt: 'The fox starts running',
+      mode: GenerationMode.EXTEND_VIDEO,
+      model: VeoModel.VEO,
+      aspectRatio: AspectRatio.PORTRAIT,
+      resolution: Resolution.P720,
+      inputVideoObject: source.videoObject,
+    });
+    expect(params.inputVideo?.file.type).toBe('video/mp4');
+  });
+
+  it('drops media from the source generation', () => {
+    const params = buildExtensionParams(source, 'Next');
+    expect(params.startFrame).toBeNull();
+    expect(params.referenceImages).toEqual([]);
+    expect(params.isLooping).toBe(false);
+  });
+
+  it('links the extension to its source scene', () => {
+    expect(buildExtensionParams(source, 'Next', 'scene-1').lineage).toEqual({
+      origin: SceneOrigin.EXTENSION,
+      sourceSceneIds: ['scene-1'],
+    });
+    expect(buildExtensionParams(source, 'Next').lineage).toBeUndefined();
+  });
+});
+
+describe('extension chains', () => {
+  it('ignores blank prompts', () => {
+    expect(createChain('scene-0', [' First ', '', '  ', 'Second']).prompts).toEqual([
+      'First',
+      'Second',
+    ]);
+  });
+
+  it('runs one hop per prompt', () => {
+    let chain = createChain('scene-0', ['First', 'Second'], 'job-1');
+    expect(getNextPrompt(chain)).toBe('First');
+
+    chain = recordHop(chain, 'scene-1');
+    expect(chain.status).toBe(ChainStatus.RUNNING);
+    expect(chain.jobId).toBeNull();
+    expect(getNextPrompt(chain)).toBe('Second');
+
+    chain = recordHop(chain, 'scene-2');
+    expect(chain.status).toBe(ChainStatus.COMPLETED);
+    expect(chain.sceneIds).toEqual(['scene-1', 'scene-2']);
+    expect(getNextPrompt(chain)).toBeUndefined();
+  });
+
+  it('keeps finished hops when a step fails', () => {
+    const chain = endChain(
+      recordHop(createChain('scene-0', ['First', 'Second']), 'scene-1'),
+      ChainStatus.FAILED,
+      'Blocked by safety filters',
+    );
+    expect(chain).toMatchObject({
+      status: ChainStatus.FAILED,
+      sceneIds: ['scene-1'],
+      error: 'Blocked by safety filters',
+    });
+  });
+
+  it('fails running chains whose hop did not survive a reload', () => {
+    const resumed = createChain('scene-0', ['First', 'Second'], 'job-1');
+    const orphaned = createChain('scene-0', ['First'], 'job-2');
+    const cancelled = endChain(createChain('scene-0', ['First']), ChainStatus.CANCELLED);
+    const [kept, interrupted, untouched] = restoreChains(
+      [resumed, orphaned, cancelled],
+      new Set(['job-1']),
+    );
+    expect(kept).toBe(resumed);
+    expect(interrupted).toMatchObject({
+      status: ChainStatus.FAILED,
+      jobId: null,
+      error: 'Interrupted when the page was closed.',
+    });
+    expect(untouched).toBe(cancelled);
+  });
+});
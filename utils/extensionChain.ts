@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  ChainStatus,
+  ExtensionChain,
+  GenerateVideoParams,
+  GenerationMode,
+  Resolution,
+  Scene,
+  SceneOrigin,
+} from '../types';
+import {createId} from './ids';
+
+// Veo extends a video at most 20 times, so longer chains would fail part
+// way through anyway.
+export const MAX_CHAIN_LENGTH = 20;
+
+/**
+ * Params that extend `source` with `prompt`. Only the model and aspect
+ * ratio carry over; extensions must be 720p and take no other media or
+ * characters.
+ * `sourceSceneId` links the result back to the scene being extended.
+ */
+export const buildExtensionParams = (
+  source: Pick<Scene, 'params' | 'blob' | 'videoObject'>,
+  prompt: string,
+  sourceSceneId?: string,
+): GenerateVideoParams => {
+  const file = new File([source.blob], 'last_video.mp4', {
+    type: source.blob.type || 'video/mp4',
+  });
+  return {
+    ...source.params,
+    mode: GenerationMode.EXTEND_VIDEO,
+    prompt,
+    inputVideo: {file, base64: ''}, // for preview in the form
+    inputVideoObject: source.videoObject, // for the API call
+    resolution: Resolution.P720,
+    startFrame: null,
+    endFrame: null,
+    referenceImages: [],
+    styleImage: null,
+    isLooping: false,
+    cast: undefined,
+    lineage: sourceSceneId
+      ? {origin: SceneOrigin.EXTENSION, sourceSceneIds: [sourceSceneId]}
+      : undefined,
+  };
+};
+
+export const createChain = (
+  sourceSceneId: string,
+  prompts: string[],
+  jobId: string | null = null,
+): ExtensionChain => ({
+  id: createId(),
+  sourceSceneId,
+  prompts: prompts.map((prompt) => prompt.trim()).filter(Boolean),
+  sceneIds: [],
+  jobId,
+  status: ChainStatus.RUNNING,
+});
+
+/** The prompt of the hop after the last finished one, if any is left. */
+export const getNextPrompt = (chain: ExtensionChain): string | undefined =>
+  chain.prompts[chain.sceneIds.length];
+
+/**
+ * Records a finished hop. The chain completes once every prompt has a
+ * scene; otherwise it waits for the caller to start the next hop.
+ */
+export const recordHop = (
+  chain: ExtensionChain,
+  sceneId: string,
+): ExtensionChain => {
+  const next = {...chain, sceneIds: [...chain.sceneIds, sceneId], jobId: null};
+  return getNextPrompt(next) === undefined
+    ? {...next, status: ChainStatus.COMPLETED}
+    : next;
+};
+
+/** Stops the chain at its current hop. Later prompts are never run. */
+export const endChain = (
+  chain: ExtensionChain,
+  status: ChainStatus.FAILED | ChainStatus.CANCELLED,
+  error?: string,
+): ExtensionChain => ({...chain, status, jobId: null, error});
+
+/**
+ * Chains saved by a previous session, after a reload. Running chains whose
+ * hop is among `resumedJobIds` carry on; the rest lost their hop with the
+ * page and are marked as failed instead of waiting forever.
+ */
+export const restoreChains = (
+  chains: ExtensionChain[],
+  resumedJobIds: ReadonlySet<string>,
+): ExtensionChain[] =>
+  chains.map((chain) =>
+    chain.status === ChainStatus.RUNNING &&
+    !(chain.jobId && resumedJobIds.has(chain.jobId))
+      ? endChain(
+          chain,
+          ChainStatus.FAILED,
+          'Interrupted when the page was closed.',
+        )
+      : chain,
+  );
@@ -28,3 +28,65 @@ export const fileToImageFile = (file: File): Promise<ImageFile> =>
 
 export const fileToVideoFile = (file: File): Promise<VideoFile> =>
   fileToBase64<VideoFile>(file);
+
+/** Reads a video's duration in seconds from its metadata. */
+export const getVideoDuration = (url: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => resolve(video.duration);
+    video.onerror = () => reject(new Error('Failed to read video metadata.'));
+    video.src = url;
+  });
+
+/** Saves `url` (usually an object URL) through a temporary link. */
+export const downloadUrl = (url: string, filename: string) => {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
+/** Saves a blob as a file, releasing its object URL afterwards. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * The file picked in a file input. Clears the input so picking the same
+ * file again still fires a change.
+ */
+export const takePickedFile = (input: HTMLInputElement): File | undefined => {
+  const file = input.files?.[0];
+  input.value = '';
+  return file;
+};
+
+/** Rebuilds a blob from base64 data, e.g. one read back from JSON. */
+export const base64ToBlob = (base64: string, type: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], {type});
+};
+
+export const base64ToFile = (base64: string, name: string, type: string): File =>
+  new File([base64ToBlob(base64, type)], name, {type});
+
+/** Base64 contents of a blob. Works outside the DOM, unlike FileReader. */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large videos don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
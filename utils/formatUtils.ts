@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {VeoModel} from '../types';
+
+export const MODEL_LABELS: Record<VeoModel, string> = {
+  [VeoModel.VEO_FAST]: 'Veo 3.1 Fast',
+  [VeoModel.VEO]: 'Veo 3.1',
+};
+
+/** Formats milliseconds as m:ss, e.g. 83000 -> "1:23". */
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,8 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A unique id for a new record: its creation time plus a random suffix. */
+export const createId = () =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
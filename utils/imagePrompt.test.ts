@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  ImageRole,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {getEnhancementContext} from './enhancement';
+import {
+  buildImagePromptInstructions,
+  cleanSuggestedPrompt,
+  collectPromptImages,
+  getPromptImagesKey,
+} from './imagePrompt';
+
+const makeImage = (name: string): ImageFile => ({
+  file: new File(['x'], name, {type: 'image/png', lastModified: 1}),
+  base64: 'eA==',
+});
+
+const start = makeImage('start.png');
+const end = makeImage('end.png');
+const reference = makeImage('ref.png');
+
+const params: GenerateVideoParams = {
+  prompt: '',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.FRAMES_TO_VIDEO,
+  startFrame: start,
+  endFrame: end,
+  referenceImages: [reference],
+};
+
+describe('collectPromptImages', () => {
+  it('takes the frames in frames mode, in order', () => {
+    expect(
+      collectPromptImages(params).map(({role, image}) => [role, image]),
+    ).toEqual([
+      [ImageRole.START_FRAME, start],
+      [ImageRole.END_FRAME, end],
+    ]);
+  });
+
+  it('leaves out the end frame of a loop', () => {
+    expect(
+      collectPromptImages({...params, isLooping: true}).map(({role}) => role),
+    ).toEqual([ImageRole.START_FRAME]);
+  });
+
+  it('takes references and the style image in references mode', () => {
+    expect(
+      collectPromptImages({
+        ...params,
+        mode: GenerationMode.REFERENCES_TO_VIDEO,
+        styleImage: makeImage('style.png'),
+      }).map(({role}) => role),
+    ).toEqual([ImageRole.REFERENCE, ImageRole.STYLE]);
+  });
+
+  it('has no images for text to video', () => {
+    const images = collectPromptImages({
+      ...params,
+      mode: GenerationMode.TEXT_TO_VIDEO,
+    });
+    expect(images).toEqual([]);
+    expect(getPromptImagesKey(images)).toBe('');
+  });
+});
+
+describe('getPromptImagesKey', () => {
+  it('changes when an image is swapped', () => {
+    const before = getPromptImagesKey(collectPromptImages(params));
+    const after = getPromptImagesKey(
+      collectPromptImages({...params, endFrame: makeImage('other.png')}),
+    );
+    expect(after).not.toBe(before);
+  });
+});
+
+describe('buildImagePromptInstructions', () => {
+  it('names the images and asks for the motion between frames', () => {
+    const instructions = buildImagePromptInstructions(
+      collectPromptImages(params),
+      getEnhancementContext(params),
+    );
+    expect(instructions).toContain('in order: start frame, end frame.');
+    expect(instructions).toContain('carry one to the other');
+  });
+});
+
+describe('cleanSuggestedPrompt', () => {
+  it('strips labels, quotes and line breaks', () => {
+    expect(cleanSuggestedPrompt('Prompt: "A fox\n runs through snow."')).toBe(
+      'A fox runs through snow.',
+    );
+    expect(cleanSuggestedPrompt('  A quiet harbor at dawn. ')).toBe(
+      'A quiet harbor at dawn.',
+    );
+  });
+});
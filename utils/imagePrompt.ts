@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  EnhancementContext,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageRole,
+  PromptImage,
+} from '../types';
+
+export const IMAGE_ROLE_LABELS: Record<ImageRole, string> = {
+  [ImageRole.START_FRAME]: 'Start frame',
+  [ImageRole.END_FRAME]: 'End frame',
+  [ImageRole.REFERENCE]: 'Subject reference',
+  [ImageRole.STYLE]: 'Style reference',
+};
+
+/**
+ * The images the mode sends with the generation, in the order the text
+ * model should see them; pass `params` with the cast applied.
+ */
+export const collectPromptImages = (
+  params: GenerateVideoParams,
+): PromptImage[] => {
+  const images: PromptImage[] = [];
+  if (params.mode === GenerationMode.FRAMES_TO_VIDEO && params.startFrame) {
+    images.push({role: ImageRole.START_FRAME, image: params.startFrame});
+  }
+  if (
+    (params.mode === GenerationMode.FRAMES_TO_VIDEO && !params.isLooping) ||
+    params.mode === GenerationMode.EXTEND_VIDEO
+  ) {
+    if (params.endFrame) {
+      images.push({role: ImageRole.END_FRAME, image: params.endFrame});
+    }
+  }
+  if (
+    params.mode === GenerationMode.REFERENCES_TO_VIDEO ||
+    params.mode === GenerationMode.EXTEND_VIDEO
+  ) {
+    (params.referenceImages ?? []).forEach((image) =>
+      images.push({role: ImageRole.REFERENCE, image}),
+    );
+    if (params.styleImage) {
+      images.push({role: ImageRole.STYLE, image: params.styleImage});
+    }
+  }
+  return images;
+};
+
+/** Changes whenever an image is added, removed or swapped. */
+export const getPromptImagesKey = (images: PromptImage[]): string =>
+  images
+    .map(
+      ({role, image}) =>
+        `${role}:${image.file.name}:${image.file.size}:${image.file.lastModified}`,
+    )
+    .join('|');
+
+// What the suggested prompt should cover, given the images in the mode
+const describeGoal = (context: EnhancementContext): string => {
+  switch (context.mode) {
+    case GenerationMode.FRAMES_TO_VIDEO:
+      if (context.isLooping) {
+        return 'The video starts and ends on the start frame. Suggest motion that leaves the frame and returns to it seamlessly.';
+      }
+      return context.hasEndFrame
+        ? 'The video starts on the start frame and ends on the end frame. Suggest the motion and camera movement that plausibly carry one to the other.'
+        : 'The video starts on the start frame. Suggest what plausibly moves next and how the camera moves.';
+    case GenerationMode.EXTEND_VIDEO:
+      return 'The video continues an existing shot. Suggest what happens next, heading for the end frame if there is one.';
+    default:
+      return 'The subject references show who or what appears in the video, the style reference how it looks. Suggest a shot featuring the subjects, referring to them by role.';
+  }
+};
+
+/** Instructions sent ahead of the images to get a prompt suggestion. */
+export const buildImagePromptInstructions = (
+  images: PromptImage[],
+  context: EnhancementContext,
+): string =>
+  [
+    'You are an expert prompt engineer for the Veo video generation model. Write a video prompt based on the attached images.',
+    `The images are, in order: ${images
+      .map(({role}) => IMAGE_ROLE_LABELS[role].toLowerCase())
+      .join(', ')}.`,
+    describeGoal(context),
+    'Cover the subject, setting, lighting and plausible motion in at most 3 sentences.',
+    context.aspectRatio === AspectRatio.PORTRAIT
+      ? 'The video is vertical (9:16).'
+      : 'The video is widescreen (16:9).',
+    'Output ONLY the prompt.',
+  ].join('\n');
+
+/** The suggested prompt without the labels or quotes models wrap it in. */
+export const cleanSuggestedPrompt = (text: string): string =>
+  text
+    .trim()
+    .replace(/^(video\s+)?prompt\s*:\s*/i, '')
+    .replace(/^["“'](.*)["”']$/s, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
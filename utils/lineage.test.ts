@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerationMode,
+  Resolution,
+  Scene,
+  SceneOrigin,
+  VeoModel,
+} from '../types';
+import {
+  buildLineageForest,
+  deriveParams,
+  getAncestry,
+  getLineage,
+  LineageNode,
+} from './lineage';
+
+const PARAMS = {
+  prompt: 'A lighthouse at dusk',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+const scene = (
+  id: string,
+  timestamp: number,
+  origin = SceneOrigin.ORIGINAL,
+  sourceSceneIds: string[] = [],
+): Scene => ({
+  id,
+  url: `blob:${id}`,
+  blob: new Blob(),
+  videoObject: {},
+  prompt: id,
+  timestamp,
+  params: PARAMS,
+  lineage: {origin, sourceSceneIds},
+});
+
+// Scene ids of a forest, e.g. ['a', ['b', ['c']]]
+const shape = (nodes: LineageNode[]): unknown[] =>
+  nodes.flatMap((node) =>
+    node.children.length
+      ? [node.scene.id, shape(node.children)]
+      : [node.scene.id],
+  );
+
+describe('getLineage', () => {
+  it('treats scenes without lineage as originals', () => {
+    expect(getLineage({})).toEqual({
+      origin: SceneOrigin.ORIGINAL,
+      sourceSceneIds: [],
+    });
+  });
+});
+
+describe('deriveParams', () => {
+  it('replaces the lineage of the params it copies', () => {
+    const derived = deriveParams(
+      {...PARAMS, lineage: {origin: SceneOrigin.RETRY, sourceSceneIds: ['x']}},
+      SceneOrigin.ITERATION,
+      'a',
+    );
+    expect(derived).toMatchObject({
+      prompt: PARAMS.prompt,
+      lineage: {origin: SceneOrigin.ITERATION, sourceSceneIds: ['a']},
+    });
+  });
+});
+
+describe('buildLineageForest', () => {
+  it('nests scenes under their source, oldest first', () => {
+    const scenes = [
+      scene('c', 3, SceneOrigin.EXTENSION, ['b']),
+      scene('retry', 4, SceneOrigin.RETRY, ['a']),
+      scene('b', 2, SceneOrigin.EXTENSION, ['a']),
+      scene('other', 5),
+      scene('a', 1),
+    ];
+    expect(shape(buildLineageForest(scenes))).toEqual([
+      'a',
+      ['b', ['c'], 'retry'],
+      'other',
+    ]);
+  });
+
+  it('promotes scenes whose source was deleted to roots', () => {
+    const scenes = [scene('b', 2, SceneOrigin.ITERATION, ['deleted'])];
+    expect(shape(buildLineageForest(scenes))).toEqual(['b']);
+  });
+
+  it('uses the first source that still exists', () => {
+    const scenes = [
+      scene('a', 1),
+      scene('b', 2, SceneOrigin.ITERATION, ['deleted', 'a']),
+    ];
+    expect(shape(buildLineageForest(scenes))).toEqual(['a', ['b']]);
+  });
+
+  it('does not lose scenes that link to each other', () => {
+    const scenes = [
+      scene('a', 1, SceneOrigin.ITERATION, ['b']),
+      scene('b', 2, SceneOrigin.ITERATION, ['a']),
+    ];
+    const ids = shape(buildLineageForest(scenes)).flat(Infinity);
+    expect(ids.sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('getAncestry', () => {
+  it('walks back to the original', () => {
+    const scenes = [
+      scene('a', 1),
+      scene('b', 2, SceneOrigin.EXTENSION, ['a']),
+      scene('c', 3, SceneOrigin.ITERATION, ['b']),
+    ];
+    expect(getAncestry(scenes, 'c').map((s) => s.id)).toEqual(['a', 'b', 'c']);
+    expect(getAncestry(scenes, 'missing')).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideoParams, Scene, SceneLineage, SceneOrigin} from '../types';
+
+export const ORIGINAL_LINEAGE: SceneLineage = {
+  origin: SceneOrigin.ORIGINAL,
+  sourceSceneIds: [],
+};
+
+export const SCENE_ORIGIN_LABELS: Record<SceneOrigin, string> = {
+  [SceneOrigin.ORIGINAL]: 'Original',
+  [SceneOrigin.EXTENSION]: 'Extension',
+  [SceneOrigin.RETRY]: 'Retry',
+  [SceneOrigin.ITERATION]: 'Iteration',
+};
+
+export const getLineage = (scene: Pick<Scene, 'lineage'>): SceneLineage =>
+  scene.lineage ?? ORIGINAL_LINEAGE;
+
+/** `params` for a new generation made from scene `sourceSceneId`. */
+export const deriveParams = (
+  params: GenerateVideoParams,
+  origin: SceneOrigin,
+  sourceSceneId: string,
+): GenerateVideoParams => ({
+  ...params,
+  lineage: {origin, sourceSceneIds: [sourceSceneId]},
+});
+
+export interface LineageNode {
+  scene: Scene;
+  children: LineageNode[];
+}
+
+/**
+ * The scene a scene hangs under in the tree: its first source that still
+ * exists. Links that would loop back to the scene itself are ignored.
+ */
+const findParents = (scenes: Scene[]): Map<string, Scene> => {
+  const byId = new Map(scenes.map((scene) => [scene.id, scene]));
+  const parents = new Map<string, Scene>();
+  for (const scene of scenes) {
+    const parentId = getLineage(scene).sourceSceneIds.find((id) => byId.has(id));
+    if (parentId) parents.set(scene.id, byId.get(parentId)!);
+  }
+  for (const scene of scenes) {
+    const seen = new Set([scene.id]);
+    for (let p = parents.get(scene.id); p; p = parents.get(p.id)) {
+      if (seen.has(p.id)) {
+        parents.delete(scene.id);
+        break;
+      }
+      seen.add(p.id);
+    }
+  }
+  return parents;
+};
+
+/**
+ * Arranges scenes into trees of originals and everything made from them,
+ * oldest first at every level. Scenes whose sources were all deleted
+ * become roots of their own.
+ */
+export const buildLineageForest = (scenes: Scene[]): LineageNode[] => {
+  const parents = findParents(scenes);
+  const nodes = new Map<string, LineageNode>(
+    scenes.map((scene) => [scene.id, {scene, children: []}]),
+  );
+  const roots: LineageNode[] = [];
+  const sorted = [...scenes].sort((a, b) => a.timestamp - b.timestamp);
+  for (const scene of sorted) {
+    const node = nodes.get(scene.id)!;
+    const parent = parents.get(scene.id);
+    if (parent) {
+      nodes.get(parent.id)!.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+};
+
+/** The scene and the scenes it descends from, root first. */
+export const getAncestry = (scenes: Scene[], sceneId: string): Scene[] => {
+  const parents = findParents(scenes);
+  const scene = scenes.find((s) => s.id === sceneId);
+  if (!scene) return [];
+  const ancestry = [scene];
+  for (let p = parents.get(scene.id); p; p = parents.get(p.id)) {
+    ancestry.unshift(p);
+  }
+  return ancestry;
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {Character} from '../types';
+import {
+  getMentionHandle,
+  getMentionQuery,
+  insertMention,
+  resolveMentions,
+  segmentMentions,
+  suggestMentions,
+} from './mentions';
+
+const character = (id: string, name: string): Character => ({
+  id,
+  name,
+  description: '',
+});
+
+const SAMURAI = character('1', 'Cyber Samurai');
+const JEAN = character('2', 'Jean-Luc');
+const SAM = character('3', 'Sam');
+const CHARACTERS = [SAMURAI, JEAN, SAM];
+
+describe('getMentionHandle', () => {
+  it('drops spaces and punctuation but keeps hyphens', () => {
+    expect(getMentionHandle(' Cyber Samurai ')).toBe('CyberSamurai');
+    expect(getMentionHandle('Jean-Luc')).toBe('Jean-Luc');
+    expect(getMentionHandle('Dr. Who')).toBe('DrWho');
+  });
+});
+
+describe('resolveMentions', () => {
+  it('replaces known mentions with names and reports the rest', () => {
+    const resolved = resolveMentions(
+      '@cyber-samurai meets @JeanLuc, then @samurai. Mail a@b.com',
+      CHARACTERS,
+    );
+    expect(resolved.text).toBe(
+      'Cyber Samurai meets Jean-Luc, then @samurai. Mail a@b.com',
+    );
+    expect(resolved.characterIds).toEqual(['1', '2']);
+    expect(resolved.unresolved).toEqual([{start: 36, end: 44, handle: 'samurai'}]);
+  });
+
+  it('lists each character once', () => {
+    expect(resolveMentions('@Sam and @sam', CHARACTERS).characterIds).toEqual([
+      '3',
+    ]);
+  });
+});
+
+describe('segmentMentions', () => {
+  it('marks mentions as known or unknown', () => {
+    expect(segmentMentions('Hi @Sam and @Bob!', CHARACTERS)).toEqual([
+      {text: 'Hi '},
+      {text: '@Sam', character: SAM},
+      {text: ' and '},
+      {text: '@Bob', character: null},
+      {text: '!'},
+    ]);
+  });
+});
+
+describe('autocomplete', () => {
+  it('finds the mention being typed', () => {
+    expect(getMentionQuery('Hello @Cy', 9)).toEqual({start: 6, query: 'Cy'});
+    expect(getMentionQuery('Hello @', 7)).toEqual({start: 6, query: ''});
+    expect(getMentionQuery('Hello @Cy there', 15)).toBeNull();
+    expect(getMentionQuery('mail@ex', 7)).toBeNull();
+  });
+
+  it('suggests names starting with the query first', () => {
+    expect(suggestMentions('sam', CHARACTERS)).toEqual([SAM, SAMURAI]);
+    expect(suggestMentions('', CHARACTERS, 2)).toEqual([SAMURAI, JEAN]);
+  });
+
+  it('completes the handle and moves the caret past it', () => {
+    expect(insertMention('Hi @Cy', 3, 6, SAMURAI)).toEqual({
+      text: 'Hi @CyberSamurai ',
+      caret: 17,
+    });
+    expect(insertMention('Hi @Cyb walks', 3, 5, SAMURAI)).toEqual({
+      text: 'Hi @CyberSamurai walks',
+      caret: 17,
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Character} from '../types';
+
+// "@Name" that is not part of a word or email address. Hyphens are allowed
+// so names like Jean-Luc can be written as they are.
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_@])@([\p{L}\p{N}_-]+)/gu;
+// An unfinished mention right before the caret
+const MENTION_QUERY_PATTERN = /(?<![\p{L}\p{N}_@])@([\p{L}\p{N}_-]*)$/u;
+const HANDLE_TAIL_PATTERN = /^[\p{L}\p{N}_-]*/u;
+
+export interface Mention {
+  // Index of the "@"
+  start: number;
+  // Index just past the handle
+  end: number;
+  handle: string;
+}
+
+export interface MentionSegment {
+  text: string;
+  // Set for mentions; null when no character has the name
+  character?: Character | null;
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+/** How a character is written after "@": the name without spaces. */
+export const getMentionHandle = (name: string): string =>
+  name.trim().replace(/[^\p{L}\p{N}_-]+/gu, '');
+
+export const findMentions = (text: string): Mention[] =>
+  [...text.matchAll(MENTION_PATTERN)].map((match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    handle: match[1],
+  }));
+
+/** Case, spaces and punctuation are ignored, so @cyber-samurai works too. */
+export const matchMention = (
+  handle: string,
+  characters: Character[],
+): Character | undefined => {
+  const key = normalize(handle);
+  return key
+    ? characters.find((character) => normalize(character.name) === key)
+    : undefined;
+};
+
+/** Splits `text` into plain runs and mentions, for highlighting. */
+export const segmentMentions = (
+  text: string,
+  characters: Character[],
+): MentionSegment[] => {
+  const segments: MentionSegment[] = [];
+  let last = 0;
+  for (const mention of findMentions(text)) {
+    if (mention.start > last) {
+      segments.push({text: text.slice(last, mention.start)});
+    }
+    segments.push({
+      text: text.slice(mention.start, mention.end),
+      character: matchMention(mention.handle, characters) ?? null,
+    });
+    last = mention.end;
+  }
+  if (last < text.length) segments.push({text: text.slice(last)});
+  return segments;
+};
+
+export interface ResolvedMentions {
+  // The text with each known mention replaced by the character's name
+  text: string;
+  // Mentioned characters, in order of first mention
+  characterIds: string[];
+  unresolved: Mention[];
+}
+
+export const resolveMentions = (
+  text: string,
+  characters: Character[],
+): ResolvedMentions => {
+  const characterIds: string[] = [];
+  const unresolved: Mention[] = [];
+  let resolved = '';
+  let last = 0;
+  for (const mention of findMentions(text)) {
+    const character = matchMention(mention.handle, characters);
+    if (!character) {
+      unresolved.push(mention);
+      continue;
+    }
+    if (!characterIds.includes(character.id)) characterIds.push(character.id);
+    resolved += text.slice(last, mention.start) + character.name;
+    last = mention.end;
+  }
+  return {text: resolved + text.slice(last), characterIds, unresolved};
+};
+
+/** The mention being typed at `caret`, if any. */
+export const getMentionQuery = (
+  text: string,
+  caret: number,
+): {start: number; query: string} | null => {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  return match ? {start: match.index!, query: match[1]} : null;
+};
+
+/** Characters whose name starts with `query` first, then any containing it. */
+export const suggestMentions = (
+  query: string,
+  characters: Character[],
+  limit = 5,
+): Character[] => {
+  const key = normalize(query);
+  const starts = characters.filter((c) => normalize(c.name).startsWith(key));
+  const contains = characters.filter(
+    (c) => !starts.includes(c) && normalize(c.name).includes(key),
+  );
+  return [...starts, ...contains].slice(0, limit);
+};
+
+/**
+ * Completes the mention starting at `start` with `character`, replacing
+ * whatever part of the handle was already typed around the caret.
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  character: Character,
+): {text: string; caret: number} => {
+  const after = text.slice(caret).replace(HANDLE_TAIL_PATTERN, '');
+  const mention = `@${getMentionHandle(character.name)}`;
+  const separator = /^\s/.test(after) ? '' : ' ';
+  return {
+    text: `${text.slice(0, start)}${mention}${separator}${after}`,
+    caret: start + mention.length + 1,
+  };
+};
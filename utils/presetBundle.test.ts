@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  GenerationMode,
+  Preset,
+  PresetIcon,
+  SceneOrigin,
+  VeoModel,
+} from '../types';
+import {
+  createPresetBundle,
+  dedupePresetNames,
+  parsePresetBundle,
+  PRESET_BUNDLE_FORMAT,
+} from './presetBundle';
+import {createPreset, DEFAULT_PRESETS} from './presets';
+
+const image = {
+  file: new File(['png'], 'style.png', {type: 'image/png'}),
+  base64: btoa('png'),
+};
+
+const preset = (name: string, category = 'Looks'): Preset => ({
+  ...DEFAULT_PRESETS[0],
+  id: name,
+  name,
+  category,
+});
+
+describe('createPreset', () => {
+  it('keeps the form settings but nothing tied to this library', () => {
+    const created = createPreset({
+      ...DEFAULT_PRESETS[0].params,
+      mode: GenerationMode.REFERENCES_TO_VIDEO,
+      styleImage: image,
+      lineage: {origin: SceneOrigin.ITERATION, sourceSceneIds: ['s1']},
+      cast: [{characterId: 'c1'}],
+    });
+    expect(created.params.mode).toBe(GenerationMode.REFERENCES_TO_VIDEO);
+    expect(created.params.styleImage).toBe(image);
+    expect(created.params.lineage).toBeUndefined();
+    expect(created.params.cast).toBeUndefined();
+  });
+});
+
+describe('preset bundles', () => {
+  it('round-trips presets with their images through JSON', async () => {
+    const looping: Preset = {
+      ...preset('Dreamy loop'),
+      icon: PresetIcon.FILM,
+      params: {
+        ...DEFAULT_PRESETS[0].params,
+        isLooping: true,
+        negativePrompt: 'Blurry',
+        styleImage: image,
+        referenceImages: [image],
+      },
+    };
+    const bundle = JSON.parse(JSON.stringify(createPresetBundle([looping])));
+    expect(bundle.format).toBe(PRESET_BUNDLE_FORMAT);
+
+    const [parsed] = parsePresetBundle(bundle);
+    expect(parsed.id).not.toBe(looping.id);
+    expect(parsed.name).toBe('Dreamy loop');
+    expect(parsed.category).toBe('Looks');
+    expect(parsed.icon).toBe(PresetIcon.FILM);
+    expect(parsed.params.isLooping).toBe(true);
+    expect(parsed.params.negativePrompt).toBe('Blurry');
+    expect(parsed.params.prompt).toBe(looping.params.prompt);
+    expect(parsed.params.referenceImages).toHaveLength(1);
+    expect(parsed.params.styleImage?.file.name).toBe('style.png');
+    expect(await parsed.params.styleImage?.file.text()).toBe('png');
+  });
+
+  it('rejects other files and drops presets without a name', () => {
+    expect(() => parsePresetBundle({format: 'other'})).toThrow(
+      'not a preset bundle',
+    );
+    expect(() =>
+      parsePresetBundle({format: PRESET_BUNDLE_FORMAT, version: 99}),
+    ).toThrow('newer version');
+    expect(
+      parsePresetBundle({
+        format: PRESET_BUNDLE_FORMAT,
+        version: 1,
+        presets: [{name: ' '}, {name: 'Bare', model: 'unknown'}],
+      }).map((p) => [p.name, p.category, p.params.model]),
+    ).toEqual([['Bare', 'General', VeoModel.VEO_FAST]]);
+  });
+
+  it('numbers imported names already taken in the same category', () => {
+    const imported = dedupePresetNames(
+      [preset('Noir'), preset('Noir'), preset('Noir', 'Other')],
+      [preset('Noir')],
+    );
+    expect(imported.map((p) => p.name)).toEqual(['Noir (2)', 'Noir (3)', 'Noir']);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  Preset,
+  PresetIcon,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {
+  BundledImage,
+  bundleImage,
+  getUniqueName,
+  parseBundledImage,
+} from './characterBundle';
+import {createId} from './ids';
+import {isRecord} from './json';
+import {DEFAULT_PRESET_CATEGORY, toPresetParams} from './presets';
+
+export const PRESET_BUNDLE_FORMAT = 'veo-studio-presets';
+export const PRESET_BUNDLE_VERSION = 1;
+
+interface BundledPreset {
+  name: string;
+  description: string;
+  category: string;
+  icon: PresetIcon;
+  prompt: string;
+  negativePrompt?: string;
+  model: VeoModel;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  mode: GenerationMode;
+  isLooping: boolean;
+  startFrame?: BundledImage;
+  endFrame?: BundledImage;
+  styleImage?: BundledImage;
+  referenceImages: BundledImage[];
+}
+
+/** Presets with their images inlined, for sharing as one JSON file. */
+export interface PresetBundle {
+  format: typeof PRESET_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  presets: BundledPreset[];
+}
+
+const bundleOptional = (image?: ImageFile | null) =>
+  image ? bundleImage(image) : undefined;
+
+export const createPresetBundle = (presets: Preset[]): PresetBundle => ({
+  format: PRESET_BUNDLE_FORMAT,
+  version: PRESET_BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  presets: presets.map(({name, description, category, icon, params}) => ({
+    name,
+    description,
+    category,
+    icon,
+    prompt: params.prompt,
+    negativePrompt: params.negativePrompt || undefined,
+    model: params.model,
+    aspectRatio: params.aspectRatio,
+    resolution: params.resolution,
+    mode: params.mode,
+    isLooping: params.isLooping ?? false,
+    startFrame: bundleOptional(params.startFrame),
+    endFrame: bundleOptional(params.endFrame),
+    styleImage: bundleOptional(params.styleImage),
+    referenceImages: (params.referenceImages ?? []).map(bundleImage),
+  })),
+});
+
+const oneOf = <T extends string>(
+  values: Record<string, T>,
+  value: unknown,
+  fallback: T,
+): T =>
+  Object.values(values).includes(value as T) ? (value as T) : fallback;
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const parseParams = (value: Record<string, unknown>): GenerateVideoParams =>
+  toPresetParams({
+    prompt: typeof value.prompt === 'string' ? value.prompt : '',
+    negativePrompt: text(value.negativePrompt) || undefined,
+    model: oneOf(VeoModel, value.model, VeoModel.VEO_FAST),
+    aspectRatio: oneOf(AspectRatio, value.aspectRatio, AspectRatio.LANDSCAPE),
+    resolution: oneOf(Resolution, value.resolution, Resolution.P720),
+    mode: oneOf(GenerationMode, value.mode, GenerationMode.TEXT_TO_VIDEO),
+    isLooping: value.isLooping === true,
+    startFrame: parseBundledImage(value.startFrame, 'start-frame'),
+    endFrame: parseBundledImage(value.endFrame, 'end-frame'),
+    styleImage: parseBundledImage(value.styleImage, 'style'),
+    referenceImages: Array.isArray(value.referenceImages)
+      ? value.referenceImages.flatMap((image) => {
+          const parsed = parseBundledImage(image, 'reference');
+          return parsed ? [parsed] : [];
+        })
+      : [],
+  });
+
+/**
+ * Reads a bundle back into presets, each with a new id. Throws if the data
+ * is not a bundle this version understands; presets without a name are
+ * dropped, as are images that cannot be decoded.
+ */
+export const parsePresetBundle = (data: unknown): Preset[] => {
+  if (!isRecord(data) || data.format !== PRESET_BUNDLE_FORMAT) {
+    throw new Error('This file is not a preset bundle.');
+  }
+  if (typeof data.version !== 'number' || data.version > PRESET_BUNDLE_VERSION) {
+    throw new Error(
+      'This bundle was made by a newer version of the app and cannot be imported.',
+    );
+  }
+  if (!Array.isArray(data.presets)) return [];
+
+  const now = Date.now();
+  return data.presets.flatMap((value, index): Preset[] => {
+    if (!isRecord(value) || !text(value.name)) return [];
+    return [
+      {
+        id: createId(),
+        name: text(value.name),
+        description: text(value.description),
+        category: text(value.category) || DEFAULT_PRESET_CATEGORY,
+        icon: oneOf(PresetIcon, value.icon, PresetIcon.SPARKLES),
+        params: parseParams(value),
+        // Offset so the library, sorted by creation time, keeps bundle order
+        createdAt: now + index,
+        updatedAt: now + index,
+      },
+    ];
+  });
+};
+
+/**
+ * Imported presets are always added next to the saved ones; any whose name
+ * is already taken in its category gets a numbered name.
+ */
+export const dedupePresetNames = (
+  incoming: Preset[],
+  existing: Preset[],
+): Preset[] => {
+  const taken = [...existing];
+  return incoming.map((preset) => {
+    const name = getUniqueName(
+      preset.name,
+      taken.filter((p) => p.category === preset.category).map((p) => p.name),
+    );
+    const renamed = {...preset, name};
+    taken.push(renamed);
+    return renamed;
+  });
+};
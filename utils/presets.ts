@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  Preset,
+  PresetIcon,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {createId} from './ids';
+
+export const DEFAULT_PRESET_CATEGORY = 'General';
+const STARTER_CATEGORY = 'Starters';
+
+const textToVideo = (
+  prompt: string,
+  model: VeoModel,
+  aspectRatio: AspectRatio,
+): GenerateVideoParams => ({
+  prompt,
+  model,
+  aspectRatio,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+  startFrame: null,
+  endFrame: null,
+  referenceImages: [],
+  styleImage: null,
+  isLooping: false,
+});
+
+// Put in the library the first time it is opened. From then on they are
+// ordinary presets that can be edited or deleted.
+export const DEFAULT_PRESETS: Preset[] = [
+  {
+    id: 'nature',
+    name: 'Cinematic Nature',
+    description: 'Majestic landscapes with photorealistic lighting',
+    category: STARTER_CATEGORY,
+    icon: PresetIcon.MOUNTAIN,
+    params: textToVideo(
+      'Aerial drone shot of a majestic waterfall in Iceland, mossy green cliffs, overcast dramatic sky, cinematic 4k.',
+      VeoModel.VEO,
+      AspectRatio.LANDSCAPE,
+    ),
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'city',
+    name: 'Cyberpunk City',
+    description: 'Futuristic urban vibes with neon aesthetics',
+    category: STARTER_CATEGORY,
+    icon: PresetIcon.BUILDING,
+    params: textToVideo(
+      'Cyberpunk street level view, neon signs reflecting in rain puddles, steam rising from vents, futuristic cars, night time.',
+      VeoModel.VEO_FAST,
+      AspectRatio.LANDSCAPE,
+    ),
+    createdAt: 1,
+    updatedAt: 1,
+  },
+  {
+    id: 'character',
+    name: '3D Character',
+    description: 'Cute animated characters in studio quality',
+    category: STARTER_CATEGORY,
+    icon: PresetIcon.SMILE,
+    params: textToVideo(
+      'A cute fluffy robot with big glowing eyes holding a flower, pixar style, studio lighting, 3d render, high detail.',
+      VeoModel.VEO_FAST,
+      AspectRatio.PORTRAIT,
+    ),
+    createdAt: 2,
+    updatedAt: 2,
+  },
+  {
+    id: 'abstract',
+    name: 'Fluid Abstract',
+    description: 'Mesmerizing colors and liquid motion',
+    category: STARTER_CATEGORY,
+    icon: PresetIcon.PALETTE,
+    params: textToVideo(
+      'Swirling colorful ink in water, macro shot, slow motion, vibrant red and blue colors mixing, artistic abstract background.',
+      VeoModel.VEO_FAST,
+      AspectRatio.LANDSCAPE,
+    ),
+    createdAt: 3,
+    updatedAt: 3,
+  },
+];
+
+/**
+ * The part of a form state worth reusing. Lineage, the input video and the
+ * cast all point at things in this library, so they are left out.
+ */
+export const toPresetParams = (
+  params: GenerateVideoParams,
+): GenerateVideoParams => ({
+  prompt: params.prompt,
+  negativePrompt: params.negativePrompt,
+  model: params.model,
+  aspectRatio: params.aspectRatio,
+  resolution: params.resolution,
+  mode: params.mode,
+  startFrame: params.startFrame ?? null,
+  endFrame: params.endFrame ?? null,
+  referenceImages: params.referenceImages ?? [],
+  styleImage: params.styleImage ?? null,
+  isLooping: params.isLooping ?? false,
+});
+
+/** An unsaved preset holding `params`, for the user to name. */
+export const createPreset = (
+  params: GenerateVideoParams,
+  category = DEFAULT_PRESET_CATEGORY,
+): Preset => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name: '',
+    description: '',
+    category,
+    icon: PresetIcon.SPARKLES,
+    params: toPresetParams(params),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const getPresetCategories = (presets: Preset[]): string[] =>
+  [...new Set(presets.map((preset) => preset.category))].sort((a, b) =>
+    a.localeCompare(b),
+  );
+
+/** How many images a preset brings along, for showing on its card. */
+export const countPresetImages = ({params}: Preset): number =>
+  [params.startFrame, params.endFrame, params.styleImage].filter(Boolean)
+    .length + (params.referenceImages?.length ?? 0);
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  countCombinations,
+  expandTemplate,
+  fillTemplate,
+  findTemplateVariables,
+  getTemplateError,
+  MAX_TEMPLATE_COMBINATIONS,
+} from './promptTemplate';
+
+describe('findTemplateVariables', () => {
+  it('lists each variable once with its suggested values', () => {
+    expect(
+      findTemplateVariables(
+        'A {subject} at {time_of_day: dawn | dusk}, then the {subject} {time_of_day}',
+      ),
+    ).toEqual([
+      {name: 'subject', options: []},
+      {name: 'time_of_day', options: ['dawn', 'dusk']},
+    ]);
+  });
+
+  it('ignores braces that are not variables', () => {
+    expect(findTemplateVariables('Text reads {} and { 2 } and {a b}')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('replaces known variables and keeps the rest', () => {
+    expect(
+      fillTemplate('A {subject} at {time: noon}, {mood}', {
+        subject: 'fox',
+        time: 'dusk',
+      }),
+    ).toBe('A fox at dusk, {mood}');
+  });
+});
+
+describe('expandTemplate', () => {
+  it('produces every combination with the values that made it', () => {
+    const expanded = expandTemplate('A {subject} at {time: dawn | dusk}', {
+      subject: ['fox', 'owl'],
+    });
+    expect(expanded).toEqual([
+      {prompt: 'A fox at dawn', values: {subject: 'fox', time: 'dawn'}},
+      {prompt: 'A fox at dusk', values: {subject: 'fox', time: 'dusk'}},
+      {prompt: 'A owl at dawn', values: {subject: 'owl', time: 'dawn'}},
+      {prompt: 'A owl at dusk', values: {subject: 'owl', time: 'dusk'}},
+    ]);
+  });
+
+  it('returns the prompt unchanged when there are no variables', () => {
+    expect(expandTemplate('A fox', {})).toEqual([{prompt: 'A fox', values: {}}]);
+  });
+});
+
+describe('getTemplateError', () => {
+  it('asks for values and caps the batch size', () => {
+    const variables = findTemplateVariables('{a} {b: x | y}');
+    expect(getTemplateError(variables, {})).toBe('Give {a} at least one value.');
+    expect(getTemplateError(variables, {a: ['1']})).toBeNull();
+
+    const many = Array.from({length: MAX_TEMPLATE_COMBINATIONS}, (_, i) => `${i}`);
+    expect(countCombinations(variables, {a: many})).toBe(
+      MAX_TEMPLATE_COMBINATIONS * 2,
+    );
+    expect(getTemplateError(variables, {a: many})).toContain('the limit is');
+  });
+
+  it('does not take inherited object members for values', () => {
+    const variables = findTemplateVariables('A {constructor} {toString: x}');
+    expect(getTemplateError(variables, {})).toBe(
+      'Give {constructor} at least one value.',
+    );
+    expect(fillTemplate('A {constructor}', {})).toBe('A {constructor}');
+    expect(
+      expandTemplate('A {constructor} walks', {constructor: ['fox']}),
+    ).toEqual([{prompt: 'A fox walks', values: {constructor: 'fox'}}]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// "{name}", or "{name: a | b}" to suggest values. Names are identifiers so
+// that braces used for anything else in a prompt are left alone.
+const VARIABLE_PATTERN = /\{([A-Za-z_][\w]*)(?:\s*:([^{}]*))?\}/g;
+
+// Every combination is a paid generation, so big batches must be deliberate
+export const MAX_TEMPLATE_COMBINATIONS = 24;
+
+export interface TemplateVariable {
+  name: string;
+  // Values suggested in the template itself
+  options: string[];
+}
+
+// A prompt filled in with one value per variable
+export interface TemplateExpansion {
+  prompt: string;
+  values: Record<string, string>;
+}
+
+const splitOptions = (text: string | undefined): string[] =>
+  (text ?? '')
+    .split('|')
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+/** The variables in `prompt`, in order of first use. */
+export const findTemplateVariables = (prompt: string): TemplateVariable[] => {
+  const variables: TemplateVariable[] = [];
+  for (const match of prompt.matchAll(VARIABLE_PATTERN)) {
+    const options = splitOptions(match[2]);
+    const existing = variables.find((v) => v.name === match[1]);
+    if (!existing) {
+      variables.push({name: match[1], options});
+    } else if (existing.options.length === 0) {
+      existing.options = options;
+    }
+  }
+  return variables;
+};
+
+/**
+ * The entry for `name`, if `values` has one of its own. Variable names can
+ * be anything, including "constructor", so inherited members must not count.
+ */
+export const getOwnValue = <T>(
+  values: Record<string, T>,
+  name: string,
+): T | undefined => (Object.hasOwn(values, name) ? values[name] : undefined);
+
+/** Replaces each variable with its value. Variables without one are kept. */
+export const fillTemplate = (
+  prompt: string,
+  values: Record<string, string>,
+): string =>
+  prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    getOwnValue(values, name) ?? placeholder,
+  );
+
+const valuesFor = (
+  variable: TemplateVariable,
+  values: Record<string, string[]>,
+) => {
+  const given = getOwnValue(values, variable.name) ?? [];
+  return given.length > 0 ? given : variable.options;
+};
+
+export const countCombinations = (
+  variables: TemplateVariable[],
+  values: Record<string, string[]>,
+): number =>
+  variables.reduce(
+    (count, variable) => count * valuesFor(variable, values).length,
+    1,
+  );
+
+/**
+ * Why a template cannot be expanded yet, or null if it can. Variables the
+ * user gave no values fall back to the ones suggested in the template.
+ */
+export const getTemplateError = (
+  variables: TemplateVariable[],
+  values: Record<string, string[]>,
+): string | null => {
+  const empty = variables.find((v) => valuesFor(v, values).length === 0);
+  if (empty) return `Give {${empty.name}} at least one value.`;
+  const count = countCombinations(variables, values);
+  if (count > MAX_TEMPLATE_COMBINATIONS) {
+    return `This template makes ${count} videos; the limit is ${MAX_TEMPLATE_COMBINATIONS}.`;
+  }
+  return null;
+};
+
+/**
+ * Every combination of the variables' values, with the first variable
+ * changing slowest.
+ */
+export const expandTemplate = (
+  prompt: string,
+  values: Record<string, string[]>,
+): TemplateExpansion[] => {
+  const variables = findTemplateVariables(prompt);
+  const combinations = variables.reduce<Record<string, string>[]>(
+    (partial, variable) =>
+      partial.flatMap((combination) =>
+        valuesFor(variable, values).map((value) => ({
+          ...combination,
+          [variable.name]: value,
+        })),
+      ),
+    [{}],
+  );
+  return combinations.map((combination) => ({
+    prompt: fillTemplate(prompt, combination),
+    values: combination,
+  }));
+};
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerationMode,
+  Storyboard,
+  StoryboardShot,
+} from '../types';
+import {
+  completeShot,
+  createShot,
+  createStoryboard,
+  failShot,
+  findShotByJob,
+  parseShotList,
+  planStoryboardRun,
+  replaceDraftShots,
+} from './storyboard';
+
+const SUGGESTION = {
+  summary: 'A beat',
+  prompt: 'A prompt',
+  aspectRatio: AspectRatio.LANDSCAPE,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+describe('parseShotList', () => {
+  it('reads shots from an array or a wrapping object', () => {
+    const shot = {
+      summary: 'INT. KITCHEN - NIGHT',
+      prompt: 'A dim kitchen lit by the fridge',
+      aspectRatio: '9:16',
+      mode: 'Text to Video',
+    };
+    const expected = [{...shot, aspectRatio: AspectRatio.PORTRAIT}];
+    expect(parseShotList([shot])).toEqual(expected);
+    expect(parseShotList({shots: [shot]})).toEqual(expected);
+  });
+
+  it('falls back to defaults for unknown values', () => {
+    expect(
+      parseShotList([{prompt: ' A cat ', aspectRatio: '4:3', mode: 'Dream'}]),
+    ).toEqual([
+      {
+        summary: 'A cat',
+        prompt: 'A cat',
+        aspectRatio: AspectRatio.LANDSCAPE,
+        mode: GenerationMode.TEXT_TO_VIDEO,
+      },
+    ]);
+  });
+
+  it('accepts mode names', () => {
+    const [, second] = parseShotList([
+      {prompt: 'First'},
+      {prompt: 'Second', mode: 'extend_video'},
+    ]);
+    expect(second.mode).toBe(GenerationMode.EXTEND_VIDEO);
+  });
+
+  it('never starts with an extension', () => {
+    expect(
+      parseShotList([{prompt: 'First', mode: GenerationMode.EXTEND_VIDEO}])[0]
+        .mode,
+    ).toBe(GenerationMode.TEXT_TO_VIDEO);
+  });
+
+  it('drops entries without a prompt', () => {
+    expect(parseShotList([{summary: 'No prompt'}, 'text', null])).toEqual([]);
+    expect(parseShotList('not json')).toEqual([]);
+  });
+});
+
+describe('planStoryboardRun', () => {
+  const shot = (id: string, mode = GenerationMode.TEXT_TO_VIDEO) => ({
+    ...createShot({
+      summary: id,
+      prompt: id,
+      aspectRatio: AspectRatio.LANDSCAPE,
+      mode,
+    }),
+    id,
+  });
+  const plan = (
+    shots: StoryboardShot[],
+    done: string[] = [],
+    running: string[] = [],
+  ) =>
+    planStoryboardRun(
+      shots,
+      (s) => done.includes(s.id),
+      (s) => running.includes(s.id),
+    );
+
+  it('queues independent shots right away', () => {
+    expect(plan([shot('a'), shot('b')])).toEqual({
+      ready: ['a', 'b'],
+      waiting: [],
+      blocked: [],
+    });
+  });
+
+  it('skips finished and running shots', () => {
+    expect(plan([shot('a'), shot('b'), shot('c')], ['a'], ['b']).ready).toEqual([
+      'c',
+    ]);
+  });
+
+  it('makes extensions wait for the shot they extend', () => {
+    const shots = [
+      shot('a'),
+      shot('b', GenerationMode.EXTEND_VIDEO),
+      shot('c', GenerationMode.EXTEND_VIDEO),
+    ];
+    expect(plan(shots)).toEqual({ready: ['a'], waiting: ['b', 'c'], blocked: []});
+    expect(plan(shots, ['a'])).toEqual({
+      ready: ['b'],
+      waiting: ['c'],
+      blocked: [],
+    });
+  });
+
+  it('blocks extensions with nothing to extend', () => {
+    expect(plan([shot('a', GenerationMode.EXTEND_VIDEO), shot('b')])).toEqual({
+      ready: ['b'],
+      waiting: [],
+      blocked: ['a'],
+    });
+  });
+});
+
+describe('shot results', () => {
+  const storyboard = (): Storyboard => ({
+    ...createStoryboard('Test'),
+    shots: [
+      {...createShot(SUGGESTION), id: 'a', jobId: 'job-a'},
+      {...createShot(SUGGESTION), id: 'b', awaitingPrevious: true},
+      {...createShot(SUGGESTION), id: 'c', awaitingPrevious: true},
+      {...createShot(SUGGESTION), id: 'd'},
+    ],
+  });
+
+  it('finds the shot a job belongs to', () => {
+    const found = findShotByJob([createStoryboard('Empty'), storyboard()], 'job-a');
+    expect(found?.shot.id).toBe('a');
+    expect(findShotByJob([storyboard()], 'job-x')).toBeNull();
+  });
+
+  it('links the scene and hands over the waiting shot', () => {
+    const {storyboard: updated, next} = completeShot(storyboard(), 'a', 'scene-a');
+    expect(updated.shots[0].sceneId).toBe('scene-a');
+    expect(next?.id).toBe('b');
+    expect(completeShot(updated, 'd', 'scene-d').next).toBeNull();
+  });
+
+  it('fails the shots waiting on a failed shot', () => {
+    const failed = failShot(storyboard(), 'a', 'Quota exceeded');
+    expect(failed.shots.map((shot) => [shot.error, shot.awaitingPrevious])).toEqual([
+      ['Quota exceeded', undefined],
+      ['The shot before this one did not finish.', false],
+      ['The shot before this one did not finish.', false],
+      [undefined, undefined],
+    ]);
+  });
+});
+
+describe('replaceDraftShots', () => {
+  it('keeps queued and generated shots ahead of the new drafts', () => {
+    const draft = createShot(SUGGESTION);
+    const queued = {...createShot(SUGGESTION), jobId: 'job'};
+    const generated = {...createShot(SUGGESTION), sceneId: 'scene'};
+    const next = createShot(SUGGESTION);
+    expect(replaceDraftShots([draft, queued, generated], [next])).toEqual([
+      queued,
+      generated,
+      next,
+    ]);
+  });
+});
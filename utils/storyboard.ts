@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerationMode,
+  Resolution,
+  ShotSuggestion,
+  Storyboard,
+  StoryboardShot,
+  VeoModel,
+} from '../types';
+import {createId} from './ids';
+
+const isEnumValue = <T extends string>(
+  values: Record<string, T>,
+  value: unknown,
+): value is T => Object.values(values).includes(value as T);
+
+// Accepts both enum values ('Text to Video') and names ('TEXT_TO_VIDEO').
+const parseMode = (value: unknown): GenerationMode | null => {
+  if (isEnumValue(GenerationMode, value)) return value;
+  if (typeof value === 'string') {
+    const key = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+    return GenerationMode[key as keyof typeof GenerationMode] ?? null;
+  }
+  return null;
+};
+
+/**
+ * Turns the text model's answer into shots. The model is asked for a JSON
+ * array but may wrap it in an object or invent values, so anything
+ * unusable falls back to a plain landscape text-to-video shot, and entries
+ * without a prompt are dropped.
+ */
+export const parseShotList = (data: unknown): ShotSuggestion[] => {
+  const entries = Array.isArray(data)
+    ? data
+    : Array.isArray((data as {shots?: unknown})?.shots)
+      ? (data as {shots: unknown[]}).shots
+      : [];
+
+  const shots: ShotSuggestion[] = [];
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const {prompt, summary, aspectRatio, mode} = entry as Record<string, unknown>;
+    if (typeof prompt !== 'string' || !prompt.trim()) continue;
+
+    const parsedMode = parseMode(mode) ?? GenerationMode.TEXT_TO_VIDEO;
+    shots.push({
+      prompt: prompt.trim(),
+      summary:
+        typeof summary === 'string' && summary.trim()
+          ? summary.trim()
+          : prompt.trim(),
+      aspectRatio: isEnumValue(AspectRatio, aspectRatio)
+        ? aspectRatio
+        : AspectRatio.LANDSCAPE,
+      // The first shot has nothing to extend
+      mode:
+        parsedMode === GenerationMode.EXTEND_VIDEO && shots.length === 0
+          ? GenerationMode.TEXT_TO_VIDEO
+          : parsedMode,
+    });
+  }
+  return shots;
+};
+
+export const createShot = (
+  suggestion: ShotSuggestion,
+  model: VeoModel = VeoModel.VEO_FAST,
+): StoryboardShot => ({
+  id: createId(),
+  summary: suggestion.summary,
+  params: {
+    prompt: suggestion.prompt,
+    model,
+    aspectRatio: suggestion.aspectRatio,
+    resolution: Resolution.P720,
+    mode: suggestion.mode,
+    referenceImages: [],
+  },
+});
+
+export const createStoryboard = (title: string, script = ''): Storyboard => {
+  const now = Date.now();
+  return {id: createId(), title, script, shots: [], createdAt: now, updatedAt: now};
+};
+
+/**
+ * The shots after the script is split again. Shots that were already queued
+ * or generated keep their job and scene, ahead of the new drafts.
+ */
+export const replaceDraftShots = (
+  shots: StoryboardShot[],
+  drafts: StoryboardShot[],
+): StoryboardShot[] => [
+  ...shots.filter((shot) => shot.jobId || shot.sceneId),
+  ...drafts,
+];
+
+export interface StoryboardRunPlan {
+  // Can be queued right away
+  ready: string[];
+  // Extension shots that must wait for the shot before them
+  waiting: string[];
+  // Extension shots with nothing to extend, e.g. the first shot
+  blocked: string[];
+}
+
+/**
+ * Works out which shots a "queue all" should start. Finished and running
+ * shots are left alone; extension shots extend the previous shot's scene,
+ * so they start now if it exists, wait if it is being made, and are
+ * blocked if it never will be.
+ */
+export const planStoryboardRun = (
+  shots: StoryboardShot[],
+  hasScene: (shot: StoryboardShot) => boolean,
+  isRunning: (shot: StoryboardShot) => boolean,
+): StoryboardRunPlan => {
+  const plan: StoryboardRunPlan = {ready: [], waiting: [], blocked: []};
+  let previous: 'done' | 'pending' | 'blocked' = 'blocked';
+
+  for (const shot of shots) {
+    if (hasScene(shot)) {
+      previous = 'done';
+    } else if (isRunning(shot)) {
+      previous = 'pending';
+    } else if (shot.params.mode !== GenerationMode.EXTEND_VIDEO) {
+      plan.ready.push(shot.id);
+      previous = 'pending';
+    } else if (previous === 'done') {
+      plan.ready.push(shot.id);
+      previous = 'pending';
+    } else if (previous === 'pending') {
+      plan.waiting.push(shot.id);
+    } else {
+      plan.blocked.push(shot.id);
+    }
+  }
+  return plan;
+};
+
+export const findShotByJob = (
+  storyboards: Storyboard[],
+  jobId: string,
+): {storyboard: Storyboard; shot: StoryboardShot} | null => {
+  for (const storyboard of storyboards) {
+    const shot = storyboard.shots.find((s) => s.jobId === jobId);
+    if (shot) return {storyboard, shot};
+  }
+  return null;
+};
+
+export const updateShot = (
+  storyboard: Storyboard,
+  shotId: string,
+  changes: Partial<StoryboardShot>,
+): Storyboard => ({
+  ...storyboard,
+  shots: storyboard.shots.map((shot) =>
+    shot.id === shotId ? {...shot, ...changes} : shot,
+  ),
+  updatedAt: Date.now(),
+});
+
+/**
+ * Links a finished shot to its scene. Returns the next shot too if it was
+ * waiting for this one, so the caller can start it.
+ */
+export const completeShot = (
+  storyboard: Storyboard,
+  shotId: string,
+  sceneId: string,
+): {storyboard: Storyboard; next: StoryboardShot | null} => {
+  const index = storyboard.shots.findIndex((shot) => shot.id === shotId);
+  const next = storyboard.shots[index + 1];
+  return {
+    storyboard: updateShot(storyboard, shotId, {sceneId, error: undefined}),
+    next: index >= 0 && next?.awaitingPrevious ? next : null,
+  };
+};
+
+/**
+ * Records why a shot failed. Extension shots waiting on it, directly or
+ * through each other, can no longer run and fail with it.
+ */
+export const failShot = (
+  storyboard: Storyboard,
+  shotId: string,
+  error: string,
+): Storyboard => {
+  const index = storyboard.shots.findIndex((shot) => shot.id === shotId);
+  if (index < 0) return storyboard;
+  const shots = [...storyboard.shots];
+  shots[index] = {...shots[index], error};
+  for (let i = index + 1; shots[i]?.awaitingPrevious; i++) {
+    shots[i] = {
+      ...shots[i],
+      awaitingPrevious: false,
+      error: 'The shot before this one did not finish.',
+    };
+  }
+  return {...storyboard, shots, updatedAt: Date.now()};
+};
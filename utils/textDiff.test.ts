@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  applyChanges,
+  diffWords,
+  DiffOp,
+  getChangeIndexes,
+  groupChanges,
+} from './textDiff';
+
+describe('diffWords', () => {
+  it('marks replaced and added words', () => {
+    expect(diffWords('a red fox runs', 'a red fox sprints at dusk')).toEqual([
+      {op: DiffOp.EQUAL, text: 'a red fox '},
+      {op: DiffOp.DELETE, text: 'runs'},
+      {op: DiffOp.INSERT, text: 'sprints at dusk'},
+    ]);
+  });
+
+  it('reports no changes for identical text', () => {
+    expect(diffWords('same text', 'same text')).toEqual([
+      {op: DiffOp.EQUAL, text: 'same text'},
+    ]);
+  });
+});
+
+describe('applyChanges', () => {
+  const before = 'A fox runs through snow.';
+  const after = 'A red fox sprints through fresh snow.';
+  const chunks = groupChanges(diffWords(before, after));
+  const changes = getChangeIndexes(chunks);
+
+  it('groups each place that changed', () => {
+    expect(
+      changes.map((index) => {
+        const chunk = chunks[index];
+        return chunk.changed ? [chunk.removed.trim(), chunk.added.trim()] : null;
+      }),
+    ).toEqual([
+      ['', 'red'],
+      ['runs', 'sprints'],
+      ['', 'fresh'],
+    ]);
+  });
+
+  it('rebuilds either text, or a mix of both', () => {
+    expect(applyChanges(chunks, new Set(changes))).toBe(after);
+    expect(applyChanges(chunks, new Set())).toBe(before);
+    expect(applyChanges(chunks, new Set([changes[1]]))).toBe(
+      'A fox sprints through snow.',
+    );
+  });
+});
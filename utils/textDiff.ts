@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export enum DiffOp {
+  EQUAL = 'equal',
+  INSERT = 'insert',
+  DELETE = 'delete',
+}
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Unchanged text, or one place where the new text differs from the old
+export type DiffChunk =
+  | {changed: false; text: string}
+  | {changed: true; removed: string; added: string};
+
+// Words and the whitespace between them, so joining the tokens gives back
+// the original text exactly
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushPart = (parts: DiffPart[], op: DiffOp, text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.op === op) {
+    last.text += text;
+  } else {
+    parts.push({op, text});
+  }
+};
+
+/**
+ * Word-level diff of `before` against `after`, from a longest common
+ * subsequence of their tokens. Prompts are short enough for the quadratic
+ * table.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  // lengths[i][j]: common tokens of a[i..] and b[j..]
+  const lengths = Array.from({length: a.length + 1}, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, DiffOp.EQUAL, a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, DiffOp.DELETE, a[i++]);
+    } else {
+      pushPart(parts, DiffOp.INSERT, b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, DiffOp.DELETE, a[i++]);
+  while (j < b.length) pushPart(parts, DiffOp.INSERT, b[j++]);
+  return parts;
+};
+
+/**
+ * Groups a diff into unchanged runs and changes. A change holds whatever
+ * was removed and added between two unchanged runs, so it can be taken or
+ * left as a whole. Changes that only touch whitespace count as unchanged.
+ */
+export const groupChanges = (parts: DiffPart[]): DiffChunk[] => {
+  const chunks: DiffChunk[] = [];
+  let change: {changed: true; removed: string; added: string} | null = null;
+  for (const part of parts) {
+    if (part.op !== DiffOp.EQUAL) {
+      if (!change) {
+        change = {changed: true, removed: '', added: ''};
+        chunks.push(change);
+      }
+      if (part.op === DiffOp.DELETE) {
+        change.removed += part.text;
+      } else {
+        change.added += part.text;
+      }
+      continue;
+    }
+    change = null;
+    const last = chunks[chunks.length - 1];
+    if (last?.changed === false) {
+      last.text += part.text;
+    } else {
+      chunks.push({changed: false, text: part.text});
+    }
+  }
+  return chunks.map((chunk) =>
+    chunk.changed && !chunk.removed.trim() && !chunk.added.trim()
+      ? {changed: false, text: chunk.added}
+      : chunk,
+  );
+};
+
+/** Indexes of the chunks that are changes. */
+export const getChangeIndexes = (chunks: DiffChunk[]): number[] =>
+  chunks.flatMap((chunk, index) => (chunk.changed ? [index] : []));
+
+/**
+ * The text with only the changes at `accepted` (chunk indexes) applied.
+ * Accepting every change gives the new text; accepting none, the old one.
+ */
+export const applyChanges = (
+  chunks: DiffChunk[],
+  accepted: ReadonlySet<number>,
+): string =>
+  chunks
+    .map((chunk, index) =>
+      chunk.changed === false
+        ? chunk.text
+        : accepted.has(index)
+          ? chunk.added
+          : chunk.removed,
+    )
+    .join('');
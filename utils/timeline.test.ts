@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {SequenceClip} from '../types';
+import {
+  createClip,
+  getClipStart,
+  getSequenceDuration,
+  locateTime,
+  MIN_CLIP_DURATION,
+  moveClip,
+  removeSceneClips,
+  trimClip,
+} from './timeline';
+
+const clip = (
+  id: string,
+  inPoint: number,
+  outPoint: number,
+  sceneDuration = 8,
+): SequenceClip => ({id, sceneId: `scene-${id}`, inPoint, outPoint, sceneDuration});
+
+const CLIPS = [clip('a', 0, 8), clip('b', 2, 5), clip('c', 1, 7)];
+
+describe('createClip', () => {
+  it('spans the whole scene', () => {
+    expect(createClip('scene-1', 7.5)).toMatchObject({
+      sceneId: 'scene-1',
+      inPoint: 0,
+      outPoint: 7.5,
+      sceneDuration: 7.5,
+    });
+  });
+});
+
+describe('sequence timing', () => {
+  it('sums trimmed clip durations', () => {
+    expect(getSequenceDuration(CLIPS)).toBe(8 + 3 + 6);
+    expect(getSequenceDuration([])).toBe(0);
+  });
+
+  it('finds where each clip starts', () => {
+    expect([0, 1, 2].map((index) => getClipStart(CLIPS, index))).toEqual([
+      0, 8, 11,
+    ]);
+  });
+
+  it('locates the clip and offset for a sequence time', () => {
+    expect(locateTime(CLIPS, 0)).toEqual({index: 0, offset: 0});
+    expect(locateTime(CLIPS, 9.5)).toEqual({index: 1, offset: 1.5});
+    // Clip boundaries belong to the next clip
+    expect(locateTime(CLIPS, 11)).toEqual({index: 2, offset: 0});
+  });
+
+  it('returns null past the end', () => {
+    expect(locateTime(CLIPS, 17)).toBeNull();
+    expect(locateTime([], 0)).toBeNull();
+  });
+});
+
+describe('moveClip', () => {
+  const ids = (clips: SequenceClip[]) => clips.map((c) => c.id);
+
+  it('moves a clip forward and backward', () => {
+    expect(ids(moveClip(CLIPS, 0, 2))).toEqual(['b', 'c', 'a']);
+    expect(ids(moveClip(CLIPS, 2, 0))).toEqual(['c', 'a', 'b']);
+  });
+
+  it('clamps the target index', () => {
+    expect(ids(moveClip(CLIPS, 1, 99))).toEqual(['a', 'c', 'b']);
+    expect(ids(moveClip(CLIPS, 1, -1))).toEqual(['b', 'a', 'c']);
+  });
+
+  it('returns the same array when nothing moves', () => {
+    expect(moveClip(CLIPS, 1, 1)).toBe(CLIPS);
+    expect(moveClip(CLIPS, 5, 0)).toBe(CLIPS);
+  });
+});
+
+describe('trimClip', () => {
+  const base = clip('a', 1, 6);
+
+  it('moves the in and out points', () => {
+    expect(trimClip(base, {inPoint: 2})).toMatchObject({inPoint: 2, outPoint: 6});
+    expect(trimClip(base, {outPoint: 4})).toMatchObject({inPoint: 1, outPoint: 4});
+  });
+
+  it('keeps both points inside the scene', () => {
+    expect(trimClip(base, {inPoint: -3})).toMatchObject({inPoint: 0});
+    expect(trimClip(base, {outPoint: 12})).toMatchObject({outPoint: 8});
+  });
+
+  it('stops a point at the minimum distance from the other one', () => {
+    expect(trimClip(base, {inPoint: 7})).toMatchObject({
+      inPoint: 6 - MIN_CLIP_DURATION,
+      outPoint: 6,
+    });
+    expect(trimClip(base, {outPoint: 0})).toMatchObject({
+      inPoint: 1,
+      outPoint: 1 + MIN_CLIP_DURATION,
+    });
+  });
+
+  it('clamps the out point to the scene before moving the in point', () => {
+    expect(
+      trimClip(clip('a', 1, 6, 10), {inPoint: 9.8, outPoint: 20}),
+    ).toMatchObject({inPoint: 10 - MIN_CLIP_DURATION, outPoint: 10});
+  });
+
+  it('handles scenes shorter than the minimum duration', () => {
+    expect(trimClip(clip('a', 0, 0.3, 0.3), {inPoint: 0.2})).toMatchObject({
+      inPoint: 0,
+      outPoint: 0.3,
+    });
+  });
+});
+
+describe('removeSceneClips', () => {
+  it('drops every clip of the scene', () => {
+    const clips = [...CLIPS, clip('a', 3, 4)];
+    expect(removeSceneClips(clips, 'scene-a').map((c) => c.id)).toEqual([
+      'b',
+      'c',
+    ]);
+  });
+});
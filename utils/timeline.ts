@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {SequenceClip} from '../types';
+import {createId} from './ids';
+
+// Shorter clips are hard to grab on the track and rarely intended.
+export const MIN_CLIP_DURATION = 0.5;
+
+export const createClip = (
+  sceneId: string,
+  sceneDuration: number,
+): SequenceClip => ({
+  id: createId(),
+  sceneId,
+  inPoint: 0,
+  outPoint: sceneDuration,
+  sceneDuration,
+});
+
+export const getClipDuration = (clip: SequenceClip): number =>
+  clip.outPoint - clip.inPoint;
+
+export const getSequenceDuration = (clips: SequenceClip[]): number =>
+  clips.reduce((total, clip) => total + getClipDuration(clip), 0);
+
+/** Where clip `index` starts on the sequence's own timeline. */
+export const getClipStart = (clips: SequenceClip[], index: number): number =>
+  getSequenceDuration(clips.slice(0, index));
+
+/**
+ * Finds the clip playing at `time` seconds into the sequence, and how far
+ * into that clip. Returns null once the sequence is over.
+ */
+export const locateTime = (
+  clips: SequenceClip[],
+  time: number,
+): {index: number; offset: number} | null => {
+  let start = 0;
+  for (let index = 0; index < clips.length; index++) {
+    const duration = getClipDuration(clips[index]);
+    if (time < start + duration) {
+      return {index, offset: Math.max(0, time - start)};
+    }
+    start += duration;
+  }
+  return null;
+};
+
+export const moveClip = (
+  clips: SequenceClip[],
+  fromIndex: number,
+  toIndex: number,
+): SequenceClip[] => {
+  const target = Math.max(0, Math.min(toIndex, clips.length - 1));
+  if (fromIndex === target || !clips[fromIndex]) return clips;
+  const next = [...clips];
+  const [clip] = next.splice(fromIndex, 1);
+  next.splice(target, 0, clip);
+  return next;
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Moves the in and/or out point, keeping both inside the scene and at least
+ * MIN_CLIP_DURATION apart. A point dragged into the other one stops there.
+ */
+export const trimClip = (
+  clip: SequenceClip,
+  {inPoint, outPoint}: Partial<Pick<SequenceClip, 'inPoint' | 'outPoint'>>,
+): SequenceClip => {
+  const minDuration = Math.min(MIN_CLIP_DURATION, clip.sceneDuration);
+  const outLimit = Math.min(outPoint ?? clip.outPoint, clip.sceneDuration);
+  const nextIn =
+    inPoint === undefined
+      ? clip.inPoint
+      : clamp(inPoint, 0, outLimit - minDuration);
+  const nextOut =
+    outPoint === undefined
+      ? clip.outPoint
+      : clamp(outPoint, nextIn + minDuration, clip.sceneDuration);
+  return {...clip, inPoint: Math.max(0, nextIn), outPoint: nextOut};
+};
+
+export const removeSceneClips = (
+  clips: SequenceClip[],
+  sceneId: string,
+): SequenceClip[] => clips.filter((clip) => clip.sceneId !== sceneId);
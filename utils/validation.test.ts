@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  Resolution,
+  VeoModel,
+  VideoFile,
+} from '../types';
+import {
+  hasIssue,
+  IssueKind,
+  MAX_REFERENCE_IMAGES,
+  validateVideoParams,
+} from './validation';
+
+const image = (name: string, type = 'image/png'): ImageFile => ({
+  file: new File([], name, {type}),
+  base64: '',
+});
+
+const INPUT_VIDEO: VideoFile = {
+  file: new File([], 'scene.mp4', {type: 'video/mp4'}),
+  base64: '',
+};
+
+const params = (overrides: Partial<GenerateVideoParams>): GenerateVideoParams => ({
+  prompt: 'A cat surfing a wave',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+  ...overrides,
+});
+
+const fields = (overrides: Partial<GenerateVideoParams>) =>
+  validateVideoParams(params(overrides)).map((issue) => issue.field);
+
+describe('validateVideoParams', () => {
+  it('accepts a plain text prompt', () => {
+    expect(validateVideoParams(params({}))).toEqual([]);
+  });
+
+  it('requires a prompt in text mode', () => {
+    const issues = validateVideoParams(params({prompt: '   '}));
+    expect(issues).toEqual([
+      expect.objectContaining({field: 'prompt', kind: IssueKind.MISSING}),
+    ]);
+  });
+
+  it('accepts 1080p text generations', () => {
+    expect(fields({resolution: Resolution.P1080})).toEqual([]);
+  });
+
+  describe('frames to video', () => {
+    const frames = (overrides: Partial<GenerateVideoParams>) =>
+      params({mode: GenerationMode.FRAMES_TO_VIDEO, ...overrides});
+
+    it('requires a start frame but not a prompt', () => {
+      expect(validateVideoParams(frames({prompt: ''}))).toEqual([
+        expect.objectContaining({field: 'startFrame', kind: IssueKind.MISSING}),
+      ]);
+    });
+
+    it('accepts PNG, JPEG and WebP frames', () => {
+      expect(
+        validateVideoParams(
+          frames({
+            startFrame: image('a.jpg', 'image/jpeg'),
+            endFrame: image('b.webp', 'image/webp'),
+          }),
+        ),
+      ).toEqual([]);
+    });
+
+    it('rejects unsupported frame types', () => {
+      const issues = validateVideoParams(
+        frames({
+          startFrame: image('a.gif', 'image/gif'),
+          endFrame: image('b.svg', 'image/svg+xml'),
+        }),
+      );
+      expect(issues.map((issue) => [issue.field, issue.kind])).toEqual([
+        ['startFrame', IssueKind.INVALID],
+        ['endFrame', IssueKind.INVALID],
+      ]);
+    });
+
+    it('ignores a stale end frame when looping', () => {
+      expect(
+        fields({
+          mode: GenerationMode.FRAMES_TO_VIDEO,
+          startFrame: image('a.png'),
+          endFrame: image('b.gif', 'image/gif'),
+          isLooping: true,
+        }),
+      ).toEqual([]);
+    });
+  });
+
+  describe('references to video', () => {
+    const references = (overrides: Partial<GenerateVideoParams>) =>
+      params({mode: GenerationMode.REFERENCES_TO_VIDEO, ...overrides});
+
+    it('requires a prompt and at least one reference image', () => {
+      expect(
+        validateVideoParams(references({prompt: ''})).map((issue) => issue.field),
+      ).toEqual(['prompt', 'referenceImages']);
+    });
+
+    it(`rejects more than ${MAX_REFERENCE_IMAGES} reference images`, () => {
+      const issues = validateVideoParams(
+        references({
+          referenceImages: [1, 2, 3, 4].map((n) => image(`ref-${n}.png`)),
+        }),
+      );
+      expect(issues).toEqual([
+        expect.objectContaining({
+          field: 'referenceImages',
+          kind: IssueKind.INVALID,
+        }),
+      ]);
+      // The limit is about the set, not one particular image
+      expect(issues[0].index).toBeUndefined();
+    });
+
+    it('points at the reference image with an unsupported type', () => {
+      const issues = validateVideoParams(
+        references({
+          referenceImages: [image('a.png'), image('b.heic', 'image/heic')],
+        }),
+      );
+      expect(issues).toEqual([
+        expect.objectContaining({field: 'referenceImages', index: 1}),
+      ]);
+    });
+
+    it('rejects an unsupported style image', () => {
+      expect(
+        fields({
+          mode: GenerationMode.REFERENCES_TO_VIDEO,
+          referenceImages: [image('a.png')],
+          styleImage: image('style.bmp', 'image/bmp'),
+        }),
+      ).toEqual(['styleImage']);
+    });
+
+    it('rejects 1080p', () => {
+      expect(
+        fields({
+          mode: GenerationMode.REFERENCES_TO_VIDEO,
+          referenceImages: [image('a.png')],
+          resolution: Resolution.P1080,
+        }),
+      ).toEqual(['resolution']);
+    });
+  });
+
+  describe('extend video', () => {
+    const extend = (overrides: Partial<GenerateVideoParams>) =>
+      params({
+        mode: GenerationMode.EXTEND_VIDEO,
+        inputVideo: INPUT_VIDEO,
+        inputVideoObject: {uri: 'https://example.com/scene.mp4'},
+        ...overrides,
+      });
+
+    it('accepts a prompt and a generated input video', () => {
+      expect(validateVideoParams(extend({}))).toEqual([]);
+    });
+
+    it('requires a prompt', () => {
+      expect(hasIssue(validateVideoParams(extend({prompt: ''})), 'prompt')).toBe(
+        true,
+      );
+    });
+
+    it('requires the generated video object, not just the file', () => {
+      const issues = validateVideoParams(extend({inputVideoObject: undefined}));
+      expect(issues).toEqual([
+        expect.objectContaining({field: 'inputVideo', kind: IssueKind.MISSING}),
+      ]);
+      expect(issues[0].message).toMatch(/re-select the scene/);
+    });
+
+    it('asks for an input video when none is attached', () => {
+      const issues = validateVideoParams(
+        extend({inputVideo: undefined, inputVideoObject: undefined}),
+      );
+      expect(issues[0].message).toMatch(/input video from a previous generation/);
+    });
+
+    it('rejects 1080p', () => {
+      expect(fields({...extend({}), resolution: Resolution.P1080})).toEqual([
+        'resolution',
+      ]);
+    });
+
+    it('checks reference images against the same limits', () => {
+      expect(
+        hasIssue(
+          validateVideoParams(
+            extend({
+              referenceImages: [1, 2, 3, 4].map((n) => image(`ref-${n}.png`)),
+            }),
+          ),
+          'referenceImages',
+          IssueKind.INVALID,
+        ),
+      ).toBe(true);
+    });
+  });
+});
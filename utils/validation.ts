@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideoParams, GenerationMode, ImageFile, Resolution} from '../types';
+
+export const MAX_REFERENCE_IMAGES = 3;
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export enum IssueKind {
+  // A required input has not been provided yet.
+  MISSING = 'missing',
+  // An input was provided but the API would reject it.
+  INVALID = 'invalid',
+}
+
+export type ValidatedField = keyof Pick<
+  GenerateVideoParams,
+  | 'prompt'
+  | 'resolution'
+  | 'startFrame'
+  | 'endFrame'
+  | 'referenceImages'
+  | 'styleImage'
+  | 'inputVideo'
+>;
+
+export interface ValidationIssue {
+  field: ValidatedField;
+  kind: IssueKind;
+  message: string;
+  // Which reference image the issue is about, when it is about just one.
+  index?: number;
+}
+
+const isSupportedImage = (image: ImageFile): boolean =>
+  SUPPORTED_IMAGE_TYPES.includes(image.file.type);
+
+const unsupportedImageMessage = (label: string, image: ImageFile): string =>
+  `${label} is a ${image.file.type || 'file of unknown type'}. Use a PNG, JPEG or WebP image.`;
+
+/**
+ * Checks parameters against the API's constraints before anything is sent.
+ * Only the inputs the selected mode actually uses are checked, mirroring
+ * buildVideoPayload. Returns an empty list when the parameters are valid.
+ */
+export const validateVideoParams = (
+  params: GenerateVideoParams,
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const {mode} = params;
+  const hasPrompt = Boolean(params.prompt?.trim());
+  const usesReferences =
+    mode === GenerationMode.REFERENCES_TO_VIDEO ||
+    mode === GenerationMode.EXTEND_VIDEO;
+  const referenceImages = usesReferences ? params.referenceImages ?? [] : [];
+
+  if (!hasPrompt && mode !== GenerationMode.FRAMES_TO_VIDEO) {
+    issues.push({
+      field: 'prompt',
+      kind: IssueKind.MISSING,
+      message:
+        mode === GenerationMode.EXTEND_VIDEO
+          ? 'Please describe the next steps in the prompt.'
+          : 'Please enter a prompt.',
+    });
+  }
+
+  if (mode === GenerationMode.FRAMES_TO_VIDEO) {
+    if (!params.startFrame) {
+      issues.push({
+        field: 'startFrame',
+        kind: IssueKind.MISSING,
+        message: 'A start frame is required.',
+      });
+    } else if (!isSupportedImage(params.startFrame)) {
+      issues.push({
+        field: 'startFrame',
+        kind: IssueKind.INVALID,
+        message: unsupportedImageMessage('The start frame', params.startFrame),
+      });
+    }
+  }
+
+  const usesEndFrame =
+    (mode === GenerationMode.FRAMES_TO_VIDEO && !params.isLooping) ||
+    mode === GenerationMode.EXTEND_VIDEO;
+  if (usesEndFrame && params.endFrame && !isSupportedImage(params.endFrame)) {
+    issues.push({
+      field: 'endFrame',
+      kind: IssueKind.INVALID,
+      message: unsupportedImageMessage('The end frame', params.endFrame),
+    });
+  }
+
+  if (mode === GenerationMode.REFERENCES_TO_VIDEO && referenceImages.length === 0) {
+    issues.push({
+      field: 'referenceImages',
+      kind: IssueKind.MISSING,
+      message: 'At least one reference image is required.',
+    });
+  }
+  if (referenceImages.length > MAX_REFERENCE_IMAGES) {
+    issues.push({
+      field: 'referenceImages',
+      kind: IssueKind.INVALID,
+      message: `Use at most ${MAX_REFERENCE_IMAGES} reference images (${referenceImages.length} attached).`,
+    });
+  }
+  referenceImages.forEach((image, index) => {
+    if (!isSupportedImage(image)) {
+      issues.push({
+        field: 'referenceImages',
+        kind: IssueKind.INVALID,
+        index,
+        message: unsupportedImageMessage(`Reference image ${index + 1}`, image),
+      });
+    }
+  });
+
+  if (usesReferences && params.styleImage && !isSupportedImage(params.styleImage)) {
+    issues.push({
+      field: 'styleImage',
+      kind: IssueKind.INVALID,
+      message: unsupportedImageMessage('The style image', params.styleImage),
+    });
+  }
+
+  if (params.resolution === Resolution.P1080) {
+    if (referenceImages.length > 0 || (usesReferences && params.styleImage)) {
+      issues.push({
+        field: 'resolution',
+        kind: IssueKind.INVALID,
+        message: 'Reference images only work at 720p.',
+      });
+    } else if (mode === GenerationMode.EXTEND_VIDEO) {
+      issues.push({
+        field: 'resolution',
+        kind: IssueKind.INVALID,
+        message: 'Videos can only be extended at 720p.',
+      });
+    }
+  }
+
+  if (mode === GenerationMode.EXTEND_VIDEO && !params.inputVideoObject) {
+    // A file without its video object cannot be extended: the API needs the
+    // reference to a video it generated itself.
+    issues.push({
+      field: 'inputVideo',
+      kind: IssueKind.MISSING,
+      message: params.inputVideo
+        ? 'Video data lost. Please regenerate or re-select the scene from the gallery.'
+        : 'An input video from a previous generation is required to extend.',
+    });
+  }
+
+  return issues;
+};
+
+export const hasIssue = (
+  issues: ValidationIssue[],
+  field: ValidatedField,
+  kind?: IssueKind,
+): boolean =>
+  issues.some((issue) => issue.field === field && (!kind || issue.kind === kind));